@@ -1,54 +1,155 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import BattleReplay from './components/BattleReplay';
+import BattleScreen from './components/BattleScreen';
+import ChatPanel from './components/ChatPanel';
+import DiplomacyPanel from './components/DiplomacyPanel';
+import HeroPanel from './components/HeroPanel';
+import LoginForm from './components/LoginForm';
+import PartyPanel from './components/PartyPanel';
+import QuestPanel from './components/QuestPanel';
+import ReportsPanel, { getOurSide } from './components/ReportsPanel';
+import RoomBrowser from './components/RoomBrowser';
+import SettlementPanel from './components/SettlementPanel';
+import TerritoryPanel from './components/TerritoryPanel';
+import {
+  ATTACK_RANGE,
+  FACTION_COLORS,
+  getArmyLimit,
+  getPromotableCount,
+  getRankName,
+  getSettlementVision,
+  getStance,
+  getWages,
+  isAtWar,
+  MAX_UNIT_LEVEL,
+  PROMOTION_XP,
+  PROTOCOL_VERSION,
+  QUEST_BANDIT_RANGE,
+  SCOUT_RANGE,
+  SETTLEMENT_RANGE,
+  TERRAIN_MOVE_COST,
+  terrainAt,
+  terrainAtTile,
+  UPGRADE_COST,
+  type ClientMessage,
+  type ServerMessage,
+} from '@warband/protocol';
+import type {
+  ActiveBattle,
+  BattleReport,
+  BattleReportSummary,
+  BattleResult,
+  GameState,
+  MapData,
+  March,
+  Player,
+  PlayerChange,
+  Position,
+  PublicPlayer,
+  RoomInfo,
+  TerrainType,
+  Territory,
+} from './types';
 
 // ============================================
-// TYPES
+// CONSTANTS
 // ============================================
 
-interface Position {
-  x: number;
-  y: number;
-}
+const NPC_ICONS: Record<NonNullable<Player['npc']>, string> = {
+  lord: '🛡️',
+  bandit: '☠️',
+};
 
-interface Unit {
-  type: 'infantry' | 'archer' | 'cavalry';
-  count: number;
-  level: number;
-}
+const TERRAIN_COLORS: Record<TerrainType, string> = {
+  plains: '#3f6212',
+  forest: '#14532d',
+  hills: '#78716c',
+  mountains: '#44403c',
+  river: '#1d4ed8',
+  road: '#a16207',
+};
+
+const FOG_COLOR = 'rgba(2, 6, 23, 0.65)';
+
+// Interpolation advances in slices this long, re-reading the ground underfoot each time
+const MARCH_STEP_MS = 100;
+
+// Login token from /api/login or /api/register, and the account it belongs to
+const AUTH_TOKEN_KEY = 'warband_auth_token';
+const AUTH_USERNAME_KEY = 'warband_username';
+const RESUME_TOKEN_KEY = 'warband_resume_token';
+// Room we are playing in, so a reconnect lands back in it; cleared on returning to the lobby
+const ROOM_KEY = 'warband_room';
+
+// Lines kept in the chat log, matching the history the server replays on join
+const CHAT_LOG_LIMIT = 50;
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+// ============================================
+// HELPERS
+// ============================================
+
+// Walks `elapsedMs` worth of travel along the march path from `from`, slowed or sped up by the terrain
+function interpolateMarch(from: Position, march: March, elapsedMs: number, map: MapData | null): Position {
+  const current = { ...from };
+  let next = 0;
+
+  for (let elapsed = 0; elapsed < elapsedMs && next < march.path.length; elapsed += MARCH_STEP_MS) {
+    const cost = map ? TERRAIN_MOVE_COST[terrainAt(map, current)] : 1;
+    const slice = Math.min(MARCH_STEP_MS, elapsedMs - elapsed);
+    let budget = march.speed * (slice / 1000) / (Number.isFinite(cost) ? cost : 1);
+
+    while (budget > 0 && next < march.path.length) {
+      const waypoint = march.path[next];
+      const distance = Math.hypot(waypoint.x - current.x, waypoint.y - current.y);
+      if (distance <= budget) {
+        current.x = waypoint.x;
+        current.y = waypoint.y;
+        budget -= distance;
+        next++;
+      } else {
+        current.x += (waypoint.x - current.x) * (budget / distance);
+        current.y += (waypoint.y - current.y) * (budget / distance);
+        budget = 0;
+      }
+    }
+  }
 
-interface Player {
-  id: string;
-  name: string;
-  faction: string;
-  position: Position;
-  gold: number;
-  army: Unit[];
-  color: string;
+  return current;
 }
 
-interface Territory {
-  id: string;
-  name: string;
-  position: Position;
-  owner: string | null;
-  type: 'village' | 'castle' | 'city';
-  income: number;
+// Marker radius in screen pixels; also how close a tap must land to select the settlement
+function territoryMarkerSize(territory: Territory): number {
+  return territory.type === 'city' ? 20 : territory.type === 'castle' ? 15 : 10;
 }
 
-interface GameState {
-  connected: boolean;
-  playerId: string | null;
-  player: Player | null;
-  players: Player[];
-  territories: Territory[];
-  messages: ChatMessage[];
+// Merges a delta into a party we already know about; null fields were cleared on the server
+function applyPlayerChange<T extends PublicPlayer>(player: T, change: PlayerChange): T {
+  const next: Record<string, unknown> = { ...player };
+  Object.entries(change).forEach(([key, value]) => {
+    if (value === null) delete next[key];
+    else next[key] = value;
+  });
+  return next as T;
 }
 
-interface ChatMessage {
-  id: string;
-  name: string;
-  faction: string;
-  text: string;
-  time: number;
+// Paints the terrain once at one pixel per tile; the renderer scales it up each frame
+function renderTerrain(map: MapData): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = map.width;
+  canvas.height = map.height;
+  const ctx = canvas.getContext('2d')!;
+
+  for (let row = 0; row < map.height; row++) {
+    for (let col = 0; col < map.width; col++) {
+      ctx.fillStyle = TERRAIN_COLORS[terrainAtTile(map, col, row)];
+      ctx.fillRect(col, row, 1, 1);
+    }
+  }
+
+  return canvas;
 }
 
 // ============================================
@@ -57,30 +158,148 @@ interface ChatMessage {
 
 export default function App() {
   const [screen, setScreen] = useState<'menu' | 'game'>('menu');
-  const [playerName, setPlayerName] = useState('');
+  // Username of the stored login, if any; the token itself is read from storage when joining
+  const [username, setUsername] = useState(() => localStorage.getItem(AUTH_USERNAME_KEY));
+  const [loginNotice, setLoginNotice] = useState<string | null>(null);
+  // What the lobby last told us about the rooms we can join
+  const [rooms, setRooms] = useState<RoomInfo[]>([]);
   const [gameState, setGameState] = useState<GameState>({
     connected: false,
     playerId: null,
+    room: null,
     player: null,
     players: [],
     territories: [],
+    map: null,
+    relations: [],
+    proposals: [],
     messages: [],
+    party: null,
+    partyInvites: [],
+    quests: [],
+    questOffers: [],
   });
   
   const wsRef = useRef<WebSocket | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Offscreen layer the fog is painted on before it is laid over the map
+  const fogCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const [camera, setCamera] = useState({ x: 50, y: 50, zoom: 1 });
-  const [showPanel, setShowPanel] = useState<'none' | 'army' | 'chat'>('none');
+  // Last drawn view centre, so taps map to the same world position the player sees
+  const viewCenterRef = useRef<Position>({ x: 50, y: 50 });
+  // When each party's current march was last synced, on the performance.now() clock
+  const marchClockRef = useRef(new Map<string, number>());
+  const [showPanel, setShowPanel] = useState<'none' | 'army' | 'hero' | 'quests' | 'town' | 'territory' | 'diplomacy' | 'reports' | 'chat'>('none');
+  const [selectedTerritoryId, setSelectedTerritoryId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [battle, setBattle] = useState<ActiveBattle | null>(null);
+  const [battleResult, setBattleResult] = useState<BattleResult | null>(null);
+  // Battle history as far back as we have paged, and the battle being replayed
+  const [reports, setReports] = useState<{ list: BattleReportSummary[]; more: boolean }>({ list: [], more: false });
+  const [replay, setReplay] = useState<BattleReport | null>(null);
+  // Set while an older page is on its way, so it is added to the list rather than replacing it
+  const pagingReportsRef = useRef(false);
 
   // Connect to server
   const [connectionError, setConnectionError] = useState<string | null>(null);
+  const [reconnecting, setReconnecting] = useState(false);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  
+  // A backoff still pending would otherwise open a fresh socket after we have logged out or left
+  const cancelReconnect = () => {
+    if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+    reconnectTimerRef.current = null;
+    reconnectAttemptRef.current = 0;
+    setReconnecting(false);
+    setConnectionError(null);
+  };
+  
+  const sendJoin = (ws: WebSocket, roomId: string, faction?: string) => {
+    const join: ClientMessage = {
+      type: 'join',
+      protocolVersion: PROTOCOL_VERSION,
+      token: localStorage.getItem(AUTH_TOKEN_KEY) ?? '',
+      roomId,
+      faction,
+    };
+    ws.send(JSON.stringify(join));
+  };
+  
+  const sendLobby = (ws: WebSocket) => {
+    const lobby: ClientMessage = {
+      type: 'lobby',
+      protocolVersion: PROTOCOL_VERSION,
+      token: localStorage.getItem(AUTH_TOKEN_KEY) ?? '',
+    };
+    ws.send(JSON.stringify(lobby));
+  };
+  
+  // Back into the room we were playing in, or to the lobby to pick one
+  const rejoin = (ws: WebSocket) => {
+    const roomId = localStorage.getItem(ROOM_KEY);
+    if (roomId) sendJoin(ws, roomId);
+    else sendLobby(ws);
+  };
+  
+  // A resume token belongs to whoever was logged in, so it goes whenever the account changes
+  const logIn = (token: string, name: string) => {
+    localStorage.setItem(AUTH_TOKEN_KEY, token);
+    localStorage.setItem(AUTH_USERNAME_KEY, name);
+    localStorage.removeItem(RESUME_TOKEN_KEY);
+    setUsername(name);
+    setLoginNotice(null);
+  };
+  
+  const logOut = (reason: string | null = null) => {
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+    localStorage.removeItem(AUTH_USERNAME_KEY);
+    localStorage.removeItem(RESUME_TOKEN_KEY);
+    localStorage.removeItem(ROOM_KEY);
+    setUsername(null);
+    setLoginNotice(reason);
+    cancelReconnect();
+    // Closing normally tells the reconnect logic to stand down
+    wsRef.current?.close(1000, 'Logged out');
+    wsRef.current = null;
+  };
+  
+  // The party stays behind in the room, idle, like after a disconnect
+  const leaveRoom = () => {
+    localStorage.removeItem(RESUME_TOKEN_KEY);
+    localStorage.removeItem(ROOM_KEY);
+    cancelReconnect();
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      sendLobby(wsRef.current);
+    } else {
+      // Dropped while in the room: the menu opens a fresh connection of its own
+      wsRef.current?.close(1000, 'Left the room');
+      wsRef.current = null;
+    }
+    setBattle(null);
+    setBattleResult(null);
+    setReplay(null);
+    setShowPanel('none');
+    setSelectedTerritoryId(null);
+    setGameState(s => ({ ...s, playerId: null, room: null, player: null, players: [], messages: [] }));
+    setScreen('menu');
+  };
   
   const connect = useCallback(() => {
     // Use same origin with /ws path (proxied by Vite)
     const wsProtocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
     const wsUrl = `${wsProtocol}//${window.location.host}/ws`;
     console.log('Connecting to:', wsUrl);
-    setConnectionError(null);
+    reconnectTimerRef.current = null;
+    
+    const scheduleReconnect = () => {
+      const attempt = reconnectAttemptRef.current++;
+      // Exponential backoff with jitter so a server restart isn't hit by every phone at once
+      const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt) * (0.5 + Math.random() * 0.5);
+      setReconnecting(true);
+      setConnectionError(`Reconnecting in ${Math.ceil(delay / 1000)}s...`);
+      reconnectTimerRef.current = setTimeout(connect, delay);
+    };
     
     try {
       const ws = new WebSocket(wsUrl);
@@ -89,110 +308,346 @@ export default function App() {
       ws.onopen = () => {
         console.log('Connected to server');
         setGameState(s => ({ ...s, connected: true }));
-        ws.send(JSON.stringify({ type: 'join', name: playerName || 'Warrior' }));
+        const token = localStorage.getItem(RESUME_TOKEN_KEY);
+        if (token) {
+          const resume: ClientMessage = { type: 'resume', protocolVersion: PROTOCOL_VERSION, token };
+          ws.send(JSON.stringify(resume));
+        } else {
+          rejoin(ws);
+        }
       };
 
       ws.onmessage = (event) => {
-        const msg = JSON.parse(event.data);
+        const msg: ServerMessage = JSON.parse(event.data);
         handleServerMessage(msg);
       };
 
       ws.onclose = (e) => {
         console.log('Disconnected:', e.code, e.reason);
         setGameState(s => ({ ...s, connected: false }));
-        setConnectionError(`Disconnected (${e.code})`);
+        if (e.code === 4000) {
+          // Another tab or device took over this party; fighting over it would loop forever
+          setReconnecting(false);
+          setConnectionError('Signed in from another device');
+        } else if (e.code === 4001) {
+          // Server no longer speaks our protocol version; retrying won't help until we reload
+          setReconnecting(false);
+          setConnectionError('Game updated - please reload');
+        } else if (e.code === 4003) {
+          // Temporarily banned; reconnecting would only be turned away again
+          setReconnecting(false);
+          setConnectionError('Temporarily banned');
+        } else if (e.code === 4004 || e.code === 1000) {
+          // Login rejected (the error handler has already sent us back to the menu) or we logged out
+          setReconnecting(false);
+          if (wsRef.current === ws) wsRef.current = null;
+        } else {
+          scheduleReconnect();
+        }
       };
       
       ws.onerror = (e) => {
         console.error('WebSocket error:', e);
-        setConnectionError('Connection failed - server may be offline');
       };
     } catch (err) {
       console.error('Failed to create WebSocket:', err);
-      setConnectionError('Failed to connect');
+      scheduleReconnect();
     }
-  }, [playerName]);
+  }, []);
 
   // Handle server messages
-  const handleServerMessage = (msg: any) => {
+  const handleServerMessage = (msg: ServerMessage) => {
     switch (msg.type) {
       case 'init':
+        localStorage.setItem(RESUME_TOKEN_KEY, msg.resumeToken);
+        localStorage.setItem(ROOM_KEY, msg.room.id);
+        setScreen('game');
+        reconnectAttemptRef.current = 0;
+        setReconnecting(false);
+        setConnectionError(null);
         setGameState(s => ({
           ...s,
           playerId: msg.playerId,
+          room: msg.room,
           player: msg.player,
           players: msg.players,
           territories: msg.territories,
+          map: msg.map,
+          relations: msg.relations,
+          proposals: msg.proposals,
+          messages: msg.chat,
+          party: msg.party,
+          partyInvites: [],
+          quests: msg.quests,
+          questOffers: msg.questOffers,
         }));
         setCamera({ x: msg.player.position.x, y: msg.player.position.y, zoom: 1 });
         break;
 
-      case 'player_joined':
+      case 'resume_failed':
+        // Session expired or the server restarted: start over with a regular join
+        localStorage.removeItem(RESUME_TOKEN_KEY);
+        if (wsRef.current) rejoin(wsRef.current);
+        break;
+
+      case 'rooms':
+        setRooms(msg.rooms);
+        break;
+
+      case 'room_created':
+        // Whoever opens a room plays in it straight away
+        if (wsRef.current) sendJoin(wsRef.current, msg.room.id);
+        break;
+
+      case 'player_left':
+        // Disconnected parties stay on the map, idle
         setGameState(s => ({
           ...s,
-          players: [...s.players.filter(p => p.id !== msg.player.id), msg.player],
+          players: s.players.map(p => p.id === msg.playerId ? { ...p, online: false } : p),
         }));
         break;
 
-      case 'player_left':
+      case 'player_moved':
+        // Arrived (or was placed) here; any march is over
         setGameState(s => ({
           ...s,
-          players: s.players.filter(p => p.id !== msg.playerId),
+          players: s.players.map(p =>
+            p.id === msg.playerId ? { ...p, position: msg.position, march: undefined } : p
+          ),
+          player: s.playerId === msg.playerId
+            ? { ...s.player!, position: msg.position, march: undefined }
+            : s.player,
         }));
         break;
 
-      case 'player_moved':
+      case 'player_march': {
+        const march = msg.march ?? undefined;
+        marchClockRef.current.set(msg.playerId, performance.now());
         setGameState(s => ({
           ...s,
           players: s.players.map(p =>
-            p.id === msg.playerId ? { ...p, position: msg.position } : p
+            p.id === msg.playerId ? { ...p, position: msg.position, march } : p
           ),
-          player: s.playerId === msg.playerId ? { ...s.player!, position: msg.position } : s.player,
+          player: s.playerId === msg.playerId
+            ? { ...s.player!, position: msg.position, march }
+            : s.player,
         }));
         break;
+      }
 
-      case 'tick':
-        setGameState(s => ({ ...s, players: msg.players }));
+      case 'players_delta': {
+        // Positions in the delta are current as of now, so marches restart their clocks here
+        [...msg.added, ...msg.changed].forEach(p => {
+          if (p.march || p.position) marchClockRef.current.set(p.id, performance.now());
+        });
+        const changes = new Map(msg.changed.map(c => [c.id, c]));
+        const removed = new Set(msg.removed);
+        setGameState(s => {
+          const own = s.playerId ? changes.get(s.playerId) : undefined;
+          return {
+            ...s,
+            players: [
+              ...s.players
+                .filter(p => !removed.has(p.id) && !msg.added.some(a => a.id === p.id))
+                .map(p => (changes.has(p.id) ? applyPlayerChange(p, changes.get(p.id)!) : p)),
+              ...msg.added,
+            ],
+            player: own && s.player ? applyPlayerChange(s.player, own) : s.player,
+          };
+        });
         break;
+      }
 
       case 'recruited':
+      case 'upgraded':
+      case 'traded':
+      case 'built':
+      case 'garrisoned':
+      case 'hero_updated':
+        setGameState(s => ({ ...s, player: msg.player }));
+        break;
+
+      case 'defected':
+        setGameState(s => ({ ...s, player: msg.player, proposals: msg.proposals }));
+        setNotice(`🏳️ You now fight for ${msg.player.faction}`);
+        break;
+
+      case 'player_defected':
+        setNotice(`🏳️ ${msg.name} left ${msg.from} for ${msg.to}`);
+        break;
+
+      case 'party_invite':
+        setGameState(s => ({
+          ...s,
+          partyInvites: [...s.partyInvites.filter(i => i.leaderId !== msg.leaderId), { leaderId: msg.leaderId, name: msg.name }],
+        }));
+        break;
+
+      case 'party_declined':
+        setNotice(`🛡️ ${msg.name} declined to join your party`);
+        break;
+
+      case 'party_updated':
+        setGameState(s => ({ ...s, party: msg.party }));
+        break;
+
+      case 'quests_updated':
+        setGameState(s => ({ ...s, quests: msg.quests, player: msg.player }));
+        break;
+
+      case 'quest_offers':
+        setGameState(s => ({ ...s, questOffers: msg.offers }));
+        break;
+
+      case 'transferred': {
+        const given = [
+          msg.gold > 0 ? `${msg.gold} gold` : null,
+          ...msg.units.map(u => `${u.count} ${getRankName(u)}`),
+        ].filter(Boolean).join(', ');
         setGameState(s => ({ ...s, player: msg.player }));
+        setNotice(`🤝 ${msg.from} gave ${msg.to} ${given}`);
         break;
+      }
 
       case 'gold_update':
         setGameState(s => s.player ? { ...s, player: { ...s.player, gold: msg.gold } } : s);
+        if (msg.deserted) setNotice(`💸 ${msg.deserted} unpaid troops deserted`);
         break;
 
-      case 'chat':
+      case 'chat': {
+        const { type, ...entry } = msg;
+        setGameState(s => ({ ...s, messages: [...s.messages.slice(-(CHAT_LOG_LIMIT - 1)), entry] }));
+        break;
+      }
+
+      case 'chat_notice':
         setGameState(s => ({
           ...s,
-          messages: [...s.messages.slice(-50), {
-            id: `${Date.now()}`,
-            name: msg.name,
-            faction: msg.faction,
+          messages: [...s.messages.slice(-(CHAT_LOG_LIMIT - 1)), {
+            id: `notice-${Date.now()}`,
+            channel: 'notice',
             text: msg.text,
             time: Date.now(),
           }],
         }));
         break;
 
+      case 'territory_captured':
+        setGameState(s => ({
+          ...s,
+          territories: s.territories.map(t =>
+            t.id === msg.territoryId ? { ...t, owner: msg.owner } : t
+          ),
+        }));
+        setNotice(`🏰 ${msg.by} captured ${msg.territoryName} for ${msg.owner}`);
+        break;
+
+      case 'territory_updated':
+        setGameState(s => ({
+          ...s,
+          territories: s.territories.map(t => t.id === msg.territory.id ? msg.territory : t),
+        }));
+        break;
+
+      case 'territories':
+        setGameState(s => ({ ...s, territories: msg.territories }));
+        break;
+
+      case 'diplomacy_changed': {
+        const [a, b] = msg.relation.factions;
+        setGameState(s => ({
+          ...s,
+          relations: s.relations.map(r => r.factions.includes(a) && r.factions.includes(b) ? msg.relation : r),
+          // A new stance settles every open proposal between the pair
+          proposals: s.proposals.filter(p => !(p.faction === a && p.target === b) && !(p.faction === b && p.target === a)),
+        }));
+        setNotice(`📜 ${a} and ${b}: ${msg.previous} → ${msg.relation.stance}`);
+        break;
+      }
+
+      case 'diplomacy_proposal': {
+        const { proposal } = msg;
+        const same = (p: typeof proposal) =>
+          p.faction === proposal.faction && p.target === proposal.target && p.stance === proposal.stance;
+        setGameState(s => ({
+          ...s,
+          proposals: proposal.status === 'expired'
+            ? s.proposals.filter(p => !same(p))
+            : [...s.proposals.filter(p => !same(p)), proposal],
+        }));
+        break;
+      }
+
+      case 'error':
+        if (msg.code === 'unauthorized') {
+          logOut(msg.message);
+          setScreen('menu');
+        } else {
+          setNotice(`⚠️ ${msg.message}`);
+        }
+        break;
+
+      case 'battle_update':
+        setBattle({ ...msg.battle, role: msg.role });
+        if (msg.battle.phase !== 'ended') setBattleResult(null);
+        break;
+
       case 'battle_result':
-        alert(`Battle ${msg.role === 'attacker' ? 'attacked' : 'defended'}!\n` +
-          `Winner: ${msg.winner}\n` +
-          `Your power: ${msg.role === 'attacker' ? msg.attackPower : msg.defensePower}\n` +
-          `Loot: ${msg.loot} gold`);
+        setBattleResult(msg);
+        if (msg.replayed) {
+          // Fought while we were disconnected, so there is no battle screen to show it on
+          setNotice(`⚔️ While you were away: ${msg.winner} beat ${msg.loser}`);
+        }
+        break;
+
+      case 'battle_history': {
+        const paging = pagingReportsRef.current;
+        pagingReportsRef.current = false;
+        setReports(r => ({ list: paging ? [...r.list, ...msg.reports] : msg.reports, more: msg.more }));
+        break;
+      }
+
+      case 'battle_replay':
+        setReplay(msg.report);
         break;
     }
   };
 
   // Send message to server
-  const send = (data: any) => {
+  const send = (data: ClientMessage) => {
     if (wsRef.current?.readyState === WebSocket.OPEN) {
       wsRef.current.send(JSON.stringify(data));
     }
   };
 
-  // Handle canvas touch/click for movement
+  const answerInvite = (leaderId: string, accept: boolean) => {
+    send({ type: 'party_answer', leaderId, accept });
+    setGameState(s => ({ ...s, partyInvites: s.partyInvites.filter(i => i.leaderId !== leaderId) }));
+  };
+
+  const loadReports = (options: { mine?: boolean; before?: string } = {}) => {
+    pagingReportsRef.current = !!options.before;
+    send({ type: 'battle_history', ...options });
+  };
+
+  // Logged in on the menu: open the connection so the lobby can list rooms
+  useEffect(() => {
+    if (screen === 'menu' && username && !wsRef.current) connect();
+  }, [screen, username, connect]);
+
+  // Nor should a pending reconnect outlive the app
+  useEffect(() => () => {
+    if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+  }, []);
+
+  // Clear notices after a few seconds
+  useEffect(() => {
+    if (!notice) return;
+    const timeout = setTimeout(() => setNotice(null), 4000);
+    return () => clearTimeout(timeout);
+  }, [notice]);
+
+  // Handle canvas touch/click: tapping a settlement selects it, anywhere else marches there
   const handleCanvasInteraction = (clientX: number, clientY: number) => {
     if (!canvasRef.current || !gameState.player) return;
 
@@ -201,12 +656,29 @@ export default function App() {
     const canvasY = clientY - rect.top;
 
     // Convert to world coordinates
-    const worldX = camera.x + (canvasX - rect.width / 2) / (5 * camera.zoom);
-    const worldY = camera.y + (canvasY - rect.height / 2) / (5 * camera.zoom);
+    const center = viewCenterRef.current;
+    const scale = 5 * camera.zoom;
+    const worldX = center.x + (canvasX - rect.width / 2) / scale;
+    const worldY = center.y + (canvasY - rect.height / 2) / scale;
+
+    // Hit-test in screen pixels so markers stay easy to tap at any zoom
+    const tapped = gameState.territories
+      .map(t => ({ t, d: Math.hypot(t.position.x - worldX, t.position.y - worldY) * scale }))
+      .filter(({ t, d }) => d <= territoryMarkerSize(t))
+      .sort((a, b) => a.d - b.d)[0]?.t;
+
+    if (tapped) {
+      setSelectedTerritoryId(tapped.id);
+      setShowPanel('territory');
+      return;
+    }
 
     send({ type: 'move', x: worldX, y: worldY });
   };
 
+  // The terrain never changes during a session, so only repaint it when a new map arrives
+  const terrainCanvas = useMemo(() => (gameState.map ? renderTerrain(gameState.map) : null), [gameState.map]);
+
   // Draw game
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -218,44 +690,58 @@ export default function App() {
     canvas.height = rect.height * window.devicePixelRatio;
     ctx.scale(window.devicePixelRatio, window.devicePixelRatio);
 
+    // Where a party appears right now, walking its march forward from the last server position
+    const displayPosition = (p: PublicPlayer): Position => {
+      if (!p.march) return p.position;
+      const startedAt = marchClockRef.current.get(p.id) ?? performance.now();
+      return interpolateMarch(p.position, p.march, performance.now() - startedAt, gameState.map);
+    };
+
     const draw = () => {
       const w = rect.width;
       const h = rect.height;
       const scale = 5 * camera.zoom;
 
+      // Keep our own party centred as it marches
+      const ownPosition = gameState.player ? displayPosition(gameState.player) : null;
+      const center = ownPosition ?? camera;
+      viewCenterRef.current = center;
+
       // Clear
       ctx.fillStyle = '#0f172a';
       ctx.fillRect(0, 0, w, h);
 
-      // Draw grid
-      ctx.strokeStyle = '#1e293b';
-      ctx.lineWidth = 1;
-      for (let x = 0; x <= 100; x += 10) {
-        const screenX = (x - camera.x) * scale + w / 2;
-        ctx.beginPath();
-        ctx.moveTo(screenX, 0);
-        ctx.lineTo(screenX, h);
-        ctx.stroke();
-      }
-      for (let y = 0; y <= 100; y += 10) {
-        const screenY = (y - camera.y) * scale + h / 2;
-        ctx.beginPath();
-        ctx.moveTo(0, screenY);
-        ctx.lineTo(w, screenY);
-        ctx.stroke();
+      // Draw terrain
+      if (terrainCanvas && gameState.map) {
+        const { width, height, tileSize } = gameState.map;
+        ctx.imageSmoothingEnabled = false;
+        ctx.drawImage(
+          terrainCanvas,
+          -center.x * scale + w / 2,
+          -center.y * scale + h / 2,
+          width * tileSize * scale,
+          height * tileSize * scale,
+        );
       }
 
       // Draw territories
       gameState.territories.forEach(t => {
-        const screenX = (t.position.x - camera.x) * scale + w / 2;
-        const screenY = (t.position.y - camera.y) * scale + h / 2;
+        const screenX = (t.position.x - center.x) * scale + w / 2;
+        const screenY = (t.position.y - center.y) * scale + h / 2;
+
+        const size = territoryMarkerSize(t);
 
-        const size = t.type === 'city' ? 20 : t.type === 'castle' ? 15 : 10;
+        // Ring around the settlement whose panel is open
+        if (showPanel === 'territory' && t.id === selectedTerritoryId) {
+          ctx.strokeStyle = '#fbbf24';
+          ctx.lineWidth = 2;
+          ctx.beginPath();
+          ctx.arc(screenX, screenY, size + 4, 0, Math.PI * 2);
+          ctx.stroke();
+        }
 
         // Territory marker
-        ctx.fillStyle = t.owner
-          ? gameState.players.find(p => p.faction === t.owner)?.color || '#475569'
-          : '#475569';
+        ctx.fillStyle = t.owner ? FACTION_COLORS[t.owner] || '#475569' : '#475569';
         
         if (t.type === 'city') {
           // Star shape for cities
@@ -286,12 +772,85 @@ export default function App() {
         ctx.fillText(t.name, screenX, screenY + size + 12);
       });
 
-      // Draw other players
+      // Fog of war: darken everything outside our party's and our settlements' vision
+      if (gameState.player && ownPosition) {
+        const fog = fogCanvasRef.current ?? (fogCanvasRef.current = document.createElement('canvas'));
+        fog.width = w;
+        fog.height = h;
+        const fogCtx = fog.getContext('2d')!;
+        fogCtx.fillStyle = FOG_COLOR;
+        fogCtx.fillRect(0, 0, w, h);
+        fogCtx.globalCompositeOperation = 'destination-out';
+
+        const sources = [
+          { position: ownPosition, range: SCOUT_RANGE },
+          ...gameState.territories
+            .filter(t => t.owner === gameState.player!.faction)
+            .map(t => ({ position: t.position, range: getSettlementVision(t) })),
+        ];
+        sources.forEach(({ position, range }) => {
+          const x = (position.x - center.x) * scale + w / 2;
+          const y = (position.y - center.y) * scale + h / 2;
+          const radius = range * scale;
+          // Soft edge so vision fades out rather than ending on a hard line
+          const gradient = fogCtx.createRadialGradient(x, y, radius * 0.8, x, y, radius);
+          gradient.addColorStop(0, 'rgba(0, 0, 0, 1)');
+          gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+          fogCtx.fillStyle = gradient;
+          fogCtx.beginPath();
+          fogCtx.arc(x, y, radius, 0, Math.PI * 2);
+          fogCtx.fill();
+        });
+
+        ctx.drawImage(fog, 0, 0, w, h);
+      }
+
+      // Quest markers above the fog: where our jobs take us, the ground bandit hunts cover, and a
+      // scroll over every settlement with work for us
+      const toScreen = (position: { x: number; y: number }) => ({
+        x: (position.x - center.x) * scale + w / 2,
+        y: (position.y - center.y) * scale + h / 2,
+      });
+      ctx.font = '14px system-ui';
+      ctx.textAlign = 'center';
+      gameState.quests.forEach(q => {
+        const target = gameState.territories.find(t => t.id === q.targetId);
+        if (!target) return;
+        const { x, y } = toScreen(target.position);
+        if (q.type === 'bandits') {
+          ctx.strokeStyle = '#f59e0b';
+          ctx.lineWidth = 1.5;
+          ctx.setLineDash([4, 6]);
+          ctx.beginPath();
+          ctx.arc(x, y, QUEST_BANDIT_RANGE * scale, 0, Math.PI * 2);
+          ctx.stroke();
+          ctx.setLineDash([]);
+        }
+        ctx.fillText('🎯', x, y - territoryMarkerSize(target) - 6);
+      });
+      if (gameState.player) {
+        const { faction } = gameState.player;
+        new Set(gameState.questOffers
+          .filter(q => !isAtWar(gameState.relations, faction, q.faction))
+          .map(q => q.giverId))
+          .forEach(id => {
+            const giver = gameState.territories.find(t => t.id === id);
+            if (!giver) return;
+            const { x, y } = toScreen(giver.position);
+            ctx.fillText('📜', x + territoryMarkerSize(giver) + 8, y + 5);
+          });
+      }
+
+      // Draw other players; the server only sends the ones we can see
       gameState.players.forEach(p => {
         if (p.id === gameState.playerId) return;
 
-        const screenX = (p.position.x - camera.x) * scale + w / 2;
-        const screenY = (p.position.y - camera.y) * scale + h / 2;
+        const position = displayPosition(p);
+        const screenX = (position.x - center.x) * scale + w / 2;
+        const screenY = (position.y - center.y) * scale + h / 2;
+
+        // Idle parties of disconnected players are faded out
+        ctx.globalAlpha = p.online ? 1 : 0.4;
 
         // Player marker
         ctx.fillStyle = p.color;
@@ -303,20 +862,37 @@ export default function App() {
         ctx.fillStyle = '#f8fafc';
         ctx.font = 'bold 11px system-ui';
         ctx.textAlign = 'center';
-        ctx.fillText(p.name, screenX, screenY - 18);
+        const label = p.npc ? `${NPC_ICONS[p.npc]} ${p.name}` : p.name;
+        ctx.fillText(p.online ? label : `💤 ${label}`, screenX, screenY - 18);
         
-        // Army size
+        // Army size; parties seen from afar only come with a scout's estimate
         const armySize = p.army.reduce((sum, u) => sum + u.count, 0);
         ctx.fillStyle = '#94a3b8';
         ctx.font = '10px system-ui';
-        ctx.fillText(`⚔️ ${armySize}`, screenX, screenY + 22);
+        ctx.fillText(p.armyEstimate !== undefined ? `⚔️ ~${p.armyEstimate}` : `⚔️ ${armySize}`, screenX, screenY + 22);
+
+        ctx.globalAlpha = 1;
       });
 
       // Draw current player
-      if (gameState.player) {
+      if (gameState.player && ownPosition) {
         const p = gameState.player;
-        const screenX = (p.position.x - camera.x) * scale + w / 2;
-        const screenY = (p.position.y - camera.y) * scale + h / 2;
+        const screenX = (ownPosition.x - center.x) * scale + w / 2;
+        const screenY = (ownPosition.y - center.y) * scale + h / 2;
+
+        // Remaining march route
+        if (p.march) {
+          ctx.strokeStyle = p.color;
+          ctx.lineWidth = 2;
+          ctx.setLineDash([6, 6]);
+          ctx.beginPath();
+          ctx.moveTo(screenX, screenY);
+          p.march.path.forEach(waypoint => {
+            ctx.lineTo((waypoint.x - center.x) * scale + w / 2, (waypoint.y - center.y) * scale + h / 2);
+          });
+          ctx.stroke();
+          ctx.setLineDash([]);
+        }
 
         // Glow
         const gradient = ctx.createRadialGradient(screenX, screenY, 0, screenX, screenY, 25);
@@ -347,18 +923,7 @@ export default function App() {
     draw();
     const interval = setInterval(draw, 50);
     return () => clearInterval(interval);
-  }, [gameState, camera]);
-
-  // Follow player with camera
-  useEffect(() => {
-    if (gameState.player) {
-      setCamera(c => ({
-        ...c,
-        x: gameState.player!.position.x,
-        y: gameState.player!.position.y,
-      }));
-    }
-  }, [gameState.player?.position]);
+  }, [gameState, camera, terrainCanvas, showPanel, selectedTerritoryId]);
 
   // ============================================
   // MENU SCREEN
@@ -366,7 +931,7 @@ export default function App() {
 
   if (screen === 'menu') {
     return (
-      <div className="h-full flex flex-col items-center justify-center p-6 bg-gradient-to-b from-slate-900 to-slate-950">
+      <div className="h-full overflow-y-auto flex flex-col items-center justify-center p-6 bg-gradient-to-b from-slate-900 to-slate-950">
         <div className="text-center mb-12">
           <h1 className="text-5xl font-bold text-white mb-2 float">⚔️</h1>
           <h2 className="text-3xl font-bold bg-gradient-to-r from-indigo-400 to-purple-400 bg-clip-text text-transparent">
@@ -375,26 +940,20 @@ export default function App() {
           <p className="text-slate-400 mt-2">Multiplayer Medieval Warfare</p>
         </div>
 
-        <div className="w-full max-w-sm space-y-4">
-          <input
-            type="text"
-            placeholder="Enter your name..."
-            value={playerName}
-            onChange={(e) => setPlayerName(e.target.value)}
-            className="w-full px-4 py-4 bg-slate-800 border border-slate-700 rounded-2xl text-white placeholder-slate-500 text-center text-lg focus:outline-none focus:border-indigo-500"
-            maxLength={20}
+        {username ? (
+          <RoomBrowser
+            username={username}
+            rooms={rooms}
+            connected={gameState.connected}
+            notice={notice}
+            factionColors={FACTION_COLORS}
+            onJoin={(roomId, faction) => wsRef.current && sendJoin(wsRef.current, roomId, faction)}
+            onCreate={(name, isPrivate) => send({ type: 'create_room', name, isPrivate })}
+            onLogOut={() => logOut()}
           />
-
-          <button
-            onClick={() => {
-              connect();
-              setScreen('game');
-            }}
-            className="w-full py-4 bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-bold text-lg rounded-2xl shadow-lg shadow-indigo-500/30 active:scale-95 transition-transform"
-          >
-            ⚔️ Enter Battle
-          </button>
-        </div>
+        ) : (
+          <LoginForm notice={loginNotice} onAuthenticated={logIn} />
+        )}
 
         <div className="mt-12 text-center text-slate-500 text-sm">
           <p>Move by tapping the map</p>
@@ -410,6 +969,53 @@ export default function App() {
 
   const player = gameState.player;
   const armySize = player?.army.reduce((sum, u) => sum + u.count, 0) || 0;
+  const onlinePlayers = gameState.players.filter(p => p.online && !p.npc);
+
+  // Nearest party we are at war with, within striking distance
+  const attackTarget = player
+    ? gameState.players
+        .filter(p => p.id !== player.id && isAtWar(gameState.relations, player.faction, p.faction))
+        .map(p => ({ p, d: Math.hypot(p.position.x - player.position.x, p.position.y - player.position.y) }))
+        .filter(({ d }) => d <= ATTACK_RANGE)
+        .sort((a, b) => a.d - b.d)[0]?.p
+    : undefined;
+
+  // Nearest enemy or neutral settlement within striking distance
+  const siegeTarget = player
+    ? gameState.territories
+        .filter(t => !t.owner || isAtWar(gameState.relations, player.faction, t.owner))
+        .map(t => ({ t, d: Math.hypot(t.position.x - player.position.x, t.position.y - player.position.y) }))
+        .filter(({ d }) => d <= ATTACK_RANGE)
+        .sort((a, b) => a.d - b.d)[0]?.t
+    : undefined;
+
+  // Nearest settlement whose market will deal with us
+  const nearbyTown = player
+    ? gameState.territories
+        .filter(t => !t.owner || !isAtWar(gameState.relations, player.faction, t.owner))
+        .map(t => ({ t, d: Math.hypot(t.position.x - player.position.x, t.position.y - player.position.y) }))
+        .filter(({ d }) => d <= SETTLEMENT_RANGE)
+        .sort((a, b) => a.d - b.d)[0]?.t
+    : undefined;
+
+  // Gear and companions are found only in cities, which may stand beside a nearer village or castle
+  const atCity = !!player && gameState.territories.some(t =>
+    t.type === 'city'
+    && (!t.owner || !isAtWar(gameState.relations, player.faction, t.owner))
+    && Math.hypot(t.position.x - player.position.x, t.position.y - player.position.y) <= SETTLEMENT_RANGE
+  );
+
+  // Jobs posted by the settlements we stand at, unless their owners are at war with us
+  const localOffers = player
+    ? gameState.questOffers.filter(q => {
+        const giver = gameState.territories.find(t => t.id === q.giverId);
+        return !!giver
+          && !isAtWar(gameState.relations, player.faction, q.faction)
+          && Math.hypot(giver.position.x - player.position.x, giver.position.y - player.position.y) <= SETTLEMENT_RANGE;
+      })
+    : [];
+
+  const selectedTerritory = gameState.territories.find(t => t.id === selectedTerritoryId);
 
   return (
     <div className="h-full flex flex-col">
@@ -424,10 +1030,11 @@ export default function App() {
           </div>
           <div>
             <p className="font-bold text-white">
-              {connectionError ? '❌ Error' : player?.name || 'Connecting...'}
+              {connectionError ? (reconnecting ? '🔄 Reconnecting' : '❌ Error') : player?.name || 'Connecting...'}
             </p>
             <p className="text-xs text-slate-400">
-              {connectionError || player?.faction || 'Please wait...'}
+              {connectionError || (player ? `${player.faction} • ${gameState.room?.name}` : 'Please wait...')}
+              {!connectionError && gameState.room?.isPrivate && ` (code ${gameState.room.id})`}
             </p>
           </div>
         </div>
@@ -436,6 +1043,9 @@ export default function App() {
             <p className="text-yellow-400 font-bold">💰 {player?.gold || 0}</p>
             <p className="text-xs text-slate-400">⚔️ {armySize} troops</p>
           </div>
+          <button onClick={leaveRoom} className="text-slate-400 text-xl" title="Back to lobby">
+            🚪
+          </button>
         </div>
       </div>
 
@@ -450,8 +1060,58 @@ export default function App() {
         }}
       />
 
+      {/* Notices */}
+      {notice && (
+        <div className="absolute top-20 left-2 right-32 glass p-3 rounded-xl text-sm text-slate-200">
+          {notice}
+        </div>
+      )}
+
       {/* Bottom Controls */}
       <div className="glass p-3 m-2 rounded-2xl">
+        {gameState.partyInvites.map(invite => (
+          <div key={invite.leaderId} className="flex items-center gap-2 mb-2 p-2 bg-slate-800 rounded-xl text-sm">
+            <span className="flex-1 text-slate-200">🛡️ {invite.name} invites you to their party</span>
+            <button
+              onClick={() => answerInvite(invite.leaderId, true)}
+              className="px-3 py-1 bg-emerald-600 rounded-lg text-xs text-white"
+            >
+              Join
+            </button>
+            <button
+              onClick={() => answerInvite(invite.leaderId, false)}
+              className="px-3 py-1 bg-slate-700 rounded-lg text-xs text-slate-300"
+            >
+              Decline
+            </button>
+          </div>
+        ))}
+        {attackTarget && (
+          <button
+            onClick={() => send({ type: 'attack', targetId: attackTarget.id })}
+            className="w-full mb-2 py-3 rounded-xl font-bold bg-red-600 text-white active:scale-95 transition-transform"
+          >
+            ⚔️ Attack {attackTarget.name}
+          </button>
+        )}
+        {siegeTarget && (
+          <button
+            onClick={() => send({ type: 'attack', territoryId: siegeTarget.id })}
+            className="w-full mb-2 py-3 rounded-xl font-bold bg-red-600 text-white active:scale-95 transition-transform"
+          >
+            🏰 Besiege {siegeTarget.name} ({siegeTarget.garrisonEstimate !== undefined
+              ? `~${siegeTarget.garrisonEstimate}`
+              : siegeTarget.garrison.reduce((sum, u) => sum + u.count, 0)} defenders)
+          </button>
+        )}
+        {nearbyTown && (
+          <button
+            onClick={() => setShowPanel(showPanel === 'town' ? 'none' : 'town')}
+            className="w-full mb-2 py-3 rounded-xl font-bold bg-emerald-700 text-white active:scale-95 transition-transform"
+          >
+            🏘️ Visit {nearbyTown.name}
+          </button>
+        )}
         <div className="flex gap-2">
           <button
             onClick={() => setShowPanel(showPanel === 'army' ? 'none' : 'army')}
@@ -461,6 +1121,41 @@ export default function App() {
           >
             🛡️ Army
           </button>
+          <button
+            onClick={() => setShowPanel(showPanel === 'hero' ? 'none' : 'hero')}
+            className={`flex-1 py-3 rounded-xl font-medium transition-colors ${
+              showPanel === 'hero' ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-slate-300'
+            }`}
+          >
+            🎖️ Hero
+          </button>
+          <button
+            onClick={() => setShowPanel(showPanel === 'quests' ? 'none' : 'quests')}
+            className={`flex-1 py-3 rounded-xl font-medium transition-colors ${
+              showPanel === 'quests' ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-slate-300'
+            }`}
+          >
+            🗺️ Quests
+          </button>
+          <button
+            onClick={() => setShowPanel(showPanel === 'diplomacy' ? 'none' : 'diplomacy')}
+            className={`flex-1 py-3 rounded-xl font-medium transition-colors ${
+              showPanel === 'diplomacy' ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-slate-300'
+            }`}
+          >
+            📜 Diplomacy
+          </button>
+          <button
+            onClick={() => {
+              if (showPanel !== 'reports') loadReports();
+              setShowPanel(showPanel === 'reports' ? 'none' : 'reports');
+            }}
+            className={`flex-1 py-3 rounded-xl font-medium transition-colors ${
+              showPanel === 'reports' ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-slate-300'
+            }`}
+          >
+            📖 Reports
+          </button>
           <button
             onClick={() => setShowPanel(showPanel === 'chat' ? 'none' : 'chat')}
             className={`flex-1 py-3 rounded-xl font-medium transition-colors ${
@@ -486,74 +1181,195 @@ export default function App() {
         {/* Army Panel */}
         {showPanel === 'army' && player && (
           <div className="mt-3 p-4 bg-slate-800 rounded-xl space-y-3">
-            <h3 className="font-bold text-white">Your Army</h3>
-            {player.army.map((unit) => (
-              <div key={unit.type} className="flex items-center justify-between">
-                <span className="text-slate-300 capitalize">
-                  {unit.type === 'infantry' ? '🗡️' : unit.type === 'archer' ? '🏹' : '🐴'} {unit.type}
-                </span>
-                <span className="text-white font-bold">{unit.count}</span>
-              </div>
-            ))}
-            <hr className="border-slate-700" />
-            <div className="flex gap-2">
-              <button
-                onClick={() => send({ type: 'recruit', unitType: 'infantry', count: 10 })}
-                className="flex-1 py-2 bg-slate-700 rounded-lg text-sm text-slate-300"
-              >
-                +10 🗡️ (500g)
-              </button>
-              <button
-                onClick={() => send({ type: 'recruit', unitType: 'archer', count: 5 })}
-                className="flex-1 py-2 bg-slate-700 rounded-lg text-sm text-slate-300"
-              >
-                +5 🏹 (375g)
-              </button>
-              <button
-                onClick={() => send({ type: 'recruit', unitType: 'cavalry', count: 3 })}
-                className="flex-1 py-2 bg-slate-700 rounded-lg text-sm text-slate-300"
-              >
-                +3 🐴 (450g)
-              </button>
+            <div className="flex items-center justify-between">
+              <h3 className="font-bold text-white">Your Army</h3>
+              <span className="text-xs text-slate-400">
+                {player.army.reduce((sum, u) => sum + u.count, 0)}/{getArmyLimit(player.hero)} soldiers
+              </span>
             </div>
+            {player.army.map((unit) => {
+              const ready = getPromotableCount(unit);
+              const upgradeCost = ready > 0 ? UPGRADE_COST[unit.type][unit.level - 1] * ready : 0;
+              return (
+                <div key={`${unit.type}-${unit.level}`} className="flex items-center justify-between gap-2">
+                  <span className="text-slate-300">
+                    {unit.type === 'infantry' ? '🗡️' : unit.type === 'archer' ? '🏹' : '🐴'} {getRankName(unit)}
+                    <span className="ml-1 text-xs text-slate-500">
+                      {unit.level < MAX_UNIT_LEVEL
+                        ? `Lv${unit.level} • ${unit.xp ?? 0}/${unit.count * PROMOTION_XP[unit.level - 1]} xp`
+                        : `Lv${unit.level}`}
+                    </span>
+                  </span>
+                  <span className="flex items-center gap-2">
+                    {ready > 0 && (
+                      <button
+                        onClick={() => send({ type: 'upgrade', unitType: unit.type, level: unit.level, count: ready })}
+                        disabled={player.gold < upgradeCost}
+                        className="px-2 py-1 bg-amber-600 rounded-lg text-xs text-white disabled:opacity-40"
+                      >
+                        ⬆️ {ready} ({upgradeCost}g)
+                      </button>
+                    )}
+                    <span className="text-white font-bold">{unit.count}</span>
+                  </span>
+                </div>
+              );
+            })}
+            {Object.entries(player.cargo ?? {}).length > 0 && (
+              <p className="text-xs text-slate-400">
+                📦 {Object.entries(player.cargo ?? {}).map(([good, count]) => `${count} ${good}`).join(', ')}
+              </p>
+            )}
+            <p className="text-xs text-slate-500">
+              Wages: {getWages(player.army)}g per payday • recruit at friendly settlements
+            </p>
           </div>
         )}
+        {showPanel === 'army' && player && (
+          <PartyPanel
+            player={player}
+            party={gameState.party}
+            players={gameState.players}
+            onInvite={(targetId) => send({ type: 'party_invite', targetId })}
+            onLeave={() => send({ type: 'party_leave' })}
+            onGiveGold={(targetId, gold) => send({ type: 'transfer', targetId, gold })}
+            onGiveUnits={(targetId, unit, count) => send({
+              type: 'transfer',
+              targetId,
+              unitType: unit.type,
+              level: unit.level,
+              count,
+            })}
+          />
+        )}
+
+        {/* Hero Panel */}
+        {showPanel === 'hero' && player?.hero && (
+          <HeroPanel
+            player={player}
+            hero={player.hero}
+            atCity={atCity}
+            onTrain={(attribute) => send({ type: 'train_attribute', attribute })}
+            onTradeItem={(itemId, action) => send({ type: 'item_trade', itemId, action })}
+            onEquip={(itemId) => send({ type: 'equip_item', itemId })}
+            onCompanion={(companionId, action) => send({ type: 'companion', companionId, action })}
+          />
+        )}
+
+        {/* Quest Panel */}
+        {showPanel === 'quests' && player && (
+          <QuestPanel
+            player={player}
+            quests={gameState.quests}
+            offers={localOffers}
+            territories={gameState.territories}
+            onAccept={(questId) => send({ type: 'quest_accept', questId })}
+            onAbandon={(questId) => send({ type: 'quest_abandon', questId })}
+            onLocate={(territory) => setCamera(c => ({ ...c, x: territory.position.x, y: territory.position.y }))}
+          />
+        )}
+
+        {/* Settlement Panel */}
+        {showPanel === 'town' && player && nearbyTown && (
+          <SettlementPanel
+            territory={nearbyTown}
+            player={player}
+            canRecruit={!!nearbyTown.owner && getStance(gameState.relations, player.faction, nearbyTown.owner) === 'alliance'}
+            onRecruit={(unitType, count) => send({ type: 'recruit', unitType, count })}
+            onTrade={(good, count, action) => send({ type: 'trade', good, count, action })}
+          />
+        )}
+
+        {/* Territory Panel */}
+        {showPanel === 'territory' && player && selectedTerritory && (
+          <TerritoryPanel
+            territory={selectedTerritory}
+            player={player}
+            canManage={
+              selectedTerritory.owner === player.faction
+              && Math.hypot(
+                selectedTerritory.position.x - player.position.x,
+                selectedTerritory.position.y - player.position.y,
+              ) <= SETTLEMENT_RANGE
+            }
+            onBuild={(building) => send({ type: 'build', territoryId: selectedTerritory.id, building })}
+            onGarrison={(unit, count, action) => send({
+              type: 'garrison',
+              territoryId: selectedTerritory.id,
+              unitType: unit.type,
+              level: unit.level,
+              count,
+              action,
+            })}
+            onMarch={() => send({ type: 'move', x: selectedTerritory.position.x, y: selectedTerritory.position.y })}
+          />
+        )}
+
+        {/* Diplomacy Panel */}
+        {showPanel === 'diplomacy' && player && (
+          <DiplomacyPanel
+            faction={player.faction}
+            relations={gameState.relations}
+            proposals={gameState.proposals}
+            factionColors={FACTION_COLORS}
+            onPropose={(target, stance) => send({ type: 'diplomacy', target, stance })}
+            onDefect={(faction) => send({ type: 'defect', faction })}
+          />
+        )}
+
+        {/* Reports Panel */}
+        {showPanel === 'reports' && player && (
+          <ReportsPanel
+            reports={reports.list}
+            more={reports.more}
+            playerId={player.id}
+            faction={player.faction}
+            onLoad={loadReports}
+            onReplay={(battleId) => send({ type: 'battle_replay', battleId })}
+          />
+        )}
 
         {/* Chat Panel */}
         {showPanel === 'chat' && (
-          <div className="mt-3 p-4 bg-slate-800 rounded-xl">
-            <div className="h-32 overflow-y-auto space-y-2 mb-3">
-              {gameState.messages.length === 0 ? (
-                <p className="text-slate-500 text-sm">No messages yet...</p>
-              ) : (
-                gameState.messages.map((msg) => (
-                  <div key={msg.id} className="text-sm">
-                    <span className="text-indigo-400 font-medium">{msg.name}</span>
-                    <span className="text-slate-500"> ({msg.faction}): </span>
-                    <span className="text-slate-300">{msg.text}</span>
-                  </div>
-                ))
-              )}
-            </div>
-            <input
-              type="text"
-              placeholder="Type message..."
-              className="w-full px-3 py-2 bg-slate-700 rounded-lg text-white placeholder-slate-500 text-sm"
-              onKeyDown={(e) => {
-                if (e.key === 'Enter' && e.currentTarget.value) {
-                  send({ type: 'chat', text: e.currentTarget.value });
-                  e.currentTarget.value = '';
-                }
-              }}
-            />
-          </div>
+          <ChatPanel
+            messages={gameState.messages}
+            factionColors={FACTION_COLORS}
+            onSend={send}
+          />
         )}
       </div>
 
+      {/* Battle */}
+      {battle && (
+        <BattleScreen
+          battle={battle}
+          result={battleResult}
+          onRetreat={() => send({ type: 'retreat' })}
+          onReport={() => {
+            send({ type: 'battle_replay', battleId: battle.id });
+            setBattle(null);
+            setBattleResult(null);
+          }}
+          onClose={() => {
+            setBattle(null);
+            setBattleResult(null);
+          }}
+        />
+      )}
+
+      {/* Battle Replay */}
+      {replay && player && (
+        <BattleReplay
+          report={replay}
+          role={getOurSide(replay, player.id, player.faction)}
+          onClose={() => setReplay(null)}
+        />
+      )}
+
       {/* Online Players */}
       <div className="absolute top-20 right-2 glass p-2 rounded-xl">
-        <p className="text-xs text-slate-400 mb-1">Online: {gameState.players.length}</p>
-        {gameState.players.slice(0, 5).map((p) => (
+        <p className="text-xs text-slate-400 mb-1">In view: {onlinePlayers.length}</p>
+        {onlinePlayers.slice(0, 5).map((p) => (
           <div key={p.id} className="flex items-center gap-2 text-xs py-1">
             <div className="w-2 h-2 rounded-full" style={{ backgroundColor: p.color }} />
             <span className="text-slate-300">{p.name}</span>
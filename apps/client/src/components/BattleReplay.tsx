@@ -0,0 +1,118 @@
+import { useEffect, useMemo, useState } from 'react';
+import { subtractUnits } from '@warband/protocol';
+import type { BattleReport, BattleSide } from '../types';
+import { ArmyColumn, STAGE_LABELS, TERRAIN_LABELS } from './BattleScreen';
+
+// Same pace as the live battle: one stage per second
+const REPLAY_STEP_MS = 1000;
+
+interface BattleReplayProps {
+  report: BattleReport;
+  // The side to highlight, if we fought in it
+  role: BattleSide | null;
+  onClose: () => void;
+}
+
+export default function BattleReplay({ report, role, onClose }: BattleReplayProps) {
+  // How many stages have been fought so far; the last step adds retreat losses and the verdict
+  const [step, setStep] = useState(0);
+  const [playing, setPlaying] = useState(true);
+  const lastStep = report.stages.length + 1;
+
+  // Both armies after each step, worked out once from the recorded losses
+  const frames = useMemo(() => {
+    const armies = [{ attacker: report.attacker.before, defender: report.defender.before }];
+    report.stages.forEach(stage => {
+      const previous = armies[armies.length - 1];
+      armies.push({
+        attacker: subtractUnits(previous.attacker, stage.attackerLosses),
+        defender: subtractUnits(previous.defender, stage.defenderLosses),
+      });
+    });
+    armies.push({ attacker: report.attacker.after, defender: report.defender.after });
+    return armies;
+  }, [report]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (step >= lastStep) {
+      setPlaying(false);
+      return;
+    }
+    const timeout = setTimeout(() => setStep(s => s + 1), REPLAY_STEP_MS);
+    return () => clearTimeout(timeout);
+  }, [playing, step, lastStep]);
+
+  const stage = step > 0 && step <= report.stages.length ? report.stages[step - 1] : null;
+  const ended = step === lastStep;
+  const lost = (units: { count: number }[]) => units.reduce((sum, u) => sum + u.count, 0);
+
+  return (
+    <div className="absolute inset-0 z-10 flex items-center justify-center p-4 bg-slate-950/80">
+      <div className="glass w-full max-w-md p-4 rounded-2xl space-y-4">
+        <div className="text-center">
+          <h3 className="text-xl font-bold text-white">📖 {report.attacker.name} vs {report.defender.name}</h3>
+          <p className="text-sm text-slate-400">
+            {step === 0 && 'Armies are forming up...'}
+            {stage && `Round ${stage.round}/${report.rounds} • ${STAGE_LABELS[stage.stage]}`}
+            {ended && `${report[report.winner].name} won after ${report.rounds} rounds`}
+          </p>
+          <p className="text-xs text-slate-500">
+            {TERRAIN_LABELS[report.terrain]}
+            {report.fortifications && ` • walls ${report.fortifications.walls}, watchtower ${report.fortifications.watchtower}`}
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <ArmyColumn name={report.attacker.name} army={frames[step].attacker} highlight={role === 'attacker'} />
+          <ArmyColumn name={report.defender.name} army={frames[step].defender} highlight={role === 'defender'} />
+        </div>
+
+        <div className="h-16 p-3 bg-slate-800 rounded-xl text-sm text-slate-300">
+          {stage && (
+            <>
+              <p>{report.attacker.name} lost {lost(stage.attackerLosses)}</p>
+              <p>{report.defender.name} lost {lost(stage.defenderLosses)}</p>
+            </>
+          )}
+          {ended && (
+            <>
+              {report.retreated && <p>{report[report.retreated].name} retreated from the field</p>}
+              {report.captured && <p>The settlement fell to {report.attacker.faction}</p>}
+              {report.loot > 0 && <p className="text-yellow-400">{report.loot} gold taken as loot</p>}
+            </>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => { setStep(0); setPlaying(true); }}
+            className="px-4 py-3 rounded-xl bg-slate-700 text-slate-300"
+          >
+            ⏮
+          </button>
+          <button
+            onClick={() => setPlaying(p => !p)}
+            disabled={ended}
+            className="px-4 py-3 rounded-xl bg-slate-700 text-slate-300 disabled:opacity-40"
+          >
+            {playing ? '⏸' : '▶️'}
+          </button>
+          <button
+            onClick={() => { setPlaying(false); setStep(s => Math.min(s + 1, lastStep)); }}
+            disabled={ended}
+            className="px-4 py-3 rounded-xl bg-slate-700 text-slate-300 disabled:opacity-40"
+          >
+            ⏭
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 rounded-xl font-bold bg-indigo-600 text-white active:scale-95 transition-transform"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { getRankName } from '@warband/protocol';
+import type { ActiveBattle, BattleResult, BattleStage, TerrainType, Unit } from '../types';
+
+export const UNIT_ICONS: Record<Unit['type'], string> = {
+  infantry: '🗡️',
+  archer: '🏹',
+  cavalry: '🐴',
+};
+
+export const STAGE_LABELS: Record<BattleStage, string> = {
+  volley: '🏹 Archer volley',
+  charge: '🐴 Cavalry charge',
+  melee: '🗡️ Infantry melee',
+};
+
+export const TERRAIN_LABELS: Record<TerrainType, string> = {
+  plains: '🌾 Open plains',
+  forest: '🌲 Forest',
+  hills: '⛰️ Hills',
+  mountains: '🏔️ Mountain pass',
+  river: '🌊 River crossing',
+  road: '🛤️ Road',
+};
+
+interface BattleScreenProps {
+  battle: ActiveBattle;
+  result: BattleResult | null;
+  onRetreat: () => void;
+  onReport: () => void;
+  onClose: () => void;
+}
+
+export function ArmyColumn({ name, army, highlight }: { name: string; army: Unit[]; highlight: boolean }) {
+  const total = army.reduce((sum, u) => sum + u.count, 0);
+
+  return (
+    <div className={`flex-1 p-3 rounded-xl ${highlight ? 'bg-indigo-900/60' : 'bg-slate-800'}`}>
+      <p className="font-bold text-white truncate">{name}</p>
+      <p className="text-xs text-slate-400 mb-2">⚔️ {total} troops</p>
+      {army.length === 0 ? (
+        <p className="text-sm text-slate-500">Routed</p>
+      ) : (
+        army.map((unit) => (
+          <div key={`${unit.type}-${unit.level}`} className="flex justify-between text-sm">
+            <span className="text-slate-300">{UNIT_ICONS[unit.type]} {getRankName(unit)}</span>
+            <span className="text-white font-bold">{unit.count}</span>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+export default function BattleScreen({ battle, result, onRetreat, onReport, onClose }: BattleScreenProps) {
+  const isAttacker = battle.role === 'attacker';
+  const ended = battle.phase === 'ended';
+  const won = ended && battle.winner === battle.role;
+
+  return (
+    <div className="absolute inset-0 z-10 flex items-center justify-center p-4 bg-slate-950/80">
+      <div className="glass w-full max-w-md p-4 rounded-2xl space-y-4">
+        <div className="text-center">
+          <h3 className="text-xl font-bold text-white">
+            {ended ? (won ? '🏆 Victory' : battle.retreated === battle.role ? '🏃 Retreated' : '💀 Defeat') : '⚔️ Battle'}
+          </h3>
+          <p className="text-sm text-slate-400">
+            {battle.phase === 'preparing' && 'Armies are forming up...'}
+            {battle.phase === 'fighting' && `Round ${battle.round}/${battle.maxRounds} • ${STAGE_LABELS[battle.stage]}`}
+            {ended && `Fought for ${result?.rounds ?? battle.round} rounds`}
+          </p>
+          <p className="text-xs text-slate-500">{TERRAIN_LABELS[battle.terrain]}</p>
+        </div>
+
+        <div className="flex gap-2">
+          <ArmyColumn name={battle.attacker.name} army={battle.attacker.army} highlight={isAttacker} />
+          <ArmyColumn name={battle.defender.name} army={battle.defender.army} highlight={!isAttacker} />
+        </div>
+
+        <div className="h-28 overflow-y-auto p-3 bg-slate-800 rounded-xl space-y-1 text-sm">
+          {battle.events.length === 0 ? (
+            <p className="text-slate-500">No blood spilled yet...</p>
+          ) : (
+            battle.events.slice().reverse().map((event, i) => (
+              <p key={i} className="text-slate-300">
+                <span className="text-slate-500">R{event.round} {STAGE_LABELS[event.stage]}: </span>
+                {event.side === 'attacker' ? battle.attacker.name : battle.defender.name} cut down {event.kills}
+              </p>
+            ))
+          )}
+        </div>
+
+        {ended && result && (
+          <p className="text-center text-yellow-400 font-bold">
+            {result.loot > 0 ? `${won ? '+' : '-'}${result.loot} gold` : 'No loot taken'}
+          </p>
+        )}
+
+        {ended ? (
+          <div className="flex gap-2">
+            <button
+              onClick={onReport}
+              className="flex-1 py-3 rounded-xl font-bold bg-slate-700 text-slate-200 active:scale-95 transition-transform"
+            >
+              📖 Full report
+            </button>
+            <button
+              onClick={onClose}
+              className="flex-1 py-3 rounded-xl font-bold bg-indigo-600 text-white active:scale-95 transition-transform"
+            >
+              Continue
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={onRetreat}
+            className="w-full py-3 rounded-xl font-bold bg-slate-700 text-slate-200 active:scale-95 transition-transform"
+          >
+            🏃 Retreat
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import type { ClientMessageOf } from '@warband/protocol';
+import type { ChatChannel, ChatMessage } from '../types';
+
+// Channels a typed line can go to; whispers are sent with /w instead
+const SEND_CHANNELS: { channel: Exclude<ChatChannel, 'whisper'>; label: string }[] = [
+  { channel: 'global', label: '🌍 All' },
+  { channel: 'faction', label: '🚩 Faction' },
+  { channel: 'proximity', label: '📍 Nearby' },
+];
+
+const CHANNEL_TAGS: Record<ChatChannel, string> = {
+  global: '',
+  faction: '[Faction] ',
+  proximity: '[Nearby] ',
+  whisper: '[Whisper] ',
+};
+
+const COMMAND_HELP = 'Commands: /w name text • /mute name • /unmute name • /report name reason';
+
+type ChatCommand = ClientMessageOf<'chat' | 'chat_mute' | 'chat_report'>;
+
+// Turns a typed line into the message to send, or null if it is a malformed command
+function parseLine(line: string, channel: ChatChannel): ChatCommand | null {
+  if (!line.startsWith('/')) return { type: 'chat', text: line, channel };
+
+  const [command, name, ...rest] = line.slice(1).split(/\s+/);
+  if (!name) return null;
+
+  switch (command.toLowerCase()) {
+    case 'w':
+    case 'whisper':
+      return rest.length > 0 ? { type: 'chat', channel: 'whisper', to: name, text: rest.join(' ') } : null;
+    case 'mute':
+      return { type: 'chat_mute', name, muted: true };
+    case 'unmute':
+      return { type: 'chat_mute', name, muted: false };
+    case 'report':
+      return { type: 'chat_report', name, reason: rest.join(' ') || undefined };
+    default:
+      return null;
+  }
+}
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  factionColors: Record<string, string>;
+  onSend: (message: ChatCommand) => void;
+}
+
+export default function ChatPanel({ messages, factionColors, onSend }: ChatPanelProps) {
+  const [channel, setChannel] = useState<Exclude<ChatChannel, 'whisper'>>('global');
+  const [showHelp, setShowHelp] = useState(false);
+
+  return (
+    <div className="mt-3 p-4 bg-slate-800 rounded-xl">
+      <div className="flex gap-2 mb-2">
+        {SEND_CHANNELS.map(option => (
+          <button
+            key={option.channel}
+            onClick={() => setChannel(option.channel)}
+            className={`flex-1 py-1 rounded-lg text-xs ${
+              channel === option.channel ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-slate-300'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <div className="h-32 overflow-y-auto space-y-2 mb-3">
+        {messages.length === 0 ? (
+          <p className="text-slate-500 text-sm">No messages yet...</p>
+        ) : (
+          messages.map((msg) => (
+            msg.channel === 'notice' ? (
+              <p key={msg.id} className="text-xs italic text-slate-500">{msg.text}</p>
+            ) : (
+              <div key={msg.id} className={`text-sm ${msg.channel === 'whisper' ? 'italic' : ''}`}>
+                <span className="text-slate-500">{CHANNEL_TAGS[msg.channel]}</span>
+                <span className="font-medium" style={{ color: factionColors[msg.faction] ?? '#818cf8' }}>{msg.name}</span>
+                {msg.to && <span className="text-slate-500"> → {msg.to}</span>}
+                <span className="text-slate-500">: </span>
+                <span className="text-slate-300">{msg.text}</span>
+              </div>
+            )
+          ))
+        )}
+      </div>
+      <input
+        type="text"
+        placeholder="Type message or /w name..."
+        className="w-full px-3 py-2 bg-slate-700 rounded-lg text-white placeholder-slate-500 text-sm"
+        onKeyDown={(e) => {
+          const line = e.currentTarget.value.trim();
+          if (e.key !== 'Enter' || !line) return;
+          const message = parseLine(line, channel);
+          setShowHelp(!message);
+          if (!message) return;
+          onSend(message);
+          e.currentTarget.value = '';
+        }}
+      />
+      {showHelp && <p className="mt-2 text-xs text-slate-500">{COMMAND_HELP}</p>}
+    </div>
+  );
+}
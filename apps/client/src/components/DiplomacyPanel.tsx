@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { DEFECTION_DESERTION_RATIO, DEFECTION_GOLD_COST, getStance } from '@warband/protocol';
+import type { DiplomacyProposal, DiplomaticStance, FactionRelation } from '../types';
+
+const STANCE_LABELS: Record<DiplomaticStance, string> = {
+  war: '⚔️ War',
+  truce: '🏳️ Truce',
+  peace: '🕊️ Peace',
+  alliance: '🤝 Alliance',
+};
+
+const STANCE_COLORS: Record<DiplomaticStance, string> = {
+  war: 'text-red-400',
+  truce: 'text-amber-400',
+  peace: 'text-emerald-400',
+  alliance: 'text-sky-400',
+};
+
+// What members can push for next from each stance; war can't be declared while a truce holds
+const NEXT_STANCES: Record<DiplomaticStance, DiplomaticStance[]> = {
+  war: ['truce', 'peace'],
+  truce: ['peace'],
+  peace: ['alliance', 'war'],
+  alliance: ['war'],
+};
+
+const PROPOSE_LABELS: Record<DiplomaticStance, string> = {
+  war: 'Declare war',
+  truce: 'Offer truce',
+  peace: 'Offer peace',
+  alliance: 'Offer alliance',
+};
+
+interface DiplomacyPanelProps {
+  faction: string;
+  relations: FactionRelation[];
+  proposals: DiplomacyProposal[];
+  factionColors: Record<string, string>;
+  onPropose: (target: string, stance: DiplomaticStance) => void;
+  onDefect: (faction: string) => void;
+}
+
+export default function DiplomacyPanel({ faction, relations, proposals, factionColors, onPropose, onDefect }: DiplomacyPanelProps) {
+  // Defecting is costly, so it takes a second tap on the same faction
+  const [defectingTo, setDefectingTo] = useState<string | null>(null);
+  const others = relations
+    .filter(r => r.factions.includes(faction))
+    .map(r => (r.factions[0] === faction ? r.factions[1] : r.factions[0]));
+
+  return (
+    <div className="mt-3 p-4 bg-slate-800 rounded-xl space-y-3">
+      <h3 className="font-bold text-white">Diplomacy of {faction}</h3>
+      {others.map(other => {
+        const stance = getStance(relations, faction, other);
+        const ours = proposals.filter(p => p.faction === faction && p.target === other);
+        const theirs = proposals.filter(p => p.faction === other && p.target === faction && p.status === 'offered');
+
+        return (
+          <div key={other} className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="font-medium" style={{ color: factionColors[other] }}>{other}</span>
+              <span className={`text-sm ${STANCE_COLORS[stance]}`}>{STANCE_LABELS[stance]}</span>
+            </div>
+            {theirs.map(p => (
+              <button
+                key={p.stance}
+                onClick={() => onPropose(other, p.stance)}
+                className="w-full py-1 rounded-lg text-xs bg-emerald-700 text-white"
+              >
+                {other} offers {p.stance} • Vote to accept
+              </button>
+            ))}
+            <div className="flex gap-2">
+              {NEXT_STANCES[stance].map(next => {
+                const pending = ours.find(p => p.stance === next);
+                return (
+                  <button
+                    key={next}
+                    onClick={() => onPropose(other, next)}
+                    disabled={pending?.status === 'offered'}
+                    className={`flex-1 py-1 rounded-lg text-xs disabled:opacity-50 ${
+                      next === 'war' ? 'bg-red-700 text-white' : 'bg-slate-700 text-slate-300'
+                    }`}
+                  >
+                    {PROPOSE_LABELS[next]}
+                    {pending && (pending.status === 'offered' ? ' • Sent' : ` • ${pending.votes}/${pending.needed}`)}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="pt-3 border-t border-slate-700 space-y-2">
+        <h3 className="font-bold text-white">Change sides</h3>
+        <p className="text-xs text-slate-400">
+          Costs {DEFECTION_GOLD_COST} gold and {Math.round(DEFECTION_DESERTION_RATIO * 100)}% of your troops desert
+        </p>
+        <div className="grid grid-cols-3 gap-2">
+          {others.map(other => (
+            <button
+              key={other}
+              onClick={() => {
+                if (defectingTo !== other) {
+                  setDefectingTo(other);
+                  return;
+                }
+                setDefectingTo(null);
+                onDefect(other);
+              }}
+              className={`py-1 rounded-lg text-xs ${defectingTo === other ? 'bg-red-700 text-white' : 'bg-slate-700'}`}
+              style={defectingTo === other ? undefined : { color: factionColors[other] }}
+            >
+              {defectingTo === other ? 'Confirm?' : other}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { FACTIONS, getUnderdogBonus, isFactionOpen, type FactionHeadcounts } from '@warband/protocol';
+
+interface FactionPickerProps {
+  roomName: string;
+  // Unknown for private rooms joined by code, which aren't listed in the lobby
+  counts?: FactionHeadcounts;
+  factionColors: Record<string, string>;
+  // Without a faction the server picks the least populated one
+  onPick: (faction?: string) => void;
+  onBack: () => void;
+}
+
+export default function FactionPicker({ roomName, counts, factionColors, onPick, onBack }: FactionPickerProps) {
+  return (
+    <div className="p-4 bg-slate-800 rounded-2xl space-y-2">
+      <p className="text-white font-bold">Choose your side in {roomName}</p>
+      <p className="text-xs text-slate-400">Returning to a room? Your party keeps the side it already fights for.</p>
+
+      {FACTIONS.map(faction => {
+        const open = !counts || isFactionOpen(counts, faction);
+        const bonus = counts ? getUnderdogBonus(counts, faction) : 0;
+        return (
+          <button
+            key={faction}
+            disabled={!open}
+            onClick={() => onPick(faction)}
+            className="w-full flex items-center justify-between px-3 py-3 bg-slate-700 rounded-xl active:scale-95 transition-transform disabled:opacity-50"
+          >
+            <span className="font-medium" style={{ color: factionColors[faction] }}>{faction}</span>
+            <span className="text-sm text-slate-300">
+              {bonus > 0 && <span className="text-yellow-400 mr-2">+{bonus}💰</span>}
+              {!open && <span className="text-red-400 mr-2">Full</span>}
+              {counts && `👥 ${counts[faction] ?? 0}`}
+            </span>
+          </button>
+        );
+      })}
+
+      <button
+        onClick={() => onPick()}
+        className="w-full py-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-bold rounded-xl active:scale-95 transition-transform"
+      >
+        ⚖️ Wherever I'm needed
+      </button>
+      <button onClick={onBack} className="w-full py-2 text-slate-400 text-sm">
+        ← Back to rooms
+      </button>
+    </div>
+  );
+}
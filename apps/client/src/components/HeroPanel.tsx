@@ -0,0 +1,195 @@
+import {
+  COMPANION_IDS,
+  COMPANION_LIMIT,
+  COMPANIONS,
+  EQUIPMENT_SLOTS,
+  getArmyLimit,
+  getAttribute,
+  getCommandBonus,
+  getHeroXpToLevel,
+  getItemSellPrice,
+  getLootRatio,
+  getSpeedBonus,
+  HERO_ATTRIBUTES,
+  INVENTORY_LIMIT,
+  ITEM_IDS,
+  ITEMS,
+  MAX_ATTRIBUTE,
+} from '@warband/protocol';
+import type { CompanionId, EquipmentSlot, Hero, HeroAttribute, ItemId, Player } from '../types';
+
+const ATTRIBUTE_INFO: Record<HeroAttribute, { icon: string; effect: string }> = {
+  leadership: { icon: '🎺', effect: 'Lead more soldiers' },
+  tactics: { icon: '🗺️', effect: 'Your army strikes harder' },
+  trade: { icon: '💰', effect: 'Take more loot from the defeated' },
+};
+
+const SLOT_ICONS: Record<EquipmentSlot, string> = {
+  weapon: '⚔️',
+  armor: '🛡️',
+  mount: '🐎',
+};
+
+interface HeroPanelProps {
+  player: Player;
+  hero: Hero;
+  // Standing at a friendly city, where gear is sold and companions wait in the tavern
+  atCity: boolean;
+  onTrain: (attribute: HeroAttribute) => void;
+  onTradeItem: (itemId: ItemId, action: 'buy' | 'sell') => void;
+  onEquip: (itemId: ItemId) => void;
+  onCompanion: (companionId: CompanionId, action: 'hire' | 'dismiss') => void;
+}
+
+function percent(multiplier: number): string {
+  return `+${Math.round((multiplier - 1) * 100)}%`;
+}
+
+function describeItem(itemId: ItemId): string {
+  const { power, speed } = ITEMS[itemId];
+  return [power && `+${Math.round(power * 100)}% power`, speed && `+${Math.round(speed * 100)}% speed`]
+    .filter(Boolean)
+    .join(', ');
+}
+
+export default function HeroPanel({ player, hero, atCity, onTrain, onTradeItem, onEquip, onCompanion }: HeroPanelProps) {
+  const toLevel = getHeroXpToLevel(hero.level);
+  const soldiers = player.army.reduce((sum, u) => sum + u.count, 0);
+
+  return (
+    <div className="mt-3 p-4 bg-slate-800 rounded-xl space-y-3">
+      <div>
+        <h3 className="font-bold text-white">{player.name} • Level {hero.level}</h3>
+        <div className="mt-1 h-1.5 bg-slate-700 rounded-full overflow-hidden">
+          <div className="h-full bg-indigo-500" style={{ width: `${(hero.xp / toLevel) * 100}%` }} />
+        </div>
+        <p className="text-xs text-slate-400">
+          {hero.xp}/{toLevel} xp
+          {hero.points > 0 && <span className="text-amber-400"> • {hero.points} points to spend</span>}
+        </p>
+      </div>
+
+      <div className="space-y-1">
+        {HERO_ATTRIBUTES.map(attribute => {
+          const { icon, effect } = ATTRIBUTE_INFO[attribute];
+          const total = getAttribute(hero, attribute);
+          return (
+            <div key={attribute} className="flex items-center justify-between gap-2 text-sm">
+              <span className="text-slate-300 capitalize flex-1">
+                {icon} {attribute}
+                <span className="ml-1 text-xs text-slate-500">
+                  {hero.attributes[attribute]}{total > hero.attributes[attribute] && ` (+${total - hero.attributes[attribute]})`}
+                </span>
+                <span className="block text-xs text-slate-500">{effect}</span>
+              </span>
+              {hero.points > 0 && hero.attributes[attribute] < MAX_ATTRIBUTE && (
+                <button onClick={() => onTrain(attribute)} className="px-2 py-1 bg-amber-600 rounded-lg text-xs text-white">
+                  +1
+                </button>
+              )}
+            </div>
+          );
+        })}
+        <p className="text-xs text-slate-500">
+          Leads {soldiers}/{getArmyLimit(hero)} • power {percent(getCommandBonus(hero))} • pace {percent(getSpeedBonus(hero))}
+          {' '}• loot {Math.round(getLootRatio(hero) * 100)}%
+        </p>
+      </div>
+
+      <hr className="border-slate-700" />
+
+      <div className="space-y-1">
+        <p className="text-xs text-slate-400">Equipment</p>
+        {EQUIPMENT_SLOTS.map(slot => {
+          const itemId = hero.equipment[slot];
+          return (
+            <p key={slot} className="text-sm text-slate-300">
+              {SLOT_ICONS[slot]} {itemId ? ITEMS[itemId].name : <span className="text-slate-500">Nothing</span>}
+              {itemId && <span className="ml-1 text-xs text-slate-500">{describeItem(itemId)}</span>}
+            </p>
+          );
+        })}
+        <p className="text-xs text-slate-400">Saddlebags • {hero.inventory.length}/{INVENTORY_LIMIT}</p>
+        {hero.inventory.map((itemId, i) => (
+          <div key={`${itemId}-${i}`} className="flex items-center justify-between gap-2 text-sm">
+            <span className="text-slate-300 flex-1">
+              {SLOT_ICONS[ITEMS[itemId].slot]} {ITEMS[itemId].name}
+              <span className="ml-1 text-xs text-slate-500">{describeItem(itemId)}</span>
+            </span>
+            <button onClick={() => onEquip(itemId)} className="px-2 py-1 bg-indigo-600 rounded-lg text-xs text-white">
+              Equip
+            </button>
+            {atCity && (
+              <button
+                onClick={() => onTradeItem(itemId, 'sell')}
+                className="px-2 py-1 bg-slate-700 rounded-lg text-xs text-slate-300"
+              >
+                Sell {getItemSellPrice(itemId)}g
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {atCity && (
+        <div className="space-y-1">
+          <p className="text-xs text-slate-400">Armorer</p>
+          {ITEM_IDS.map(itemId => (
+            <div key={itemId} className="flex items-center justify-between gap-2 text-sm">
+              <span className="text-slate-300 flex-1">
+                {SLOT_ICONS[ITEMS[itemId].slot]} {ITEMS[itemId].name}
+                <span className="ml-1 text-xs text-slate-500">{describeItem(itemId)}</span>
+              </span>
+              <button
+                onClick={() => onTradeItem(itemId, 'buy')}
+                disabled={player.gold < ITEMS[itemId].price || hero.inventory.length >= INVENTORY_LIMIT}
+                className="px-2 py-1 bg-amber-600 rounded-lg text-xs text-white disabled:opacity-40"
+              >
+                Buy {ITEMS[itemId].price}g
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <hr className="border-slate-700" />
+
+      <div className="space-y-1">
+        <p className="text-xs text-slate-400">Companions • {hero.companions.length}/{COMPANION_LIMIT}</p>
+        {COMPANION_IDS
+          .filter(id => hero.companions.includes(id) || atCity)
+          .map(id => {
+            const { name, attribute, bonus, hireCost } = COMPANIONS[id];
+            const hired = hero.companions.includes(id);
+            return (
+              <div key={id} className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-slate-300 flex-1">
+                  {name}
+                  <span className="ml-1 text-xs text-slate-500">+{bonus} {attribute}</span>
+                </span>
+                {hired ? (
+                  <button
+                    onClick={() => onCompanion(id, 'dismiss')}
+                    className="px-2 py-1 bg-slate-700 rounded-lg text-xs text-slate-300"
+                  >
+                    Dismiss
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => onCompanion(id, 'hire')}
+                    disabled={player.gold < hireCost || hero.companions.length >= COMPANION_LIMIT}
+                    className="px-2 py-1 bg-emerald-600 rounded-lg text-xs text-white disabled:opacity-40"
+                  >
+                    Hire {hireCost}g
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        {!atCity && hero.companions.length === 0 && (
+          <p className="text-sm text-slate-500">Visit a friendly city to buy gear and hire companions.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { checkCredentials, MAX_PASSWORD_LENGTH, type AuthResponse } from '@warband/protocol';
+
+type AuthMode = 'login' | 'register';
+
+const MODES: { mode: AuthMode; label: string }[] = [
+  { mode: 'login', label: 'Log in' },
+  { mode: 'register', label: 'Register' },
+];
+
+const INPUT_CLASS =
+  'w-full px-4 py-4 bg-slate-800 border border-slate-700 rounded-2xl text-white placeholder-slate-500 text-center text-lg focus:outline-none focus:border-indigo-500';
+
+interface LoginFormProps {
+  // Shown until the player submits, e.g. why they were sent back to the menu
+  notice: string | null;
+  onAuthenticated: (token: string, username: string) => void;
+}
+
+export default function LoginForm({ notice, onAuthenticated }: LoginFormProps) {
+  const [mode, setMode] = useState<AuthMode>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(notice);
+  const [pending, setPending] = useState(false);
+
+  const submit = async () => {
+    // Registration rules are checked here too, so typos don't cost a round trip
+    const problem = mode === 'register' ? checkCredentials({ username: username.trim(), password }) : null;
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setPending(true);
+    setError(null);
+    try {
+      // Same origin; proxied to the game server by Vite like /ws
+      const res = await fetch(`/api/${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: username.trim(), password }),
+      });
+      const body: AuthResponse = await res.json();
+      if (body.ok) onAuthenticated(body.token, body.username);
+      else setError(body.error);
+    } catch (err) {
+      console.error('Login failed:', err);
+      setError('Could not reach the server');
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <form
+      className="w-full max-w-sm space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!pending) submit();
+      }}
+    >
+      <div className="flex gap-2">
+        {MODES.map(option => (
+          <button
+            key={option.mode}
+            type="button"
+            onClick={() => {
+              setMode(option.mode);
+              setError(null);
+            }}
+            className={`flex-1 py-2 rounded-xl text-sm ${
+              mode === option.mode ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <input
+        type="text"
+        placeholder="Username"
+        autoComplete="username"
+        value={username}
+        onChange={(e) => setUsername(e.target.value)}
+        className={INPUT_CLASS}
+        maxLength={20}
+      />
+      <input
+        type="password"
+        placeholder="Password"
+        autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        className={INPUT_CLASS}
+        maxLength={MAX_PASSWORD_LENGTH}
+      />
+
+      {error && <p className="text-sm text-red-400 text-center">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={pending || !username.trim() || !password}
+        className="w-full py-4 bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-bold text-lg rounded-2xl shadow-lg shadow-indigo-500/30 active:scale-95 transition-transform disabled:opacity-50"
+      >
+        {mode === 'register' ? '📜 Create Account' : '🔑 Log In'}
+      </button>
+    </form>
+  );
+}
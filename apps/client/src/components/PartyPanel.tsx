@@ -0,0 +1,109 @@
+import { getRankName, PARTY_MAX_SIZE, PARTY_RANGE } from '@warband/protocol';
+import type { PartyView, Player, PublicPlayer, Unit } from '../types';
+import { UNIT_ICONS } from './BattleScreen';
+
+// Soldiers or gold handed over per tap
+const TRANSFER_BATCH = 10;
+const GOLD_BATCH = 100;
+
+interface PartyPanelProps {
+  player: Player;
+  party: PartyView | null;
+  // Everyone we can see; faction-mates standing close enough are offered invites and transfers
+  players: PublicPlayer[];
+  onInvite: (targetId: string) => void;
+  onLeave: () => void;
+  onGiveGold: (targetId: string, gold: number) => void;
+  onGiveUnits: (targetId: string, unit: Unit, count: number) => void;
+}
+
+export default function PartyPanel({ player, party, players, onInvite, onLeave, onGiveGold, onGiveUnits }: PartyPanelProps) {
+  const leading = !party || party.leaderId === player.id;
+  const full = !!party && party.members.length >= PARTY_MAX_SIZE;
+  const nearby = players.filter(p =>
+    p.id !== player.id
+    && !p.npc
+    && p.faction === player.faction
+    && Math.hypot(p.position.x - player.position.x, p.position.y - player.position.y) <= PARTY_RANGE
+  );
+  const gold = Math.min(GOLD_BATCH, player.gold);
+
+  return (
+    <div className="mt-3 p-4 bg-slate-800 rounded-xl space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-white">Your Party</h3>
+        {party && (
+          <button onClick={onLeave} className="px-2 py-1 bg-red-600 rounded-lg text-xs text-white">
+            Leave
+          </button>
+        )}
+      </div>
+
+      {party ? (
+        <div className="space-y-1">
+          {party.members.map(member => (
+            <p key={member.id} className="text-sm text-slate-300">
+              {member.id === party.leaderId ? '👑' : '🛡️'} {member.name}
+              {member.id === player.id && <span className="ml-1 text-xs text-slate-500">(you)</span>}
+            </p>
+          ))}
+          <p className="text-xs text-slate-500">
+            {leading ? 'The party follows where you march' : 'You march where your leader goes'}
+          </p>
+        </div>
+      ) : (
+        <p className="text-sm text-slate-500">You travel alone. Invite faction-mates standing nearby.</p>
+      )}
+
+      <hr className="border-slate-700" />
+
+      <div className="space-y-2">
+        <p className="text-xs text-slate-400">Nearby faction-mates</p>
+        {nearby.length === 0 && <p className="text-sm text-slate-500">No one close enough</p>}
+        {nearby.map(mate => {
+          const inParty = !!party?.members.some(m => m.id === mate.id);
+          return (
+            <div key={mate.id} className="p-2 bg-slate-900/60 rounded-lg space-y-1">
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-white truncate flex-1">{mate.name}</span>
+                {!inParty && leading && (
+                  <button
+                    onClick={() => onInvite(mate.id)}
+                    disabled={full}
+                    className="px-2 py-1 bg-indigo-600 rounded-lg text-xs text-white disabled:opacity-40"
+                  >
+                    Invite
+                  </button>
+                )}
+                <button
+                  onClick={() => onGiveGold(mate.id, gold)}
+                  disabled={gold === 0}
+                  className="px-2 py-1 bg-amber-600 rounded-lg text-xs text-white disabled:opacity-40"
+                >
+                  💰 Give {gold}g
+                </button>
+              </div>
+              {player.army.map(unit => {
+                const batch = Math.min(TRANSFER_BATCH, unit.count);
+                return (
+                  <div key={`${unit.type}-${unit.level}`} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="text-slate-300 flex-1">
+                      {UNIT_ICONS[unit.type]} {getRankName(unit)}
+                      <span className="ml-1 text-slate-500">Lv{unit.level} • {unit.count}</span>
+                    </span>
+                    <button
+                      onClick={() => onGiveUnits(mate.id, unit, batch)}
+                      className="px-2 py-1 bg-slate-700 rounded-lg text-slate-300"
+                    >
+                      Give {batch}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { QUEST_LIMIT } from '@warband/protocol';
+import type { Player, Quest, Territory } from '../types';
+
+const QUEST_ICONS: Record<Quest['type'], string> = {
+  escort: '🐫',
+  bandits: '☠️',
+  deliver: '💰',
+  scout: '🔭',
+};
+
+interface QuestPanelProps {
+  player: Player;
+  // Jobs we have taken, and those on offer at the settlement we stand at
+  quests: Quest[];
+  offers: Quest[];
+  territories: Territory[];
+  onAccept: (questId: string) => void;
+  onAbandon: (questId: string) => void;
+  // Centres the map on where the job is done
+  onLocate: (territory: Territory) => void;
+}
+
+export function describeQuest(quest: Quest, territories: Territory[]): string {
+  const name = (id: string) => territories.find(t => t.id === id)?.name ?? 'somewhere';
+  switch (quest.type) {
+    case 'escort':
+      return `Escort a caravan from ${name(quest.giverId)} to ${name(quest.targetId)}`;
+    case 'bandits':
+      return `Rout ${quest.goal} bandit ${quest.goal === 1 ? 'party' : 'parties'} near ${name(quest.targetId)}`;
+    case 'deliver':
+      return `Deliver ${quest.gold} gold to ${name(quest.targetId)}`;
+    case 'scout':
+      return `Scout the enemy stronghold at ${name(quest.targetId)}`;
+  }
+}
+
+function formatTime(seconds: number): string {
+  const s = Math.max(0, Math.round(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
+
+function Reward({ quest }: { quest: Quest }) {
+  const { gold, xp, reputation } = quest.reward;
+  return (
+    <span className="block text-xs text-slate-500">
+      💰 {gold}g • ✨ {xp} xp • 🤝 +{reputation} {quest.faction}
+    </span>
+  );
+}
+
+export default function QuestPanel({ player, quests, offers, territories, onAccept, onAbandon, onLocate }: QuestPanelProps) {
+  const standing = Object.entries(player.reputation ?? {}).filter(([, value]) => value !== 0);
+  const locate = (quest: Quest) => {
+    const target = territories.find(t => t.id === quest.targetId);
+    if (target) onLocate(target);
+  };
+
+  return (
+    <div className="mt-3 p-4 bg-slate-800 rounded-xl space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-white">Quest Log</h3>
+        <span className="text-xs text-slate-400">{quests.length}/{QUEST_LIMIT} jobs</span>
+      </div>
+
+      {quests.length === 0 && <p className="text-sm text-slate-500">No jobs in hand. Settlements post work for passing parties.</p>}
+      {quests.map(quest => (
+        <div key={quest.id} className="p-2 bg-slate-900/60 rounded-lg space-y-1">
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <span className="text-white flex-1">
+              {QUEST_ICONS[quest.type]} {describeQuest(quest, territories)}
+              {quest.goal > 1 && <span className="ml-1 text-xs text-slate-400">{quest.progress}/{quest.goal}</span>}
+            </span>
+            <button onClick={() => locate(quest)} className="px-2 py-1 bg-slate-700 rounded-lg text-xs text-slate-300">
+              📍
+            </button>
+            <button onClick={() => onAbandon(quest.id)} className="px-2 py-1 bg-red-600 rounded-lg text-xs text-white">
+              Abandon
+            </button>
+          </div>
+          <Reward quest={quest} />
+          {quest.expiresAt !== undefined && (
+            <span className="block text-xs text-amber-400">⏳ {formatTime((quest.expiresAt - Date.now()) / 1000)} left</span>
+          )}
+        </div>
+      ))}
+
+      {offers.length > 0 && (
+        <>
+          <hr className="border-slate-700" />
+          <p className="text-xs text-slate-400">Work on offer here</p>
+          {offers.map(quest => (
+            <div key={quest.id} className="flex items-center justify-between gap-2 text-sm">
+              <span className="text-slate-300 flex-1">
+                {QUEST_ICONS[quest.type]} {describeQuest(quest, territories)}
+                <Reward quest={quest} />
+                <span className="block text-xs text-slate-500">⏳ {formatTime(quest.duration)} to finish</span>
+              </span>
+              <button
+                onClick={() => onAccept(quest.id)}
+                disabled={quests.length >= QUEST_LIMIT}
+                className="px-2 py-1 bg-emerald-600 rounded-lg text-xs text-white disabled:opacity-40"
+              >
+                Accept
+              </button>
+            </div>
+          ))}
+        </>
+      )}
+
+      {standing.length > 0 && (
+        <>
+          <hr className="border-slate-700" />
+          <p className="text-xs text-slate-400">Standing</p>
+          {standing.map(([faction, value]) => (
+            <p key={faction} className="text-sm text-slate-300">
+              {faction}
+              <span className={`ml-1 text-xs ${value > 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                {value > 0 ? `+${value}` : value}
+              </span>
+            </p>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { foughtOnSide, getCasualties, getRankName } from '@warband/protocol';
+import type { BattleReportSide, BattleReportSummary, BattleSide } from '../types';
+import { TERRAIN_LABELS, UNIT_ICONS } from './BattleScreen';
+
+interface ReportsPanelProps {
+  reports: BattleReportSummary[];
+  more: boolean;
+  playerId: string;
+  faction: string;
+  onLoad: (options: { mine: boolean; before?: string }) => void;
+  onReplay: (battleId: string) => void;
+}
+
+// The side we fought on, or failing that our faction's; null if we have since changed sides
+export function getOurSide(report: BattleReportSummary, playerId: string, faction: string): BattleSide | null {
+  if (foughtOnSide(report.attacker, playerId)) return 'attacker';
+  if (foughtOnSide(report.defender, playerId)) return 'defender';
+  if (report.attacker.faction === faction) return 'attacker';
+  if (report.defender.faction === faction) return 'defender';
+  return null;
+}
+
+function formatAgo(time: number): string {
+  const minutes = Math.floor((Date.now() - time) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours}h ago` : `${Math.floor(hours / 24)}d ago`;
+}
+
+// Who fell on one side, stack by stack, out of how many went in
+function CasualtyList({ side }: { side: BattleReportSide }) {
+  const casualties = getCasualties(side.before, side.after);
+  const fielded = (unit: { type: string; level: number }) => side.before
+    .filter(u => u.type === unit.type && u.level === unit.level)
+    .reduce((sum, u) => sum + u.count, 0);
+
+  return (
+    <div className="flex-1 min-w-0">
+      <p className="font-medium text-white truncate">{side.name}</p>
+      <p className="text-xs text-slate-500">Power {side.power}</p>
+      {casualties.length === 0 ? (
+        <p className="text-xs text-slate-400">No losses</p>
+      ) : (
+        casualties.map(unit => (
+          <div key={`${unit.type}-${unit.level}`} className="flex justify-between text-xs">
+            <span className="text-slate-300">{UNIT_ICONS[unit.type]} {getRankName(unit)}</span>
+            <span className="text-red-400">-{unit.count}/{fielded(unit)}</span>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+export default function ReportsPanel({ reports, more, playerId, faction, onLoad, onReplay }: ReportsPanelProps) {
+  const [mine, setMine] = useState(false);
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const filter = (next: boolean) => {
+    setMine(next);
+    setOpenId(null);
+    onLoad({ mine: next });
+  };
+
+  return (
+    <div className="mt-3 p-4 bg-slate-800 rounded-xl space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-white">Battle Reports</h3>
+        <div className="flex gap-1">
+          {[false, true].map(option => (
+            <button
+              key={String(option)}
+              onClick={() => filter(option)}
+              className={`px-2 py-1 rounded-lg text-xs ${mine === option ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-slate-300'}`}
+            >
+              {option ? 'Mine' : faction}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto space-y-2">
+        {reports.length === 0 && <p className="text-sm text-slate-500">No battles on record yet</p>}
+        {reports.map(report => {
+          const ours = getOurSide(report, playerId, faction);
+          const won = report.winner === ours;
+          const open = openId === report.id;
+
+          return (
+            <div key={report.id} className="p-2 bg-slate-900/60 rounded-lg">
+              <button onClick={() => setOpenId(open ? null : report.id)} className="w-full text-left">
+                <div className="flex justify-between text-sm">
+                  <span className="text-white truncate">{report.attacker.name} vs {report.defender.name}</span>
+                  {ours && (
+                    <span className={won ? 'text-emerald-400' : 'text-red-400'}>{won ? 'Won' : 'Lost'}</span>
+                  )}
+                </div>
+                <p className="text-xs text-slate-500">
+                  {formatAgo(report.endedAt)} • {TERRAIN_LABELS[report.terrain]} • {report.rounds} rounds
+                  {report.retreated && ` • ${report[report.retreated].name} retreated`}
+                  {report.captured && ' • settlement taken'}
+                  {report.loot > 0 && ` • ${report.loot} gold looted`}
+                </p>
+              </button>
+
+              {open && (
+                <div className="mt-2 space-y-2">
+                  <div className="flex gap-3">
+                    <CasualtyList side={report.attacker} />
+                    <CasualtyList side={report.defender} />
+                  </div>
+                  <button
+                    onClick={() => onReplay(report.id)}
+                    className="w-full py-1 rounded-lg text-xs bg-indigo-600 text-white"
+                  >
+                    ▶️ Replay
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {more && (
+          <button
+            onClick={() => onLoad({ mine, before: reports[reports.length - 1].id })}
+            className="w-full py-1 rounded-lg text-xs bg-slate-700 text-slate-300"
+          >
+            Older battles
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
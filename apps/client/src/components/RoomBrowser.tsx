@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { DEFAULT_ROOM_ID, MAX_ROOM_NAME_LENGTH } from '@warband/protocol';
+import type { RoomInfo } from '../types';
+import FactionPicker from './FactionPicker';
+
+interface RoomBrowserProps {
+  username: string;
+  rooms: RoomInfo[];
+  connected: boolean;
+  notice: string | null;
+  factionColors: Record<string, string>;
+  onJoin: (roomId: string, faction?: string) => void;
+  onCreate: (name: string, isPrivate: boolean) => void;
+  onLogOut: () => void;
+}
+
+export default function RoomBrowser({
+  username,
+  rooms,
+  connected,
+  notice,
+  factionColors,
+  onJoin,
+  onCreate,
+  onLogOut,
+}: RoomBrowserProps) {
+  const [roomName, setRoomName] = useState(`${username}'s match`);
+  const [isPrivate, setIsPrivate] = useState(true);
+  const [code, setCode] = useState('');
+  // Room picked to join, while its faction is being chosen
+  const [joiningId, setJoiningId] = useState<string | null>(null);
+
+  if (joiningId) {
+    // Looked up on every render so headcounts stay live while choosing
+    const room = rooms.find(r => r.id === joiningId);
+    return (
+      <div className="w-full max-w-sm space-y-4">
+        <FactionPicker
+          roomName={room?.name ?? joiningId}
+          counts={room?.factions}
+          factionColors={factionColors}
+          onPick={(faction) => onJoin(joiningId, faction)}
+          onBack={() => setJoiningId(null)}
+        />
+        {notice && <p className="text-sm text-red-400 text-center">{notice}</p>}
+      </div>
+    );
+  }
+
+  // The public world first, then the busiest rooms
+  const sorted = [...rooms].sort((a, b) =>
+    Number(b.id === DEFAULT_ROOM_ID) - Number(a.id === DEFAULT_ROOM_ID) || b.players - a.players,
+  );
+
+  return (
+    <div className="w-full max-w-sm space-y-4">
+      <div className="p-4 bg-slate-800 rounded-2xl space-y-2">
+        <p className="text-sm text-slate-400 mb-1">{connected ? 'Rooms' : 'Connecting...'}</p>
+        {sorted.map(room => {
+          const full = room.players >= room.maxPlayers;
+          return (
+            <button
+              key={room.id}
+              disabled={full}
+              onClick={() => setJoiningId(room.id)}
+              className="w-full flex items-center justify-between px-3 py-3 bg-slate-700 rounded-xl text-left active:scale-95 transition-transform disabled:opacity-50"
+            >
+              <span>
+                <span className="block text-white font-medium">
+                  {room.isPrivate ? '🔒' : '🌍'} {room.name}
+                </span>
+                <span className="block text-xs text-slate-400">
+                  {room.owner ? `by ${room.owner}` : 'Public world'}
+                  {room.isPrivate && ` • code ${room.id}`}
+                </span>
+              </span>
+              <span className={`text-sm ${full ? 'text-red-400' : 'text-slate-300'}`}>
+                👥 {room.players}/{room.maxPlayers}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="p-4 bg-slate-800 rounded-2xl space-y-2">
+        <p className="text-sm text-slate-400">Join with an invite code</p>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            placeholder="CODE"
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase())}
+            className="flex-1 min-w-0 px-3 py-2 bg-slate-700 rounded-lg text-white placeholder-slate-500 tracking-widest"
+            maxLength={12}
+          />
+          <button
+            disabled={!code.trim()}
+            onClick={() => setJoiningId(code.trim())}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg disabled:opacity-50"
+          >
+            Join
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 bg-slate-800 rounded-2xl space-y-2">
+        <p className="text-sm text-slate-400">Open a new room</p>
+        <input
+          type="text"
+          value={roomName}
+          onChange={(e) => setRoomName(e.target.value)}
+          className="w-full px-3 py-2 bg-slate-700 rounded-lg text-white placeholder-slate-500"
+          maxLength={MAX_ROOM_NAME_LENGTH}
+        />
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input type="checkbox" checked={isPrivate} onChange={(e) => setIsPrivate(e.target.checked)} />
+          Private (invite code only)
+        </label>
+        <button
+          disabled={!roomName.trim()}
+          onClick={() => onCreate(roomName.trim(), isPrivate)}
+          className="w-full py-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-bold rounded-xl active:scale-95 transition-transform disabled:opacity-50"
+        >
+          🏰 Create Room
+        </button>
+      </div>
+
+      {notice && <p className="text-sm text-red-400 text-center">{notice}</p>}
+
+      <button onClick={onLogOut} className="w-full py-2 text-slate-400 text-sm">
+        Not {username}? Log out
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { getBuyPrice, getSellPrice, GOODS, UNIT_COSTS } from '@warband/protocol';
+import type { Good, Player, Territory, UnitType } from '../types';
+
+const GOOD_ICONS: Record<Good, string> = {
+  grain: '🌾',
+  timber: '🪵',
+  iron: '⛏️',
+  wine: '🍷',
+  furs: '🦊',
+  spices: '🌶️',
+};
+
+// Batch sizes and prices per recruit button
+const RECRUIT_OPTIONS: { type: UnitType; icon: string; count: number; cost: number }[] = [
+  { type: 'infantry', icon: '🗡️', count: 10, cost: UNIT_COSTS.infantry },
+  { type: 'archer', icon: '🏹', count: 5, cost: UNIT_COSTS.archer },
+  { type: 'cavalry', icon: '🐴', count: 3, cost: UNIT_COSTS.cavalry },
+];
+
+const TRADE_BATCH = 5;
+
+interface SettlementPanelProps {
+  territory: Territory;
+  player: Player;
+  canRecruit: boolean;
+  onRecruit: (unitType: UnitType, count: number) => void;
+  onTrade: (good: Good, count: number, action: 'buy' | 'sell') => void;
+}
+
+export default function SettlementPanel({ territory, player, canRecruit, onRecruit, onTrade }: SettlementPanelProps) {
+  const cargo = player.cargo ?? {};
+
+  return (
+    <div className="mt-3 p-4 bg-slate-800 rounded-xl space-y-3">
+      <div>
+        <h3 className="font-bold text-white">{territory.name}</h3>
+        <p className="text-xs text-slate-400 capitalize">
+          {territory.type} • {territory.owner ?? 'Unclaimed'} • produces {GOOD_ICONS[territory.produces]} {territory.produces}
+        </p>
+      </div>
+
+      {canRecruit ? (
+        <div className="flex gap-2">
+          {RECRUIT_OPTIONS.map(({ type, icon, count, cost }) => {
+            const batch = Math.min(count, territory.recruits[type]);
+            return (
+              <button
+                key={type}
+                onClick={() => onRecruit(type, batch)}
+                disabled={batch === 0}
+                className="flex-1 py-2 bg-slate-700 rounded-lg text-sm text-slate-300 disabled:opacity-40"
+              >
+                +{batch} {icon} ({batch * cost}g)
+                <span className="block text-xs text-slate-500">{territory.recruits[type]} willing</span>
+              </button>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-slate-500">Only your faction and its allies can recruit here.</p>
+      )}
+
+      <hr className="border-slate-700" />
+
+      <div className="space-y-1">
+        {GOODS.map(good => {
+          const stock = territory.market[good];
+          const carried = cargo[good] ?? 0;
+          return (
+            <div key={good} className="flex items-center justify-between gap-2 text-sm">
+              <span className="text-slate-300 capitalize flex-1">
+                {GOOD_ICONS[good]} {good}
+                <span className="ml-1 text-xs text-slate-500">{stock} in stock{carried > 0 && ` • ${carried} carried`}</span>
+              </span>
+              <button
+                onClick={() => onTrade(good, Math.min(TRADE_BATCH, stock), 'buy')}
+                disabled={stock === 0}
+                className="px-2 py-1 bg-slate-700 rounded-lg text-xs text-slate-300 disabled:opacity-40"
+              >
+                Buy {getBuyPrice(good, stock)}g
+              </button>
+              <button
+                onClick={() => onTrade(good, carried, 'sell')}
+                disabled={carried === 0}
+                className="px-2 py-1 bg-slate-700 rounded-lg text-xs text-slate-300 disabled:opacity-40"
+              >
+                Sell {getSellPrice(good, stock)}g
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { BUILDING_COSTS, BUILDING_TYPES, getRankName, getTerritoryIncome, MAX_BUILDING_LEVEL } from '@warband/protocol';
+import type { BuildingType, Player, Territory, Unit, UnitType } from '../types';
+
+const BUILDING_INFO: Record<BuildingType, { icon: string; label: string; effect: string }> = {
+  walls: { icon: '🧱', label: 'Walls', effect: 'Garrison takes less damage in sieges' },
+  barracks: { icon: '⛺', label: 'Barracks', effect: 'Larger garrison musters' },
+  market: { icon: '⚖️', label: 'Market', effect: 'Higher income' },
+  watchtower: { icon: '🗼', label: 'Watchtower', effect: 'Sees farther; garrison archers volley harder' },
+};
+
+const UNIT_ICONS: Record<UnitType, string> = {
+  infantry: '🗡️',
+  archer: '🏹',
+  cavalry: '🐴',
+};
+
+// Soldiers moved per station or withdraw tap
+const GARRISON_BATCH = 10;
+
+interface TerritoryPanelProps {
+  territory: Territory;
+  player: Player;
+  // The player's faction holds the settlement and their party is close enough to manage it
+  canManage: boolean;
+  onBuild: (building: BuildingType) => void;
+  onGarrison: (unit: Unit, count: number, action: 'station' | 'withdraw') => void;
+  onMarch: () => void;
+}
+
+export default function TerritoryPanel({ territory, player, canManage, onBuild, onGarrison, onMarch }: TerritoryPanelProps) {
+  const garrisonSize = territory.garrison.reduce((sum, u) => sum + u.count, 0);
+
+  const renderStack = (unit: Unit, action: 'station' | 'withdraw') => {
+    const batch = Math.min(GARRISON_BATCH, unit.count);
+    return (
+      <div key={`${action}-${unit.type}-${unit.level}`} className="flex items-center justify-between gap-2 text-sm">
+        <span className="text-slate-300 flex-1">
+          {UNIT_ICONS[unit.type]} {getRankName(unit)}
+          <span className="ml-1 text-xs text-slate-500">Lv{unit.level}</span>
+        </span>
+        {canManage && (
+          <button
+            onClick={() => onGarrison(unit, batch, action)}
+            className="px-2 py-1 bg-slate-700 rounded-lg text-xs text-slate-300"
+          >
+            {action === 'station' ? `Station ${batch}` : `Withdraw ${batch}`}
+          </button>
+        )}
+        <span className="text-white font-bold">{unit.count}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-3 p-4 bg-slate-800 rounded-xl space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h3 className="font-bold text-white">{territory.name}</h3>
+          <p className="text-xs text-slate-400 capitalize">
+            {territory.type} • {territory.owner ?? 'Unclaimed'} • 💰 {getTerritoryIncome(territory)} income
+          </p>
+        </div>
+        <button onClick={onMarch} className="px-3 py-1 bg-indigo-600 rounded-lg text-xs text-white">
+          🚩 March here
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        {BUILDING_TYPES.map(building => {
+          const { icon, label, effect } = BUILDING_INFO[building];
+          const level = territory.buildings[building];
+          const cost = level < MAX_BUILDING_LEVEL ? BUILDING_COSTS[building][level] : null;
+          return (
+            <div key={building} className="flex items-center justify-between gap-2 text-sm">
+              <span className="text-slate-300 flex-1">
+                {icon} {label} <span className="text-xs text-slate-500">Lv{level}/{MAX_BUILDING_LEVEL}</span>
+                <span className="block text-xs text-slate-500">{effect}</span>
+              </span>
+              {canManage && cost !== null && (
+                <button
+                  onClick={() => onBuild(building)}
+                  disabled={player.gold < cost}
+                  className="px-2 py-1 bg-amber-600 rounded-lg text-xs text-white disabled:opacity-40"
+                >
+                  ⬆️ {cost}g
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <hr className="border-slate-700" />
+
+      <div className="space-y-1">
+        <p className="text-xs text-slate-400">Garrison • {garrisonSize} soldiers</p>
+        {territory.garrison.map(unit => renderStack(unit, 'withdraw'))}
+      </div>
+
+      {canManage && player.army.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-slate-400">Your party</p>
+          {player.army.map(unit => renderStack(unit, 'station'))}
+        </div>
+      )}
+
+      {!canManage && territory.owner === player.faction && (
+        <p className="text-sm text-slate-500">Travel here to build or station troops.</p>
+      )}
+    </div>
+  );
+}
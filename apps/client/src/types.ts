@@ -0,0 +1,83 @@
+import type {
+  BattleSide,
+  BattleView,
+  ChatEntry,
+  DiplomacyProposal,
+  FactionRelation,
+  MapData,
+  PartyView,
+  Player,
+  PublicPlayer,
+  Quest,
+  RoomInfo,
+  Territory,
+} from '@warband/protocol';
+
+export type {
+  BattleEvent,
+  BattleReport,
+  BattleReportSide,
+  BattleReportSummary,
+  BattleResult,
+  BattleSide,
+  BattleStage,
+  BuildingType,
+  ChatChannel,
+  ChatEntry,
+  CompanionId,
+  DiplomacyProposal,
+  DiplomaticStance,
+  EquipmentSlot,
+  FactionRelation,
+  Good,
+  Hero,
+  HeroAttribute,
+  ItemId,
+  MapData,
+  March,
+  PartyView,
+  Player,
+  PlayerChange,
+  Position,
+  PublicPlayer,
+  Quest,
+  RoomInfo,
+  TerrainType,
+  Territory,
+  Unit,
+  UnitType,
+} from '@warband/protocol';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface GameState {
+  connected: boolean;
+  playerId: string | null;
+  // The room we are playing in, as it was when we joined
+  room: RoomInfo | null;
+  player: Player | null;
+  // Only the parties the server says we can see
+  players: PublicPlayer[];
+  territories: Territory[];
+  map: MapData | null;
+  relations: FactionRelation[];
+  // Open proposals our faction is voting on or has been offered
+  proposals: DiplomacyProposal[];
+  messages: ChatMessage[];
+  // The party we march with, and invitations to join others still awaiting our answer
+  party: PartyView | null;
+  partyInvites: { leaderId: string; name: string }[];
+  // Jobs we have taken, and every job the settlements have on offer
+  quests: Quest[];
+  questOffers: Quest[];
+}
+
+// A line in the chat log; notices are the server's replies to our own chat commands
+export type ChatMessage = ChatEntry | { id: string; channel: 'notice'; text: string; time: number };
+
+// The battle we are fighting in, from our side of the field
+export interface ActiveBattle extends BattleView {
+  role: BattleSide;
+}
@@ -0,0 +1,105 @@
+import {
+  ATTACK_RANGE,
+  MAP_SIZE,
+  SETTLEMENT_RANGE,
+  UNIT_COSTS,
+  type ClientMessage,
+  type Position,
+} from '@warband/protocol';
+import type { BotView } from './bot.js';
+
+// ============================================
+// SCRIPTED BEHAVIORS
+// ============================================
+
+// How bots pace themselves. The rules they play by come from the protocol, so bots only give
+// orders a real player could
+const RECRUIT_BATCH = 5;
+const WANDER_RADIUS = 15;
+
+const CHAT_LINES = [
+  'Anyone near the river?',
+  'Bandits on the road north, careful',
+  'Need archers, who is selling?',
+  'Hold the line!',
+  'gg',
+];
+
+// Picks the bot's next order from what it can see, or nothing this time
+export type Behavior = (view: BotView) => ClientMessage | null;
+
+function distance(a: Position, b: Position): number {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+function nearest<T extends { position: Position }>(from: Position, items: T[]): T | undefined {
+  return items.reduce<T | undefined>(
+    (best, item) => (!best || distance(from, item.position) < distance(from, best.position) ? item : best),
+    undefined,
+  );
+}
+
+function moveTo(position: Position): ClientMessage {
+  return { type: 'move', x: position.x, y: position.y };
+}
+
+function wander({ me }: BotView): ClientMessage | null {
+  if (me.march) return null;
+  const clamp = (n: number) => Math.max(0, Math.min(MAP_SIZE, n));
+  return moveTo({
+    x: clamp(me.position.x + (Math.random() * 2 - 1) * WANDER_RADIUS),
+    y: clamp(me.position.y + (Math.random() * 2 - 1) * WANDER_RADIUS),
+  });
+}
+
+// Marches to the nearest settlement of its own faction and hires infantry while the purse allows
+function recruit(view: BotView): ClientMessage | null {
+  const { me } = view;
+  const home = nearest(me.position, view.territories.filter(t => t.owner === me.faction));
+  if (!home || me.gold < UNIT_COSTS.infantry * RECRUIT_BATCH) return wander(view);
+
+  if (distance(me.position, home.position) < SETTLEMENT_RANGE) {
+    return home.recruits.infantry >= RECRUIT_BATCH ? { type: 'recruit', unitType: 'infantry', count: RECRUIT_BATCH } : null;
+  }
+  return me.march ? null : moveTo(home.position);
+}
+
+// Hunts the nearest party of another faction that isn't already fighting
+function raid(view: BotView): ClientMessage | null {
+  const { me } = view;
+  if (me.army.length === 0) return recruit(view);
+
+  const prey = nearest(
+    me.position,
+    Array.from(view.players.values()).filter(p => p.faction !== me.faction && !p.battleId),
+  );
+  if (!prey) return wander(view);
+
+  if (distance(me.position, prey.position) < ATTACK_RANGE) return { type: 'attack', targetId: prey.id };
+  return moveTo(prey.position);
+}
+
+function chat(view: BotView): ClientMessage | null {
+  if (Math.random() < 0.5) return wander(view);
+  return {
+    type: 'chat',
+    text: CHAT_LINES[Math.floor(Math.random() * CHAT_LINES.length)],
+    channel: Math.random() < 0.5 ? 'global' : 'faction',
+  };
+}
+
+// Parties locked in battle can only wait for it to end
+function outsideBattle(behavior: Behavior): Behavior {
+  return view => (view.me.battleId ? null : behavior(view));
+}
+
+export const BEHAVIORS = {
+  wanderer: outsideBattle(wander),
+  recruiter: outsideBattle(recruit),
+  raider: outsideBattle(raid),
+  chatter: outsideBattle(chat),
+} satisfies Record<string, Behavior>;
+
+export type BehaviorName = keyof typeof BEHAVIORS;
@@ -0,0 +1,222 @@
+import { performance } from 'perf_hooks';
+import WebSocket from 'ws';
+import {
+  PROTOCOL_VERSION,
+  type AuthResponse,
+  type ClientMessage,
+  type Player,
+  type PublicPlayer,
+  type ServerMessage,
+  type Territory,
+} from '@warband/protocol';
+import type { Behavior } from './behaviors.js';
+import { createBotStats, recordIncoming } from './stats.js';
+
+// ============================================
+// BOT CLIENT
+// ============================================
+
+// What a bot knows of the world, kept up to date from the same messages a real client gets
+export interface BotView {
+  me: Player;
+  players: Map<string, PublicPlayer>;
+  territories: Territory[];
+}
+
+export interface BotOptions {
+  // WebSocket address of the game server; its HTTP login lives on the same host and port
+  serverUrl: string;
+  username: string;
+  password: string;
+  roomId?: string;
+  behavior: Behavior;
+  thinkMs: number;
+  pingMs: number;
+}
+
+export function createBot(options: BotOptions) {
+  const stats = createBotStats();
+  const pings = new Map<number, number>();
+  const timers: ReturnType<typeof setInterval>[] = [];
+  let ws: WebSocket | undefined;
+  let view: BotView | undefined;
+  let nextPingId = 1;
+  let stopped = false;
+
+  // Registers the account on first use and logs in to it after that
+  async function getToken(): Promise<string> {
+    const base = options.serverUrl.replace(/^ws/, 'http');
+    const body = JSON.stringify({ username: options.username, password: options.password });
+    const post = (path: string) => fetch(`${base}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+    });
+
+    let res = await post('/api/register');
+    if (res.status === 409) res = await post('/api/login');
+    const auth = await res.json() as AuthResponse;
+    if (!auth.ok) throw new Error(auth.error);
+    return auth.token;
+  }
+
+  function send(message: ClientMessage) {
+    if (ws?.readyState !== WebSocket.OPEN) return;
+    const data = JSON.stringify(message);
+    ws.send(data);
+    stats.messagesOut++;
+    stats.bytesOut += Buffer.byteLength(data);
+  }
+
+  function think() {
+    if (!view) return;
+    const action = options.behavior(view);
+    if (action) send(action);
+  }
+
+  function ping() {
+    const id = nextPingId++;
+    pings.set(id, performance.now());
+    send({ type: 'ping', id });
+  }
+
+  // Stagger bots so they don't all act on the same beat
+  function every(ms: number, fn: () => void) {
+    const offset = setTimeout(() => timers.push(setInterval(fn, ms)), Math.random() * ms);
+    timers.push(offset);
+  }
+
+  function updateView(message: ServerMessage) {
+    if (!view) return;
+    const { me, players } = view;
+
+    switch (message.type) {
+      case 'players_delta':
+        message.added.forEach(p => players.set(p.id, p));
+        message.changed.forEach(change => {
+          [players.get(change.id), change.id === me.id ? me : undefined].forEach(target => {
+            if (!target) return;
+            Object.entries(change).forEach(([key, value]) => {
+              if (value === null) delete (target as unknown as Record<string, unknown>)[key];
+              else (target as unknown as Record<string, unknown>)[key] = value;
+            });
+          });
+        });
+        message.removed.forEach(id => players.delete(id));
+        break;
+      case 'player_moved':
+      case 'player_march': {
+        const march = message.type === 'player_march' ? message.march ?? undefined : undefined;
+        [players.get(message.playerId), message.playerId === me.id ? me : undefined].forEach(target => {
+          if (!target) return;
+          target.position = message.position;
+          target.march = march;
+        });
+        break;
+      }
+      case 'player_left':
+        players.delete(message.playerId);
+        break;
+      case 'recruited':
+      case 'upgraded':
+      case 'traded':
+      case 'built':
+      case 'garrisoned':
+      case 'defected':
+        view.me = message.player;
+        break;
+      case 'gold_update':
+        me.gold = message.gold;
+        break;
+      case 'territories':
+        view.territories = message.territories;
+        break;
+      case 'territory_updated':
+        view.territories = view.territories.map(t => (t.id === message.territory.id ? message.territory : t));
+        break;
+      case 'battle_update':
+        me.battleId = message.battle.id;
+        break;
+      case 'battle_result':
+        me.battleId = undefined;
+        break;
+    }
+  }
+
+  // Resolves once the bot is playing, or has given up trying; `stats.joinError` says why
+  function start(): Promise<void> {
+    return new Promise(resolve => {
+      getToken().then(token => {
+        ws = new WebSocket(options.serverUrl);
+
+        ws.on('open', () => {
+          send({ type: 'join', protocolVersion: PROTOCOL_VERSION, token, roomId: options.roomId });
+        });
+
+        ws.on('message', (data) => {
+          const text = data.toString();
+          const message = JSON.parse(text) as ServerMessage;
+          recordIncoming(stats, message.type, Buffer.byteLength(text));
+
+          if (message.type === 'init') {
+            view = {
+              me: message.player,
+              players: new Map(message.players.map(p => [p.id, p])),
+              territories: message.territories,
+            };
+            stats.joined = true;
+            every(options.thinkMs, think);
+            every(options.pingMs, ping);
+            resolve();
+          } else if (message.type === 'pong') {
+            const sentAt = pings.get(message.id);
+            pings.delete(message.id);
+            if (sentAt !== undefined) stats.latencies.push(performance.now() - sentAt);
+            stats.firstPong ??= { tick: message.tick, time: message.time };
+            stats.lastPong = { tick: message.tick, time: message.time };
+          } else if (message.type === 'error') {
+            if (!stats.joined) {
+              stats.joinError = message.message;
+              stop();
+              resolve();
+            } else {
+              stats.errors.set(message.message, (stats.errors.get(message.message) ?? 0) + 1);
+            }
+          } else {
+            updateView(message);
+          }
+        });
+
+        ws.on('close', (code) => {
+          if (!stats.joined) {
+            stats.joinError ??= `connection closed (${code})`;
+            resolve();
+          } else if (!stopped) {
+            // Kicked, or the server went away
+            const reason = `disconnected (${code})`;
+            stats.errors.set(reason, (stats.errors.get(reason) ?? 0) + 1);
+            stop();
+          }
+        });
+
+        ws.on('error', (e) => {
+          if (!stats.joined) stats.joinError ??= e.message;
+        });
+      }).catch((e: Error) => {
+        stats.joinError = `login failed: ${e.message}`;
+        resolve();
+      });
+    });
+  }
+
+  function stop() {
+    stopped = true;
+    timers.forEach(timer => clearInterval(timer));
+    timers.length = 0;
+    if (ws && ws.readyState !== WebSocket.CLOSED) ws.close(1000);
+  }
+
+  return { stats, start, stop };
+}
+
+export type Bot = ReturnType<typeof createBot>;
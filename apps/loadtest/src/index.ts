@@ -0,0 +1,142 @@
+import { parseArgs } from 'util';
+import { DEFAULT_ROOM_ID } from '@warband/protocol';
+import { BEHAVIORS, type BehaviorName } from './behaviors.js';
+import { createBot, type Bot } from './bot.js';
+import { formatReport, percentile } from './stats.js';
+
+// ============================================
+// LOAD TEST
+// ============================================
+
+const USAGE = `Usage: pnpm --filter loadtest start [options]
+
+  --url <ws url>       server to load (default ws://localhost:3001)
+  --bots <n>           simulated players (default 20)
+  --duration <s>       how long to run once every bot is in (default 60)
+  --ramp <ms>          pause between bots connecting (default 100)
+  --room <id>          room to join; repeat to spread bots across rooms (default the public world)
+  --behaviors <list>   comma-separated mix, handed out in turn (default ${Object.keys(BEHAVIORS).join(',')})
+  --think <ms>         how often each bot gives an order (default 2000)
+  --ping <ms>          how often each bot pings (default 1000)
+  --prefix <name>      bot account names are <prefix>_<n> (default bot)
+  --password <pw>      password for the bot accounts (default loadtest-password)
+
+Each room holds a limited number of players, so loading past that needs several rooms.`;
+
+const PROGRESS_INTERVAL_MS = 5000;
+
+const { values } = parseArgs({
+  options: {
+    url: { type: 'string', default: 'ws://localhost:3001' },
+    bots: { type: 'string', default: '20' },
+    duration: { type: 'string', default: '60' },
+    ramp: { type: 'string', default: '100' },
+    room: { type: 'string', multiple: true, default: [DEFAULT_ROOM_ID] },
+    behaviors: { type: 'string', default: Object.keys(BEHAVIORS).join(',') },
+    think: { type: 'string', default: '2000' },
+    ping: { type: 'string', default: '1000' },
+    prefix: { type: 'string', default: 'bot' },
+    password: { type: 'string', default: 'loadtest-password' },
+    help: { type: 'boolean', default: false },
+  },
+});
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function numberOption(name: string, value: string): number {
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0) fail(`--${name} must be a non-negative number`);
+  return n;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// ============================================
+// RUN
+// ============================================
+
+async function run() {
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const botCount = numberOption('bots', values.bots);
+  const durationMs = numberOption('duration', values.duration) * 1000;
+  const rampMs = numberOption('ramp', values.ramp);
+  const thinkMs = numberOption('think', values.think);
+  const pingMs = numberOption('ping', values.ping);
+  const behaviors = values.behaviors.split(',').map(b => b.trim()) as BehaviorName[];
+  const unknown = behaviors.find(b => !Object.hasOwn(BEHAVIORS, b));
+  if (unknown) fail(`Unknown behavior "${unknown}"`);
+
+  const bots: Bot[] = [];
+  const startedAt = Date.now();
+  let lastProgress = { at: startedAt, messagesIn: 0, messagesOut: 0, bytesIn: 0, pings: [] as number[] };
+
+  // Totals since the previous line, so a server that starts to struggle shows up as it happens
+  const progress = setInterval(() => {
+    const all = bots.map(b => b.stats);
+    const now = Date.now();
+    const seconds = (now - lastProgress.at) / 1000;
+    const total = (pick: (s: Bot['stats']) => number) => all.reduce((sum, s) => sum + pick(s), 0);
+    const current = {
+      at: now,
+      messagesIn: total(s => s.messagesIn),
+      messagesOut: total(s => s.messagesOut),
+      bytesIn: total(s => s.bytesIn),
+      pings: all.map(s => s.latencies.length),
+    };
+    const recent = all.flatMap((s, i) => s.latencies.slice(lastProgress.pings[i] ?? 0));
+
+    console.log(
+      `[${Math.round((now - startedAt) / 1000)}s] ${all.filter(s => s.joined).length}/${botCount} in  `
+      + `in ${Math.round((current.messagesIn - lastProgress.messagesIn) / seconds)} msg/s  `
+      + `out ${Math.round((current.messagesOut - lastProgress.messagesOut) / seconds)} msg/s  `
+      + `${((current.bytesIn - lastProgress.bytesIn) / seconds / 1024).toFixed(1)} KB/s  `
+      + `ping p50 ${percentile(recent, 50).toFixed(1)}ms p99 ${percentile(recent, 99).toFixed(1)}ms`,
+    );
+    lastProgress = current;
+  }, PROGRESS_INTERVAL_MS);
+
+  const finish = () => {
+    clearInterval(progress);
+    bots.forEach(bot => bot.stop());
+    console.log(`\n${formatReport(bots.map(b => b.stats), Date.now() - startedAt)}`);
+  };
+  process.once('SIGINT', () => {
+    finish();
+    process.exit(0);
+  });
+
+  console.log(`Connecting ${botCount} bots to ${values.url}...`);
+  const joins: Promise<void>[] = [];
+  for (let i = 0; i < botCount; i++) {
+    const bot = createBot({
+      serverUrl: values.url,
+      username: `${values.prefix}_${i + 1}`,
+      password: values.password,
+      roomId: values.room[i % values.room.length],
+      behavior: BEHAVIORS[behaviors[i % behaviors.length]],
+      thinkMs,
+      pingMs,
+    });
+    bots.push(bot);
+    joins.push(bot.start());
+    await sleep(rampMs);
+  }
+  await Promise.all(joins);
+
+  await sleep(durationMs);
+  finish();
+}
+
+run().catch(e => {
+  console.error('Load test failed:', e);
+  process.exit(1);
+});
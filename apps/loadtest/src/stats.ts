@@ -0,0 +1,143 @@
+import { TICK_MS } from '@warband/protocol';
+
+// ============================================
+// MEASUREMENTS
+// ============================================
+
+// What one bot saw of the server. "In" is what the server sent the bot, "out" what the bot sent.
+export interface BotStats {
+  joined: boolean;
+  joinError?: string;
+  messagesIn: number;
+  messagesOut: number;
+  bytesIn: number;
+  bytesOut: number;
+  // Count and bytes received, by server message type
+  byType: Map<string, { count: number; bytes: number }>;
+  // Server errors received, by message
+  errors: Map<string, number>;
+  // Ping round trips, in milliseconds
+  latencies: number[];
+  // First and latest pong, for working out how many ticks the room ran in the time between
+  firstPong?: { tick: number; time: number };
+  lastPong?: { tick: number; time: number };
+}
+
+export function createBotStats(): BotStats {
+  return {
+    joined: false,
+    messagesIn: 0,
+    messagesOut: 0,
+    bytesIn: 0,
+    bytesOut: 0,
+    byType: new Map(),
+    errors: new Map(),
+    latencies: [],
+  };
+}
+
+export function recordIncoming(stats: BotStats, type: string, bytes: number) {
+  stats.messagesIn++;
+  stats.bytesIn += bytes;
+  const entry = stats.byType.get(type) ?? { count: 0, bytes: 0 };
+  entry.count++;
+  entry.bytes += bytes;
+  stats.byType.set(type, entry);
+}
+
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+// How far the room's loop fell behind its interval, judged by the server's own clock:
+// positive means fewer ticks ran than the elapsed time called for
+export function getTickDrift(stats: BotStats): { elapsedMs: number; ticks: number; driftMs: number } | null {
+  const { firstPong, lastPong } = stats;
+  if (!firstPong || !lastPong || lastPong.time === firstPong.time) return null;
+
+  const elapsedMs = lastPong.time - firstPong.time;
+  const ticks = lastPong.tick - firstPong.tick;
+  return { elapsedMs, ticks, driftMs: elapsedMs - ticks * TICK_MS };
+}
+
+// ============================================
+// REPORT
+// ============================================
+
+function format(value: number, digits = 1): string {
+  return Number.isFinite(value) ? value.toFixed(digits) : '-';
+}
+
+function kilobytes(bytes: number): string {
+  return `${format(bytes / 1024)} KB`;
+}
+
+function distribution(values: number[], unit: string): string {
+  return ['p50', 'p90', 'p99'].map(p => `${p} ${format(percentile(values, Number(p.slice(1))))}${unit}`)
+    .concat(`max ${format(Math.max(...values))}${unit}`)
+    .join('  ');
+}
+
+export function formatReport(all: BotStats[], durationMs: number): string {
+  const seconds = durationMs / 1000;
+  const joined = all.filter(s => s.joined);
+  const sum = (pick: (s: BotStats) => number) => all.reduce((total, s) => total + pick(s), 0);
+  const lines: string[] = [];
+
+  lines.push(`Bots:        ${joined.length}/${all.length} joined, ran ${format(seconds)}s`);
+  const joinErrors = new Map<string, number>();
+  all.forEach(s => {
+    if (s.joinError) joinErrors.set(s.joinError, (joinErrors.get(s.joinError) ?? 0) + 1);
+  });
+  joinErrors.forEach((count, error) => lines.push(`             ${count} × ${error}`));
+
+  lines.push(`Throughput:  ${format(sum(s => s.messagesIn) / seconds)} msg/s from the server, `
+    + `${format(sum(s => s.messagesOut) / seconds)} msg/s to it`);
+
+  if (joined.length > 0) {
+    const perClient = joined.map(s => s.bytesIn);
+    lines.push(`Outbound:    ${kilobytes(sum(s => s.bytesIn) / seconds)}/s in total, per client `
+      + `avg ${kilobytes(perClient.reduce((a, b) => a + b, 0) / perClient.length / seconds)}/s, `
+      + `max ${kilobytes(Math.max(...perClient) / seconds)}/s`);
+  }
+
+  const latencies = all.flatMap(s => s.latencies);
+  lines.push(latencies.length > 0
+    ? `Latency:     ${distribution(latencies, 'ms')} (${latencies.length} pings)`
+    : 'Latency:     no pongs received');
+
+  // Bots in the same room share a loop; the worst one is the room that is struggling most
+  const drifts = joined.map(getTickDrift).filter(d => d !== null);
+  if (drifts.length > 0) {
+    const worst = drifts.reduce((a, b) => (b.driftMs / b.elapsedMs > a.driftMs / a.elapsedMs ? b : a));
+    lines.push(`Tick drift:  ${format(worst.driftMs, 0)}ms behind over ${format(worst.elapsedMs / 1000)}s `
+      + `(${worst.ticks} ticks run, ${format(worst.elapsedMs / TICK_MS)} expected at ${TICK_MS}ms)`);
+  }
+
+  const byType = new Map<string, { count: number; bytes: number }>();
+  all.forEach(s => s.byType.forEach((entry, type) => {
+    const total = byType.get(type) ?? { count: 0, bytes: 0 };
+    total.count += entry.count;
+    total.bytes += entry.bytes;
+    byType.set(type, total);
+  }));
+  lines.push('By type:');
+  Array.from(byType.entries())
+    .sort((a, b) => b[1].bytes - a[1].bytes)
+    .forEach(([type, entry]) => {
+      lines.push(`  ${type.padEnd(18)} ${String(entry.count).padStart(8)} msgs  ${kilobytes(entry.bytes).padStart(12)}`);
+    });
+
+  const errors = new Map<string, number>();
+  all.forEach(s => s.errors.forEach((count, message) => errors.set(message, (errors.get(message) ?? 0) + count)));
+  if (errors.size > 0) {
+    lines.push('Errors:');
+    Array.from(errors.entries())
+      .sort((a, b) => b[1] - a[1])
+      .forEach(([message, count]) => lines.push(`  ${String(count).padStart(6)} × ${message}`));
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,62 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+
+// ============================================
+// ACCOUNTS
+// ============================================
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+export interface Account {
+  // Also the id of the account's party in the world
+  id: string;
+  username: string;
+  // scrypt output and its salt, both base64
+  passwordHash: string;
+  salt: string;
+  createdAt: number;
+}
+
+// Accounts are kept apart from the world save, so wiping the world never loses logins
+export interface AccountStore {
+  load(): Promise<Account[]>;
+  save(accounts: Account[]): Promise<void>;
+}
+
+export function createJsonAccountStore(filePath: string): AccountStore {
+  return {
+    async load() {
+      try {
+        return JSON.parse(await fs.readFile(filePath, 'utf8')) as Account[];
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw e;
+      }
+    },
+
+    async save(accounts) {
+      // Same temp-file-then-rename dance as the world save
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const tmpPath = `${filePath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(accounts));
+      await fs.rename(tmpPath, filePath);
+    },
+  };
+}
+
+export async function hashPassword(password: string): Promise<Pick<Account, 'passwordHash' | 'salt'>> {
+  const salt = randomBytes(SALT_LENGTH);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return { passwordHash: hash.toString('base64'), salt: salt.toString('base64') };
+}
+
+export async function verifyPassword(password: string, account: Account): Promise<boolean> {
+  const expected = Buffer.from(account.passwordHash, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(account.salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
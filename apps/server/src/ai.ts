@@ -0,0 +1,231 @@
+import { v4 as uuid } from 'uuid';
+import {
+  ATTACK_RANGE,
+  getPromotableCount,
+  isAtWar,
+  SETTLEMENT_RANGE,
+  UNIT_COSTS,
+  UPGRADE_COST,
+  type ClientMessageOf,
+} from '@warband/protocol';
+import { getArmyPower } from './battle.js';
+import {
+  BANDIT_ARMY,
+  BANDIT_COLOR,
+  BANDIT_FACTION,
+  LORD_ARMY,
+  NPC_CAMPAIGN_RANGE,
+  NPC_CAMPAIGN_REST_TICKS,
+  NPC_SIGHT_RANGE,
+} from './constants.js';
+import { getBattleSides, isUnderSiege } from './engine.js';
+import { clampToMap, distance, findPassablePosition } from './movement.js';
+import type { Rng } from './rng.js';
+import type { GameState, NpcKind, Player, Position, Territory, Unit } from './types.js';
+
+// ============================================
+// NPC AI
+// ============================================
+
+// NPCs act through the same messages a human client would send, so every rule applies to them too
+export type NpcAction = ClientMessageOf<'move' | 'recruit' | 'upgrade' | 'attack' | 'retreat'>;
+
+const LORD_NAMES = [
+  'Count Haringoth', 'Boyar Vlan', 'Noyan Tolui', 'Jarl Aedin', 'Count Falsevor', 'Emir Atis',
+  'Count Delinard', 'Boyar Meriga', 'Noyan Kasar', 'Jarl Turya', 'Count Rimusk', 'Emir Hamezan',
+];
+
+const BANDIT_NAMES = ['Forest Bandits', 'Mountain Bandits', 'Steppe Raiders', 'Sea Raiders', 'Deserters', 'Looters'];
+
+// Power ratios that make a party run, pick a fight or give up a losing battle
+const FLEE_RATIO = 1.2;
+const PREY_RATIO = 0.8;
+const RETREAT_RATIO = 0.5;
+// How much stronger than a garrison a lord wants to be before besieging it
+const SIEGE_RATIO = 1.5;
+// Lords top their army back up with infantry below this share of full strength
+const RECRUIT_THRESHOLD = 0.7;
+
+const FULL_LORD_POWER = getArmyPower(LORD_ARMY);
+
+export function musterArmy(kind: NpcKind): Unit[] {
+  return (kind === 'lord' ? LORD_ARMY : BANDIT_ARMY).map(u => ({ ...u }));
+}
+
+export function createLord(faction: string, color: string, home: Territory, index: number): Player {
+  return {
+    id: `npc_${uuid()}`,
+    name: LORD_NAMES[index % LORD_NAMES.length],
+    faction,
+    position: { ...home.position },
+    gold: 500,
+    army: musterArmy('lord'),
+    color,
+    npc: 'lord',
+    ai: { goal: { type: 'patrol' }, homeId: home.id },
+  };
+}
+
+export function createBandit(position: Position, index: number): Player {
+  return {
+    id: `npc_${uuid()}`,
+    name: BANDIT_NAMES[index % BANDIT_NAMES.length],
+    faction: BANDIT_FACTION,
+    position,
+    gold: 200,
+    army: musterArmy('bandit'),
+    color: BANDIT_COLOR,
+    npc: 'bandit',
+    ai: { goal: { type: 'patrol' } },
+  };
+}
+
+// Where a routed NPC party reappears: a lord at a settlement their faction still holds, bandits anywhere
+export function findRallyPoint(npc: Player, state: GameState, rng: Rng): Position {
+  if (npc.npc === 'lord') {
+    const owned = state.territories.filter(t => t.owner === npc.faction);
+    const home = owned.find(t => t.id === npc.ai?.homeId) ?? owned[0];
+    if (home) return { ...home.position };
+  }
+  return findPassablePosition(state.map, { x: 50, y: 50 }, 40, rng) ?? { ...npc.position };
+}
+
+// Offline players' parties are left alone; only someone who can respond is worth hunting
+function isVisibleEnemy(npc: Player, other: Player, state: GameState): boolean {
+  return other.id !== npc.id
+    && isAtWar(state.diplomacy.relations, npc.faction, other.faction)
+    && other.army.length > 0
+    && (!!other.ws || !!other.npc)
+    && distance(npc.position, other.position) <= NPC_SIGHT_RANGE;
+}
+
+function marchTo(npc: Player, target: Position): NpcAction | null {
+  // Keep the current march if it already heads close enough to the target
+  if (npc.march && distance(npc.march.destination, target) < ATTACK_RANGE / 2) return null;
+  return { type: 'move', x: target.x, y: target.y };
+}
+
+function approach(npc: Player, target: Position, attack: NpcAction): NpcAction | null {
+  return distance(npc.position, target) <= ATTACK_RANGE ? attack : marchTo(npc, target);
+}
+
+function decideInBattle(npc: Player, state: GameState): NpcAction | null {
+  const battle = state.battles.get(npc.battleId!);
+  if (!battle || battle.phase !== 'fighting') return null;
+
+  // Sides fight as one, so it is the whole side's strength that counts
+  const sides = getBattleSides(state, battle);
+  const [ours, theirs] = battle.members.attacker.includes(npc.id)
+    ? [sides.attackerArmy, sides.defenderArmy]
+    : [sides.defenderArmy, sides.attackerArmy];
+
+  return getArmyPower(ours) < getArmyPower(theirs) * RETREAT_RATIO ? { type: 'retreat' } : null;
+}
+
+function decideLordCampaign(npc: Player, state: GameState, power: number): NpcAction | null {
+  const brain = npc.ai!;
+
+  // Promote veterans whenever the war chest allows
+  for (const unit of npc.army) {
+    const ready = getPromotableCount(unit);
+    if (ready === 0) continue;
+    const count = Math.min(ready, Math.floor(npc.gold / UPGRADE_COST[unit.type][unit.level - 1]));
+    if (count > 0) return { type: 'upgrade', unitType: unit.type, level: unit.level, count };
+  }
+
+  // Reinforce whenever passing through one of the faction's own settlements
+  const town = state.territories.find(t => t.owner === npc.faction && distance(npc.position, t.position) <= SETTLEMENT_RANGE);
+  if (town && power < FULL_LORD_POWER * RECRUIT_THRESHOLD) {
+    const count = Math.min(Math.floor(npc.gold / UNIT_COSTS.infantry), town.recruits.infantry, 20);
+    if (count > 0) return { type: 'recruit', unitType: 'infantry', count };
+  }
+
+  // Stick with a siege target while it is still worth taking
+  const goal = brain.goal;
+  const current = goal.type === 'siege' ? state.territories.find(t => t.id === goal.territoryId) : undefined;
+  if (current?.owner === npc.faction) {
+    // Taken: hold it for a while before riding out again
+    brain.goal = { type: 'patrol', territoryId: current.id };
+    brain.restUntilTick = state.tick + NPC_CAMPAIGN_REST_TICKS;
+    return null;
+  }
+  if (state.tick < (brain.restUntilTick ?? 0)) return null;
+
+  const home = state.territories.find(t => t.id === brain.homeId);
+  const isTarget = (t: Territory) => t.type === 'village'
+    && (!t.owner || isAtWar(state.diplomacy.relations, npc.faction, t.owner))
+    && !isUnderSiege(state, t)
+    && getArmyPower(t.garrison) * SIEGE_RATIO < power
+    && distance(home?.position ?? npc.position, t.position) <= NPC_CAMPAIGN_RANGE;
+
+  const target = current && isTarget(current)
+    ? current
+    : state.territories
+      .filter(isTarget)
+      .sort((a, b) => distance(npc.position, a.position) - distance(npc.position, b.position))[0];
+
+  if (target) {
+    brain.goal = { type: 'siege', territoryId: target.id };
+    return approach(npc, target.position, { type: 'attack', territoryId: target.id });
+  }
+
+  if (goal.type === 'siege') brain.goal = { type: 'patrol' };
+  return null;
+}
+
+function decidePatrol(npc: Player, state: GameState, rng: Rng): NpcAction | null {
+  if (npc.march) return null;
+
+  const owned = state.territories.filter(t => t.owner === npc.faction);
+  if (npc.npc === 'lord' && owned.length > 0) {
+    const territory = owned[Math.floor(rng() * owned.length)];
+    npc.ai!.goal = { type: 'patrol', territoryId: territory.id };
+    const stop = findPassablePosition(state.map, territory.position, ATTACK_RANGE, rng);
+    return stop ? { type: 'move', x: stop.x, y: stop.y } : null;
+  }
+
+  // Bandits and landless lords roam the countryside
+  npc.ai!.goal = { type: 'patrol' };
+  const stop = findPassablePosition(state.map, npc.position, 20, rng);
+  return stop ? { type: 'move', x: stop.x, y: stop.y } : null;
+}
+
+/**
+ * Picks the next action for an NPC party: give up hopeless battles, run from stronger
+ * enemies, hunt weaker ones, then (lords only) promote, reinforce and besiege villages, else patrol.
+ */
+export function decideNpcAction(npc: Player, state: GameState, rng: Rng): NpcAction | null {
+  if (!npc.ai || npc.army.length === 0) return null;
+  if (npc.battleId) return decideInBattle(npc, state);
+
+  const power = getArmyPower(npc.army);
+  const enemies = Array.from(state.players.values())
+    .filter(other => isVisibleEnemy(npc, other, state))
+    .sort((a, b) => distance(npc.position, a.position) - distance(npc.position, b.position));
+
+  const threat = enemies.find(e => getArmyPower(e.army) > power * FLEE_RATIO);
+  if (threat) {
+    if (npc.ai.goal.type === 'flee' && npc.march) return null;
+    npc.ai.goal = { type: 'flee' };
+    const away = npc.npc === 'lord'
+      ? findRallyPoint(npc, state, rng)
+      : clampToMap({
+        x: npc.position.x + (npc.position.x - threat.position.x) * 2,
+        y: npc.position.y + (npc.position.y - threat.position.y) * 2,
+      });
+    return { type: 'move', x: away.x, y: away.y };
+  }
+
+  const prey = enemies.find(e => !e.battleId && getArmyPower(e.army) < power * PREY_RATIO);
+  if (prey) {
+    npc.ai.goal = { type: 'chase', targetId: prey.id };
+    return approach(npc, prey.position, { type: 'attack', targetId: prey.id });
+  }
+
+  if (npc.npc === 'lord') {
+    const campaign = decideLordCampaign(npc, state, power);
+    if (campaign || npc.ai.goal.type === 'siege') return campaign;
+  }
+
+  return decidePatrol(npc, state, rng);
+}
@@ -0,0 +1,72 @@
+import { getHeroXpToLevel, MAX_UNIT_LEVEL, PROMOTION_XP } from '@warband/protocol';
+import { pruneArmy } from './battle.js';
+import { BATTLE_WIN_XP_MULTIPLIER, HERO_XP_PER_KILL, XP_PER_KILL } from './constants.js';
+import type { Hero, Unit, UnitType } from './types.js';
+
+// ============================================
+// ARMY MANAGEMENT
+// ============================================
+
+// Adds soldiers to the stack of that type and rank, opening a new stack if there is none
+export function addUnits(army: Unit[], type: UnitType, level: number, count: number) {
+  const stack = army.find(u => u.type === type && u.level === level);
+  if (stack) {
+    stack.count += count;
+  } else {
+    army.push({ type, count, level, xp: 0 });
+  }
+}
+
+// Most experience a stack can bank: enough to promote every soldier in it once
+function xpCap(unit: Unit): number {
+  return unit.level >= MAX_UNIT_LEVEL ? 0 : unit.count * PROMOTION_XP[unit.level - 1];
+}
+
+// Shares experience for a battle's kills among the survivors, weighted by stack size
+export function grantExperience(army: Unit[], kills: number, won: boolean) {
+  const survivors = army.reduce((sum, u) => sum + u.count, 0);
+  if (survivors === 0 || kills === 0) return;
+
+  const total = kills * XP_PER_KILL * (won ? BATTLE_WIN_XP_MULTIPLIER : 1);
+  army.forEach(unit => {
+    const gained = Math.round(total * (unit.count / survivors));
+    unit.xp = Math.min(xpCap(unit), (unit.xp ?? 0) + gained);
+  });
+}
+
+// The hero learns from the kills credited to them too
+export function grantHeroExperience(hero: Hero, kills: number, won: boolean): number {
+  return addHeroExperience(hero, Math.round(kills * HERO_XP_PER_KILL * (won ? BATTLE_WIN_XP_MULTIPLIER : 1)));
+}
+
+// Levels the hero up as often as the experience allows; returns how many levels they gained
+export function addHeroExperience(hero: Hero, xp: number): number {
+  hero.xp += xp;
+  let levels = 0;
+  while (hero.xp >= getHeroXpToLevel(hero.level)) {
+    hero.xp -= getHeroXpToLevel(hero.level);
+    hero.level++;
+    hero.points++;
+    levels++;
+  }
+  return levels;
+}
+
+// Moves `count` soldiers up one rank, spending the experience they earned
+export function promoteUnits(army: Unit[], stack: Unit, count: number) {
+  stack.count -= count;
+  stack.xp = Math.max(0, (stack.xp ?? 0) - count * PROMOTION_XP[stack.level - 1]);
+  addUnits(army, stack.type, stack.level + 1, count);
+  pruneArmy(army);
+}
+
+// Moves soldiers from one army to another, carrying their share of the stack's experience
+export function transferUnits(from: Unit[], to: Unit[], stack: Unit, count: number) {
+  const xp = Math.round((stack.xp ?? 0) * (count / stack.count));
+  stack.count -= count;
+  stack.xp = (stack.xp ?? 0) - xp;
+  addUnits(to, stack.type, stack.level, count);
+  const target = to.find(u => u.type === stack.type && u.level === stack.level)!;
+  target.xp = (target.xp ?? 0) + xp;
+  pruneArmy(from);
+}
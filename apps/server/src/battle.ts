@@ -0,0 +1,159 @@
+import { BUILDING_EFFECTS, getCommandBonus, UNIT_TYPES } from '@warband/protocol';
+import { TERRAIN_BATTLE, UNIT_STATS } from './constants.js';
+import type { Rng } from './rng.js';
+import type { BattleSide, BattleStage, BuildingType, Hero, TerrainType, Unit, UnitType } from './types.js';
+
+// ============================================
+// BATTLE SIMULATION
+// ============================================
+
+export const BATTLE_STAGES: BattleStage[] = ['volley', 'charge', 'melee'];
+
+const STAGE_UNITS: Record<BattleStage, UnitType> = {
+  volley: 'archer',
+  charge: 'cavalry',
+  melee: 'infantry',
+};
+
+// Damage needed to drop one soldier, per point of defense
+const TOUGHNESS = 3;
+
+// A hero's tactics and gear make the same troops count for more
+export function getArmyPower(army: Unit[], hero?: Hero): number {
+  const power = army.reduce((total, unit) => {
+    const stats = UNIT_STATS[unit.type];
+    return total + (stats.attack + stats.defense) * unit.count * unit.level;
+  }, 0);
+  return Math.round(power * getCommandBonus(hero));
+}
+
+export function getArmySize(army: Unit[]): number {
+  return army.reduce((sum, u) => sum + u.count, 0);
+}
+
+// Removes empty stacks in place so references held by players and garrisons stay valid
+export function pruneArmy(army: Unit[]) {
+  for (let i = army.length - 1; i >= 0; i--) {
+    if (army[i].count <= 0) army.splice(i, 1);
+  }
+}
+
+export function applyLosses(army: Unit[], lossRatio: number): number {
+  let killed = 0;
+  army.forEach(unit => {
+    const remaining = Math.floor(unit.count * (1 - lossRatio));
+    killed += unit.count - remaining;
+    unit.count = remaining;
+  });
+  pruneArmy(army);
+  return killed;
+}
+
+// How well the ground suits the units fighting in a given stage
+function stageModifier(stage: BattleStage, terrain: TerrainType): number {
+  if (stage === 'volley') return TERRAIN_BATTLE[terrain].archer;
+  if (stage === 'charge') return TERRAIN_BATTLE[terrain].cavalry;
+  return 1;
+}
+
+// Works out how many of each defending stack the striking units cut down this stage
+function strike(strikers: Unit[], targets: Unit[], stage: BattleStage, modifier: number, rng: Rng): number[] {
+  const damage = strikers
+    .filter(u => u.type === STAGE_UNITS[stage])
+    .reduce((total, u) => total + UNIT_STATS[u.type].attack * u.count * u.level, 0)
+    * modifier * (0.8 + rng() * 0.4);
+
+  const targetSize = getArmySize(targets);
+  if (damage === 0 || targetSize === 0) return targets.map(() => 0);
+
+  return targets.map(unit => {
+    const share = damage * (unit.count / targetSize);
+    const kills = share / (UNIT_STATS[unit.type].defense * unit.level * TOUGHNESS);
+    // Round fractional kills up or down at random so small skirmishes still bleed
+    const whole = Math.floor(kills) + (rng() < kills % 1 ? 1 : 0);
+    return Math.min(unit.count, whole);
+  });
+}
+
+// Both sides strike simultaneously, then casualties are removed. The defender holds the
+// ground, so rough terrain also blunts the attacker's blows. A besieged garrison also
+// fights from behind its settlement's walls and watchtowers, and each side strikes harder for a
+// better commander. All of the luck comes from `rng`, so a seeded one replays the same fight.
+export function resolveStage(
+  attackerArmy: Unit[],
+  defenderArmy: Unit[],
+  stage: BattleStage,
+  terrain: TerrainType,
+  rng: Rng,
+  fortifications?: Record<BuildingType, number>,
+  command: Record<BattleSide, number> = { attacker: 1, defender: 1 },
+) {
+  const modifier = stageModifier(stage, terrain);
+  const walls = 1 - (fortifications?.walls ?? 0) * BUILDING_EFFECTS.wallsDamageReduction;
+  const watch = stage === 'volley' ? 1 + (fortifications?.watchtower ?? 0) * BUILDING_EFFECTS.watchtowerVolleyBonus : 1;
+  const defenderLosses = strike(
+    attackerArmy,
+    defenderArmy,
+    stage,
+    modifier * TERRAIN_BATTLE[terrain].defense * walls * command.attacker,
+    rng,
+  );
+  const attackerLosses = strike(defenderArmy, attackerArmy, stage, modifier * watch * command.defender, rng);
+
+  // Each side's fallen, stack by stack, taken before the dead are removed
+  const fallen = (army: Unit[], losses: number[]): Unit[] => army
+    .map((unit, i) => ({ type: unit.type, level: unit.level, count: losses[i] }))
+    .filter(u => u.count > 0);
+  const result = {
+    attackerKills: defenderLosses.reduce((a, b) => a + b, 0),
+    defenderKills: attackerLosses.reduce((a, b) => a + b, 0),
+    attackerLosses: fallen(attackerArmy, attackerLosses),
+    defenderLosses: fallen(defenderArmy, defenderLosses),
+  };
+
+  defenderLosses.forEach((kills, i) => { defenderArmy[i].count -= kills; });
+  attackerLosses.forEach((kills, i) => { attackerArmy[i].count -= kills; });
+
+  pruneArmy(attackerArmy);
+  pruneArmy(defenderArmy);
+
+  return result;
+}
+
+// Merges the armies fighting on one side into a single line of battle, as battle reports also show
+// it: one stack per arm and rank, no banked experience, and always in the same order, so the same
+// troops line up alike however they are spread between players
+export function poolArmies(armies: Unit[][]): Unit[] {
+  const pooled: Unit[] = [];
+  armies.flat().forEach(unit => {
+    const stack = pooled.find(u => u.type === unit.type && u.level === unit.level);
+    if (stack) stack.count += unit.count;
+    else if (unit.count > 0) pooled.push({ type: unit.type, count: unit.count, level: unit.level });
+  });
+  return pooled.sort((a, b) => UNIT_TYPES.indexOf(a.type) - UNIT_TYPES.indexOf(b.type) || a.level - b.level);
+}
+
+// Takes a pooled side's losses out of the armies that make it up. Each army loses soldiers of a
+// kind in proportion to how many of them it brought; odd ones fall where the largest remainders are.
+export function distributeLosses(armies: Unit[][], losses: Unit[]) {
+  losses.forEach(loss => {
+    const stacks = armies.flatMap(army => army.filter(u => u.type === loss.type && u.level === loss.level));
+    const total = stacks.reduce((sum, u) => sum + u.count, 0);
+    if (total === 0) return;
+
+    const shares = stacks.map(u => (loss.count * u.count) / total);
+    const taken = shares.map(Math.floor);
+    let left = Math.min(loss.count, total) - taken.reduce((a, b) => a + b, 0);
+    shares
+      .map((share, i) => ({ i, remainder: share - taken[i] }))
+      .sort((a, b) => b.remainder - a.remainder)
+      .forEach(({ i }) => {
+        if (left > 0 && taken[i] < stacks[i].count) {
+          taken[i]++;
+          left--;
+        }
+      });
+    stacks.forEach((unit, i) => { unit.count -= taken[i]; });
+  });
+  armies.forEach(pruneArmy);
+}
@@ -0,0 +1,71 @@
+import { CHAT_HISTORY_LIMIT, CHAT_RATE_LIMIT, CHAT_REPORT_THRESHOLD, CHAT_SILENCE_MS } from './constants.js';
+import type { ChatEntry, ChatRecord, ChatStatus, Player } from './types.js';
+
+// ============================================
+// CHAT MODERATION
+// ============================================
+
+// Returns the text to deliver, possibly rewritten, or null to drop the message entirely
+export type ChatFilter = (text: string, sender: Player) => string | null;
+
+// Masks blocked words wherever they appear, so "shitty" is caught as well as "shit"
+export function createWordFilter(words: string[]): ChatFilter {
+  if (words.length === 0) return text => text;
+  const escaped = words.map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(escaped.join('|'), 'gi');
+  return text => text.replace(pattern, match => '*'.repeat(match.length));
+}
+
+export function getChatStatus(player: Player): ChatStatus {
+  player.chat ??= { mutedIds: [], reporterIds: [], recentSends: [] };
+  return player.chat;
+}
+
+// Records the send unless the player has already used up the current window
+export function isChatRateLimited(status: ChatStatus, now: number): boolean {
+  status.recentSends = status.recentSends.filter(t => now - t < CHAT_RATE_LIMIT.windowMs);
+  if (status.recentSends.length >= CHAT_RATE_LIMIT.messages) return true;
+  status.recentSends.push(now);
+  return false;
+}
+
+export function isSilenced(status: ChatStatus, now: number): boolean {
+  return (status.silencedUntil ?? 0) > now;
+}
+
+/**
+ * Counts a report against `target` from a distinct reporter. Once enough players have
+ * reported them, the target is silenced for a while and the count starts over.
+ * Returns true if this report tipped them into silence.
+ */
+export function reportChat(target: Player, reporterId: string, now: number): boolean {
+  const status = getChatStatus(target);
+  if (!status.reporterIds.includes(reporterId)) status.reporterIds.push(reporterId);
+  if (status.reporterIds.length < CHAT_REPORT_THRESHOLD) return false;
+
+  status.silencedUntil = now + CHAT_SILENCE_MS;
+  status.reporterIds = [];
+  return true;
+}
+
+export function canReadChat(record: ChatRecord, reader: Player): boolean {
+  if (reader.chat?.mutedIds.includes(record.playerId)) return false;
+  switch (record.channel) {
+    case 'global':
+      return true;
+    case 'faction':
+      return record.faction === reader.faction;
+    case 'proximity':
+    case 'whisper':
+      return !!record.recipientIds?.includes(reader.id);
+  }
+}
+
+export function pushChatHistory(history: ChatRecord[], record: ChatRecord) {
+  history.push(record);
+  if (history.length > CHAT_HISTORY_LIMIT) history.splice(0, history.length - CHAT_HISTORY_LIMIT);
+}
+
+export function toChatEntry({ recipientIds, ...entry }: ChatRecord): ChatEntry {
+  return entry;
+}
@@ -0,0 +1,157 @@
+import type { GuardRules, TerrainType, Territory, Unit, UnitType } from './types.js';
+
+// ============================================
+// GAME CONSTANTS
+// ============================================
+
+// Every party is paid this much each income tick (every 30 seconds), plus a tenth of the income
+// of each settlement its faction holds
+export const INCOME_TICKS = 60;
+export const BASE_INCOME = 50;
+
+// Costs and wages are UNIT_COSTS and UNIT_WAGES, shared with the client
+export const UNIT_STATS = {
+  infantry: { attack: 10, defense: 15, speed: 1 },
+  archer: { attack: 15, defense: 5, speed: 1 },
+  cavalry: { attack: 20, defense: 10, speed: 2 },
+};
+
+// Full-strength garrison per settlement type; depleted garrisons refill toward this
+export const GARRISONS: Record<Territory['type'], Unit[]> = {
+  village: [
+    { type: 'infantry', count: 15, level: 1 },
+  ],
+  castle: [
+    { type: 'infantry', count: 30, level: 1 },
+    { type: 'archer', count: 15, level: 1 },
+  ],
+  city: [
+    { type: 'infantry', count: 50, level: 1 },
+    { type: 'archer', count: 25, level: 1 },
+    { type: 'cavalry', count: 10, level: 1 },
+  ],
+};
+
+// Stationed troops can fill a garrison up to this multiple of its full muster
+export const GARRISON_CAPACITY_RATIO = 2;
+
+// Volunteers each settlement type can hold; pools refill by a share of this every income tick
+export const RECRUIT_POOLS: Record<Territory['type'], Record<UnitType, number>> = {
+  village: { infantry: 20, archer: 10, cavalry: 0 },
+  castle: { infantry: 20, archer: 15, cavalry: 10 },
+  city: { infantry: 40, archer: 20, cavalry: 10 },
+};
+export const RECRUIT_REFILL_RATIO = 0.25;
+
+// Markets drift toward these stocks each income tick: plenty of what the town makes, little of the rest
+export const MARKET_PRODUCED_STOCK = 120;
+export const MARKET_DEFAULT_STOCK = 40;
+export const MARKET_DRIFT_RATIO = 0.2;
+
+// Goods a party can haul: a base wagon plus a load per soldier
+export const CARGO_BASE = 20;
+export const CARGO_PER_SOLDIER = 2;
+
+// Map generation
+export const TILE_SIZE = 2;
+export const MIN_SETTLEMENT_SPACING = 12;
+
+// How terrain shapes battles fought on it; how it slows marches is TERRAIN_MOVE_COST, shared with the client.
+// `defense` scales damage taken by the defending side; `cavalry`/`archer` scale those stages for both sides.
+export const TERRAIN_BATTLE: Record<TerrainType, { defense: number; cavalry: number; archer: number }> = {
+  plains: { defense: 1, cavalry: 1.2, archer: 1 },
+  road: { defense: 1, cavalry: 1.1, archer: 1 },
+  forest: { defense: 0.85, cavalry: 0.6, archer: 0.7 },
+  hills: { defense: 0.75, cavalry: 0.8, archer: 1.2 },
+  river: { defense: 0.8, cavalry: 0.7, archer: 1 },
+  mountains: { defense: 0.6, cavalry: 0.5, archer: 1 },
+};
+
+// Marching pace per point of army speed (infantry 1, cavalry 2)
+export const MARCH_UNITS_PER_SECOND = 2;
+
+// Battle pacing, in game loop ticks (500ms)
+export const BATTLE_PREPARE_TICKS = 6;
+export const BATTLE_STEP_TICKS = 2;
+export const BATTLE_MAX_ROUNDS = 8;
+
+// Finished battles each room keeps on record for reports and replays
+export const BATTLE_HISTORY_LIMIT = 200;
+
+// Experience survivors share per enemy soldier killed; victors earn extra
+export const XP_PER_KILL = 10;
+export const BATTLE_WIN_XP_MULTIPLIER = 1.5;
+// Heroes learn from the kills credited to them at their own, slower rate
+export const HERO_XP_PER_KILL = 5;
+
+// Share of the retreating side's troops cut down while disengaging
+export const RETREAT_LOSS_RATIO = 0.1;
+
+// NPC parties
+export const NPC_LORDS_PER_FACTION = 1;
+export const BANDIT_PARTY_COUNT = 6;
+export const BANDIT_FACTION = 'Bandits';
+export const BANDIT_COLOR = '#6b7280';
+export const LORD_ARMY: Unit[] = [
+  { type: 'infantry', count: 30, level: 1 },
+  { type: 'archer', count: 15, level: 1 },
+  { type: 'cavalry', count: 10, level: 1 },
+];
+export const BANDIT_ARMY: Unit[] = [
+  { type: 'infantry', count: 12, level: 1 },
+  { type: 'archer', count: 6, level: 1 },
+];
+// AI cadence and awareness, in game loop ticks and map units
+export const AI_THINK_TICKS = 4;
+export const NPC_SIGHT_RANGE = 15;
+export const NPC_CAMPAIGN_RANGE = 35;
+export const NPC_CAMPAIGN_REST_TICKS = 240;
+export const NPC_REGROUP_TICKS = 120;
+
+// Diplomacy timings, in game loop ticks
+export const TRUCE_TICKS = 1200;
+export const PROPOSAL_TICKS = 240;
+
+// How long a party invitation stands, in game loop ticks
+export const PARTY_INVITE_TICKS = 120;
+
+// Settlements post fresh jobs every few minutes, replacing any nobody took; deadlines allow this
+// many ticks of slack beyond the march there and back
+export const QUEST_POST_TICKS = 480;
+export const QUEST_OFFERS_PER_SETTLEMENT = 2;
+export const QUEST_SLACK_TICKS = 240;
+
+// How often each client's view of the parties around it is brought up to date
+export const INTEREST_TICKS = 2;
+
+// Chat: who hears proximity chat, how much history new arrivals see, and moderation limits
+export const CHAT_PROXIMITY_RANGE = 15;
+export const CHAT_HISTORY_LIMIT = 50;
+export const CHAT_RATE_LIMIT = { messages: 5, windowMs: 10_000 };
+export const CHAT_REPORT_THRESHOLD = 3;
+export const CHAT_SILENCE_MS = 10 * 60 * 1000;
+export const CHAT_BLOCKED_WORDS = ['fuck', 'shit', 'cunt', 'bitch', 'asshole'];
+
+// Connection guard defaults; WARBAND_GUARD_RULES (JSON) overrides any of them at startup
+export const GUARD_RULES: GuardRules = {
+  bucketCapacity: 20,
+  refillPerSecond: 8,
+  messageCosts: { join: 5, resume: 5, lobby: 2, create_room: 5, chat: 2, attack: 2 },
+  strikeWindowMs: 60_000,
+  kickAfterStrikes: 10,
+  kickWindowMs: 60 * 60 * 1000,
+  banAfterKicks: 3,
+  banMs: 30 * 60 * 1000,
+  logLimit: 100,
+};
+
+// Rooms: how many worlds one server hosts, how many each player may open and how full each gets
+export const MAX_ROOMS = 20;
+export const MAX_ROOMS_PER_OWNER = 2;
+export const ROOM_MAX_PLAYERS = 50;
+// Room ids double as invite codes, so they are short and avoid look-alike characters
+export const ROOM_CODE_LENGTH = 6;
+export const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+// Autosave cadence, in game loop ticks (60s)
+export const SAVE_INTERVAL_TICKS = 120;
@@ -0,0 +1,78 @@
+import { PROPOSAL_TICKS, TRUCE_TICKS } from './constants.js';
+import type { DiplomacyProposal, DiplomaticStance, FactionRelation, GameState, Proposal } from './types.js';
+
+// ============================================
+// DIPLOMACY
+// ============================================
+
+// Every pair of factions starts out at war, as before diplomacy existed
+export function createRelations(factions: string[]): FactionRelation[] {
+  const relations: FactionRelation[] = [];
+  factions.forEach((a, i) => {
+    factions.slice(i + 1).forEach(b => {
+      relations.push({ factions: [a, b], stance: 'war', since: 0 });
+    });
+  });
+  return relations;
+}
+
+// War is declared unilaterally; everything else needs both factions to agree
+export function isMutual(stance: DiplomaticStance): boolean {
+  return stance !== 'war';
+}
+
+export function setStance(relation: FactionRelation, stance: DiplomaticStance, tick: number) {
+  relation.stance = stance;
+  relation.since = tick;
+  relation.truceEndsTick = stance === 'truce' ? tick + TRUCE_TICKS : undefined;
+}
+
+export function findProposal(proposals: Proposal[], faction: string, target: string, stance: DiplomaticStance) {
+  return proposals.find(p => p.faction === faction && p.target === target && p.stance === stance);
+}
+
+export function openProposal(proposals: Proposal[], faction: string, target: string, stance: DiplomaticStance, tick: number) {
+  const proposal: Proposal = { faction, target, stance, voterIds: [], offered: false, expiresTick: tick + PROPOSAL_TICKS };
+  proposals.push(proposal);
+  return proposal;
+}
+
+// Drops every open proposal between two factions once their relation changes
+export function clearProposals(proposals: Proposal[], a: string, b: string) {
+  for (let i = proposals.length - 1; i >= 0; i--) {
+    const p = proposals[i];
+    if ((p.faction === a && p.target === b) || (p.faction === b && p.target === a)) proposals.splice(i, 1);
+  }
+}
+
+/**
+ * Ages diplomacy by one tick: lapsed proposals are dropped and finished truces settle into
+ * peace. Returns what changed so the caller can announce it.
+ */
+export function advanceDiplomacy(state: GameState): { expired: Proposal[]; ended: FactionRelation[] } {
+  const { proposals, relations } = state.diplomacy;
+  const expired = proposals.filter(p => p.expiresTick <= state.tick);
+  expired.forEach(p => proposals.splice(proposals.indexOf(p), 1));
+
+  const ended = relations.filter(r => r.stance === 'truce' && (r.truceEndsTick ?? 0) <= state.tick);
+  ended.forEach(r => setStance(r, 'peace', state.tick));
+  return { expired, ended };
+}
+
+// Factions with nobody online are run by their lords, who take peace when they are no stronger than the proposer
+export function npcFactionAccepts(state: GameState, faction: string, proposer: string, stance: DiplomaticStance): boolean {
+  if (stance === 'alliance') return false;
+  const holdings = (f: string) => state.territories.filter(t => t.owner === f).length;
+  return holdings(faction) <= holdings(proposer);
+}
+
+export function toProposalView(proposal: Proposal, needed: number, tick: number): DiplomacyProposal {
+  return {
+    faction: proposal.faction,
+    target: proposal.target,
+    stance: proposal.stance,
+    votes: proposal.voterIds.length,
+    needed,
+    status: proposal.expiresTick <= tick ? 'expired' : proposal.offered ? 'offered' : 'voting',
+  };
+}
@@ -0,0 +1,85 @@
+import { getBuyPrice, getSellPrice, getWages, GOODS } from '@warband/protocol';
+import { applyLosses, getArmySize } from './battle.js';
+import {
+  CARGO_BASE,
+  CARGO_PER_SOLDIER,
+  MARKET_DEFAULT_STOCK,
+  MARKET_DRIFT_RATIO,
+  MARKET_PRODUCED_STOCK,
+  RECRUIT_POOLS,
+  RECRUIT_REFILL_RATIO,
+} from './constants.js';
+import type { Good, Player, Territory, Unit, UnitType } from './types.js';
+
+// ============================================
+// SETTLEMENT ECONOMY
+// ============================================
+
+export function createRecruitPool(type: Territory['type']): Record<UnitType, number> {
+  return { ...RECRUIT_POOLS[type] };
+}
+
+export function createMarket(produces: Good): Record<Good, number> {
+  return Object.fromEntries(
+    GOODS.map(good => [good, good === produces ? MARKET_PRODUCED_STOCK : MARKET_DEFAULT_STOCK]),
+  ) as Record<Good, number>;
+}
+
+export function refillRecruits(territory: Territory) {
+  const pool = RECRUIT_POOLS[territory.type];
+  (Object.keys(pool) as UnitType[]).forEach(type => {
+    territory.recruits[type] = Math.min(pool[type], territory.recruits[type] + Math.ceil(pool[type] * RECRUIT_REFILL_RATIO));
+  });
+}
+
+// The town works its own goods back up and consumes everything else back down
+export function driftMarket(territory: Territory) {
+  GOODS.forEach(good => {
+    const target = good === territory.produces ? MARKET_PRODUCED_STOCK : MARKET_DEFAULT_STOCK;
+    const stock = territory.market[good];
+    territory.market[good] = Math.round(stock + (target - stock) * MARKET_DRIFT_RATIO);
+  });
+}
+
+/**
+ * Pays the army out of the party's purse. If the purse runs dry, the unpaid share of the
+ * army deserts. Returns what was paid and how many walked off.
+ */
+export function payWages(player: Player): { wages: number; deserted: number } {
+  const wages = getWages(player.army);
+  if (player.gold >= wages) {
+    player.gold -= wages;
+    return { wages, deserted: 0 };
+  }
+
+  const unpaidRatio = wages === 0 ? 0 : (wages - player.gold) / wages;
+  const paid = player.gold;
+  player.gold = 0;
+  // Nobody walks out in the middle of a fight
+  const deserted = player.battleId ? 0 : applyLosses(player.army, unpaidRatio);
+  return { wages: paid, deserted };
+}
+
+export function getCargoCapacity(army: Unit[]): number {
+  return CARGO_BASE + getArmySize(army) * CARGO_PER_SOLDIER;
+}
+
+export function getCargoLoad(cargo: Player['cargo']): number {
+  return Object.values(cargo ?? {}).reduce((sum, n) => sum + (n ?? 0), 0);
+}
+
+// Each unit bought or sold moves the stock, so big trades walk the price against the trader
+export function quoteTrade(market: Record<Good, number>, good: Good, count: number, action: 'buy' | 'sell'): number {
+  let total = 0;
+  let stock = market[good];
+  for (let i = 0; i < count; i++) {
+    if (action === 'buy') {
+      total += getBuyPrice(good, stock);
+      stock--;
+    } else {
+      total += getSellPrice(good, stock);
+      stock++;
+    }
+  }
+  return total;
+}
@@ -0,0 +1,989 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  BATTLE_HISTORY_PAGE,
+  COMPANIONS,
+  createHero,
+  FACTIONS,
+  getArmyLimit,
+  getCasualties,
+  getHeroXpToLevel,
+  getItemSellPrice,
+  getLootRatio,
+  getWages,
+  HERO_EFFECTS,
+  ITEMS,
+  MAP_SIZE,
+  PARTY_RANGE,
+  QUEST_LIMIT,
+  TICK_MS,
+  UNIT_COSTS,
+  type ItemId,
+} from '@warband/protocol';
+import { distributeLosses, getArmyPower, getArmySize, poolArmies, resolveStage } from './battle.js';
+import {
+  BANDIT_FACTION,
+  BASE_INCOME,
+  BATTLE_MAX_ROUNDS,
+  BATTLE_PREPARE_TICKS,
+  INCOME_TICKS,
+  MARCH_UNITS_PER_SECOND,
+  PARTY_INVITE_TICKS,
+  TILE_SIZE,
+} from './constants.js';
+import { createRelations } from './diplomacy.js';
+import { createMarket, createRecruitPool } from './economy.js';
+import {
+  advanceBattles,
+  advanceMovement,
+  advanceWorld,
+  collectIncome,
+  endBattle,
+  orderMarch,
+  recruit,
+  reenactBattle,
+  startBattle,
+  type EngineEvent,
+} from './engine.js';
+import { equipItem, manageCompanion, tradeItem, trainAttribute } from './hero.js';
+import { diffPlayerView, glimpsePlayer, sanitizePlayer, sanitizeTerritory } from './interest.js';
+import { clampToMap, getArmySpeed } from './movement.js';
+import { answerInvite, invitePlayer, leaveParty, transfer } from './party.js';
+import { abandonQuest, acceptQuest, advanceQuests, postQuests } from './quests.js';
+import { getReportPage } from './reports.js';
+import { createRng } from './rng.js';
+import type { GameState, Player, QuestRecord, Territory, Unit } from './types.js';
+
+// ============================================
+// FIXTURES
+// ============================================
+
+const [HOME, ENEMY, NEUTRAL] = FACTIONS;
+
+// Open plains everywhere, so routes and battles don't depend on a generated map
+function createState(): GameState {
+  const width = MAP_SIZE / TILE_SIZE;
+  return {
+    map: { seed: 0, width, height: width, tileSize: TILE_SIZE, tiles: 'p'.repeat(width * width) },
+    diplomacy: { relations: createRelations(FACTIONS), proposals: [] },
+    parties: { groups: [], invites: [] },
+    quests: { offers: [], taken: [] },
+    players: new Map(),
+    territories: [],
+    battles: new Map(),
+    chat: [],
+    reports: [],
+    tick: 0,
+  };
+}
+
+function addPlayer(state: GameState, overrides: Partial<Player> = {}): Player {
+  const id = overrides.id ?? `player-${state.players.size + 1}`;
+  const player: Player = {
+    id,
+    name: id,
+    faction: HOME,
+    position: { x: 50, y: 50 },
+    gold: 1000,
+    army: [{ type: 'infantry', count: 20, level: 1, xp: 0 }],
+    color: '#ffffff',
+    ...overrides,
+  };
+  state.players.set(id, player);
+  return player;
+}
+
+function addVillage(state: GameState, overrides: Partial<Territory> = {}): Territory {
+  const territory: Territory = {
+    id: `village-${state.territories.length + 1}`,
+    name: 'Testby',
+    position: { x: 50, y: 50 },
+    owner: HOME,
+    type: 'village',
+    income: 100,
+    garrison: [{ type: 'infantry', count: 15, level: 1 }],
+    recruits: createRecruitPool('village'),
+    produces: 'grain',
+    market: createMarket('grain'),
+    buildings: { walls: 0, barracks: 0, market: 0, watchtower: 0 },
+    ...overrides,
+  };
+  state.territories.push(territory);
+  return territory;
+}
+
+function eventTypes(events: EngineEvent[]): string[] {
+  return events.map(e => e.type);
+}
+
+// Runs the battle loop until the battle is decided, returning its events
+function fightOut(state: GameState, rng = createRng(1)): EngineEvent[] {
+  const events: EngineEvent[] = [];
+  for (let i = 0; i < 200 && state.battles.size > 0; i++) {
+    state.tick++;
+    events.push(...advanceBattles(state, rng));
+  }
+  return events;
+}
+
+function army(infantry: number, archers = 0, cavalry = 0): Unit[] {
+  return [
+    { type: 'infantry' as const, count: infantry, level: 1, xp: 0 },
+    { type: 'archer' as const, count: archers, level: 1, xp: 0 },
+    { type: 'cavalry' as const, count: cavalry, level: 1, xp: 0 },
+  ].filter(u => u.count > 0);
+}
+
+// ============================================
+// BATTLES
+// ============================================
+
+describe('battles', () => {
+  it('replays a stage exactly from the same seed', () => {
+    const first = { attacker: army(30, 20, 10), defender: army(40, 10) };
+    const second = structuredClone(first);
+
+    const a = resolveStage(first.attacker, first.defender, 'volley', 'plains', createRng(42));
+    const b = resolveStage(second.attacker, second.defender, 'volley', 'plains', createRng(42));
+
+    assert.deepEqual(a, b);
+    assert.deepEqual(first, second);
+  });
+
+  it('only lets the stage\'s own arm strike', () => {
+    const attacker = army(50);
+    const defender = army(50);
+
+    const { attackerKills, defenderKills } = resolveStage(attacker, defender, 'volley', 'plains', createRng(1));
+
+    assert.equal(attackerKills, 0);
+    assert.equal(defenderKills, 0);
+  });
+
+  it('lets walls shield a garrison', () => {
+    const walls = { walls: 3, barracks: 0, market: 0, watchtower: 0 };
+    const open = { ...walls, walls: 0 };
+
+    const exposed = resolveStage(army(60), army(60), 'melee', 'plains', createRng(7), open);
+    const walled = resolveStage(army(60), army(60), 'melee', 'plains', createRng(7), walls);
+
+    assert.ok(walled.attackerKills < exposed.attackerKills);
+  });
+
+  it('holds the armies in place until the preparation is over', () => {
+    const state = createState();
+    const attacker = addPlayer(state, { army: army(40) });
+    const defender = addPlayer(state, { faction: ENEMY, army: army(5) });
+    orderMarch(state, attacker.id, { x: 90, y: 90 });
+
+    const events = startBattle(state, 'battle', 0, attacker, defender);
+
+    assert.deepEqual(eventTypes(events), ['march_changed', 'battle_started']);
+    assert.equal(attacker.march, undefined);
+    assert.equal(attacker.battleId, 'battle');
+
+    state.tick = BATTLE_PREPARE_TICKS - 1;
+    assert.deepEqual(advanceBattles(state, createRng(1)), []);
+    assert.equal(getArmySize(defender.army), 5);
+  });
+
+  it('hands victory and loot to the stronger party', () => {
+    const state = createState();
+    const attacker = addPlayer(state, { army: army(60, 20, 10), gold: 0 });
+    const defender = addPlayer(state, { faction: ENEMY, army: army(5), gold: 1000 });
+    startBattle(state, 'battle', 0, attacker, defender);
+
+    const ended = fightOut(state).find(e => e.type === 'battle_ended');
+
+    assert.ok(ended?.type === 'battle_ended');
+    assert.equal(ended.result.winner, attacker.name);
+    assert.equal(ended.result.loot, 300);
+    assert.equal(attacker.gold, 300);
+    assert.equal(defender.gold, 700);
+    assert.equal(attacker.battleId, undefined);
+    assert.equal(defender.battleId, undefined);
+    assert.equal(state.battles.size, 0);
+  });
+
+  it('gives the field to the stronger army once the rounds run out', () => {
+    const state = createState();
+    const attacker = addPlayer(state, { army: army(200) });
+    const defender = addPlayer(state, { faction: ENEMY, army: army(400) });
+    const [started] = startBattle(state, 'battle', 0, attacker, defender);
+    assert.ok(started.type === 'battle_started');
+    // Skip ahead to the last clash of the last round
+    Object.assign(started.battle, { round: BATTLE_MAX_ROUNDS, stage: 'melee', nextStepTick: 0 });
+
+    const [ended] = advanceBattles(state, createRng(1));
+
+    assert.ok(ended.type === 'battle_ended');
+    assert.equal(ended.result.rounds, BATTLE_MAX_ROUNDS);
+    assert.equal(ended.result.winner, defender.name);
+    assert.ok(getArmySize(attacker.army) > 0);
+  });
+
+  it('captures a settlement whose garrison falls', () => {
+    const state = createState();
+    const village = addVillage(state, { owner: ENEMY, garrison: army(3) });
+    const attacker = addPlayer(state, { army: army(60, 20, 10) });
+    startBattle(state, 'siege', 0, attacker, null, village);
+
+    const ended = fightOut(state).find(e => e.type === 'battle_ended');
+
+    assert.ok(ended?.type === 'battle_ended');
+    assert.equal(ended.captured, true);
+    assert.equal(ended.previousOwner, ENEMY);
+    assert.equal(village.owner, HOME);
+    assert.deepEqual(village.garrison, []);
+  });
+
+  it('costs a retreating party troops but no loot', () => {
+    const state = createState();
+    const attacker = addPlayer(state, { army: army(100), gold: 500 });
+    const defender = addPlayer(state, { faction: ENEMY, army: army(100), gold: 500 });
+    const events = startBattle(state, 'battle', 0, attacker, defender);
+    const battle = events.find(e => e.type === 'battle_started')!;
+    assert.ok(battle.type === 'battle_started');
+
+    const [ended] = endBattle(state, battle.battle, 'defender', 'attacker');
+
+    assert.ok(ended.type === 'battle_ended');
+    assert.equal(ended.result.retreated, 'attacker');
+    assert.equal(ended.result.loot, 0);
+    assert.equal(getArmySize(attacker.army), 90);
+    assert.equal(attacker.gold, 500);
+  });
+});
+
+// ============================================
+// BATTLE REPORTS
+// ============================================
+
+describe('battle reports', () => {
+  it('files both armies as they came in and as they left', () => {
+    const state = createState();
+    const attacker = addPlayer(state, { army: army(40, 20, 10) });
+    const defender = addPlayer(state, { faction: ENEMY, army: army(30, 10) });
+    const before = { attacker: poolArmies([attacker.army]), defender: poolArmies([defender.army]) };
+    startBattle(state, 'battle', 1000, attacker, defender);
+
+    const ended = fightOut(state).find(e => e.type === 'battle_ended');
+
+    assert.ok(ended?.type === 'battle_ended');
+    const { report } = ended;
+    assert.deepEqual(state.reports, [report]);
+    assert.deepEqual(report.attacker.before, before.attacker);
+    assert.deepEqual(report.defender.before, before.defender);
+    assert.deepEqual(report.attacker.after, poolArmies([attacker.army]));
+    assert.deepEqual(report.defender.after, poolArmies([defender.army]));
+    assert.equal(report.attacker.faction, HOME);
+    assert.equal(report.defender.faction, ENEMY);
+    assert.equal(report.endedAt, 1000 + state.tick * TICK_MS);
+
+    // Every soldier who fell did so in one of the recorded stages
+    const fallen = (side: 'attackerLosses' | 'defenderLosses') => report.stages
+      .flatMap(s => s[side])
+      .reduce((sum, u) => sum + u.count, 0);
+    const lost = (side: 'attacker' | 'defender') => getArmySize(getCasualties(report[side].before, report[side].after));
+    assert.equal(fallen('attackerLosses'), lost('attacker'));
+    assert.equal(fallen('defenderLosses'), lost('defender'));
+  });
+
+  it('reenacts a siege exactly from its recorded rolls', () => {
+    const state = createState();
+    const village = addVillage(state, {
+      owner: ENEMY,
+      garrison: army(40, 20),
+      buildings: { walls: 2, barracks: 0, market: 0, watchtower: 1 },
+    });
+    const attacker = addPlayer(state, { army: army(60, 20, 20) });
+    startBattle(state, 'siege', 0, attacker, null, village);
+
+    const ended = fightOut(state).find(e => e.type === 'battle_ended');
+
+    assert.ok(ended?.type === 'battle_ended');
+    const { report } = ended;
+    const reenacted = reenactBattle(report);
+    assert.equal(reenacted.length, report.stages.length);
+    assert.deepEqual(reenacted.at(-1), { attacker: report.attacker.after, defender: report.defender.after });
+    report.stages.forEach((stage, i) => {
+      const previous = i === 0 ? { attacker: report.attacker.before, defender: report.defender.before } : reenacted[i - 1];
+      assert.deepEqual(getCasualties(previous.attacker, reenacted[i].attacker), getCasualties(stage.attackerLosses, []));
+      assert.deepEqual(getCasualties(previous.defender, reenacted[i].defender), getCasualties(stage.defenderLosses, []));
+    });
+  });
+
+  it('shows each player only battles they or their faction fought', () => {
+    const state = createState();
+    const attacker = addPlayer(state, { army: army(60, 20, 10) });
+    const ally = addPlayer(state, { army: army(10) });
+    const defender = addPlayer(state, { faction: ENEMY, army: army(5) });
+    const outsider = addPlayer(state, { faction: NEUTRAL, army: army(10) });
+    startBattle(state, 'battle', 0, attacker, defender);
+    fightOut(state);
+
+    assert.equal(getReportPage(state.reports, attacker, {}).reports.length, 1);
+    assert.equal(getReportPage(state.reports, defender, {}).reports.length, 1);
+    assert.equal(getReportPage(state.reports, ally, {}).reports.length, 1);
+    assert.equal(getReportPage(state.reports, ally, { mine: true }).reports.length, 0);
+    assert.equal(getReportPage(state.reports, outsider, {}).reports.length, 0);
+    assert.equal('stages' in getReportPage(state.reports, attacker, {}).reports[0], false);
+  });
+
+  it('files the battle under every member of a party, even one who has since changed sides', () => {
+    const state = createState();
+    const leader = addPlayer(state, { army: army(60, 20, 10) });
+    const member = addPlayer(state, { army: army(10) });
+    const defender = addPlayer(state, { faction: ENEMY, army: army(5) });
+    addParty(state, leader, member);
+    startBattle(state, 'battle', 0, leader, defender);
+    fightOut(state);
+
+    assert.deepEqual(state.reports[0].attacker.memberIds, [leader.id, member.id]);
+    assert.equal(getReportPage(state.reports, member, { mine: true }).reports.length, 1);
+
+    member.faction = NEUTRAL;
+    assert.equal(getReportPage(state.reports, member, {}).reports.length, 1);
+  });
+
+  it('pages back through the history, newest first', () => {
+    const state = createState();
+    const attacker = addPlayer(state);
+    const defender = addPlayer(state, { faction: ENEMY });
+    for (let i = 0; i < BATTLE_HISTORY_PAGE + 5; i++) {
+      startBattle(state, `battle-${i}`, i, attacker, defender);
+      endBattle(state, state.battles.get(`battle-${i}`)!, 'attacker', 'defender');
+    }
+
+    const first = getReportPage(state.reports, attacker, {});
+    const second = getReportPage(state.reports, attacker, { before: first.reports.at(-1)!.id });
+
+    assert.equal(first.reports[0].id, `battle-${BATTLE_HISTORY_PAGE + 4}`);
+    assert.equal(first.more, true);
+    assert.deepEqual(second.reports.map(r => r.id), ['battle-4', 'battle-3', 'battle-2', 'battle-1', 'battle-0']);
+    assert.equal(second.more, false);
+  });
+});
+
+// ============================================
+// PARTIES
+// ============================================
+
+// Two players of the same faction who have agreed to travel together
+function addParty(state: GameState, leader: Player, ...members: Player[]) {
+  members.forEach(member => {
+    invitePlayer(state, leader.id, member.id);
+    answerInvite(state, member.id, leader.id, true, 'party');
+  });
+}
+
+describe('parties', () => {
+  it('founds a party when an invitation is accepted and breaks it up when all but one leave', () => {
+    const state = createState();
+    const leader = addPlayer(state);
+    const member = addPlayer(state);
+
+    assert.deepEqual(invitePlayer(state, leader.id, member.id), [
+      { type: 'party_invited', playerId: member.id, leaderId: leader.id },
+    ]);
+    assert.deepEqual(eventTypes(answerInvite(state, member.id, leader.id, true, 'party')), ['party_changed']);
+    assert.equal(leader.partyId, 'party');
+    assert.equal(member.partyId, 'party');
+    assert.deepEqual(state.parties.groups, [{ id: 'party', memberIds: [leader.id, member.id] }]);
+
+    assert.deepEqual(leaveParty(state, member.id), [
+      { type: 'party_changed', partyId: 'party', leftIds: [member.id, leader.id] },
+    ]);
+    assert.equal(leader.partyId, undefined);
+    assert.deepEqual(state.parties.groups, []);
+  });
+
+  it('refuses invitations across factions or at a distance, and lets them lapse', () => {
+    const state = createState();
+    const leader = addPlayer(state);
+    const enemy = addPlayer(state, { faction: ENEMY });
+    const distant = addPlayer(state, { position: { x: 50 + PARTY_RANGE + 1, y: 50 } });
+    const near = addPlayer(state);
+
+    assert.deepEqual(eventTypes(invitePlayer(state, leader.id, enemy.id)), ['rejected']);
+    assert.deepEqual(eventTypes(invitePlayer(state, leader.id, distant.id)), ['rejected']);
+
+    invitePlayer(state, leader.id, near.id);
+    state.tick = PARTY_INVITE_TICKS;
+    advanceWorld(state, createRng(1));
+    assert.deepEqual(eventTypes(answerInvite(state, near.id, leader.id, true, 'party')), ['rejected']);
+    assert.equal(near.partyId, undefined);
+  });
+
+  it('marches the whole party at the leader\'s word only', () => {
+    const state = createState();
+    const leader = addPlayer(state);
+    const member = addPlayer(state);
+    addParty(state, leader, member);
+
+    assert.deepEqual(eventTypes(orderMarch(state, member.id, { x: 80, y: 50 })), ['rejected']);
+
+    const events = orderMarch(state, leader.id, { x: 80, y: 50 });
+
+    assert.deepEqual(events, [
+      { type: 'march_changed', playerId: leader.id },
+      { type: 'march_changed', playerId: member.id },
+    ]);
+    assert.ok(leader.march);
+    assert.deepEqual(member.march, leader.march);
+  });
+
+  it('fights party-mates as one side and shares the loot by strength', () => {
+    const state = createState();
+    const leader = addPlayer(state, { army: army(60, 20), gold: 0 });
+    const member = addPlayer(state, { army: army(20), gold: 0 });
+    const defender = addPlayer(state, { faction: ENEMY, army: army(10), gold: 1000 });
+    addParty(state, leader, member);
+
+    const [started] = startBattle(state, 'battle', 0, leader, defender).filter(e => e.type === 'battle_started');
+    assert.ok(started.type === 'battle_started');
+    assert.deepEqual(started.battle.members.attacker, [leader.id, member.id]);
+    assert.equal(started.battle.opening.attacker.name, `${leader.name} and ${member.name}`);
+    assert.deepEqual(started.battle.opening.attacker.before, poolArmies([army(80, 20)]));
+    assert.equal(member.battleId, 'battle');
+
+    const ended = fightOut(state).find(e => e.type === 'battle_ended');
+
+    assert.ok(ended?.type === 'battle_ended');
+    assert.equal(ended.result.loot, 300);
+    assert.deepEqual(ended.lootShares, { [defender.id]: -300, [leader.id]: leader.gold, [member.id]: member.gold });
+    assert.equal(leader.gold + member.gold, 300);
+    assert.ok(leader.gold > member.gold);
+    assert.equal(member.battleId, undefined);
+  });
+
+  it('spreads losses over every army that fielded the stack', () => {
+    const armies = [army(30), army(10), [{ type: 'archer' as const, count: 5, level: 1, xp: 0 }]];
+
+    distributeLosses(armies, [{ type: 'infantry', count: 20, level: 1 }, { type: 'archer', count: 5, level: 1 }]);
+
+    assert.deepEqual(armies, [army(15), army(5), []]);
+  });
+
+  it('hands gold and troops to a faction-mate standing alongside', () => {
+    const state = createState();
+    const giver = addPlayer(state, { army: army(20, 5) });
+    const taker = addPlayer(state, { army: [], gold: 0 });
+    const enemy = addPlayer(state, { faction: ENEMY });
+
+    assert.deepEqual(eventTypes(transfer(state, giver.id, { type: 'transfer', targetId: enemy.id, gold: 10 })), ['rejected']);
+    assert.deepEqual(eventTypes(transfer(state, giver.id, { type: 'transfer', targetId: taker.id, gold: 5000 })), ['rejected']);
+
+    transfer(state, giver.id, { type: 'transfer', targetId: taker.id, gold: 100 });
+    const events = transfer(state, giver.id, { type: 'transfer', targetId: taker.id, unitType: 'archer', level: 1, count: 5 });
+
+    assert.deepEqual(events, [{
+      type: 'transferred',
+      playerId: giver.id,
+      targetId: taker.id,
+      gold: 0,
+      units: [{ type: 'archer', level: 1, count: 5 }],
+    }]);
+    assert.equal(giver.gold, 900);
+    assert.equal(taker.gold, 100);
+    assert.deepEqual(giver.army, army(20));
+    assert.equal(getArmySize(taker.army), 5);
+
+    taker.position = { x: 50 + PARTY_RANGE + 1, y: 50 };
+    assert.deepEqual(eventTypes(transfer(state, giver.id, { type: 'transfer', targetId: taker.id, gold: 10 })), ['rejected']);
+  });
+});
+
+// ============================================
+// HEROES
+// ============================================
+
+describe('heroes', () => {
+  it('caps the army at what the hero can lead, raised by leadership and companions', () => {
+    const state = createState();
+    addVillage(state);
+    const player = addPlayer(state, { army: army(45), gold: 10_000, hero: createHero() });
+
+    assert.deepEqual(eventTypes(recruit(state, player.id, 'infantry', 10)), ['rejected']);
+
+    player.hero!.attributes.leadership = 1;
+    player.hero!.companions = ['rolf'];
+    assert.equal(getArmyLimit(player.hero), 50 + 3 * HERO_EFFECTS.armyLimitPerLeadership);
+    assert.deepEqual(eventTypes(recruit(state, player.id, 'infantry', 10)), ['recruited']);
+  });
+
+  it('strikes harder and claims more strength under a skilled, well-armed hero', () => {
+    const state = createState();
+    const hero = { ...createHero(), attributes: { leadership: 0, tactics: 2, trade: 0 }, equipment: { weapon: 'sword' as const } };
+    const attacker = addPlayer(state, { army: army(40), hero });
+    const defender = addPlayer(state, { faction: ENEMY, army: army(40) });
+
+    const [started] = startBattle(state, 'battle', 0, attacker, defender);
+
+    assert.ok(started.type === 'battle_started');
+    const command = 1 + 2 * HERO_EFFECTS.powerPerTactics + ITEMS.sword.power!;
+    assert.equal(started.battle.opening.attacker.command, command);
+    assert.equal(started.battle.opening.defender.command, 1);
+    assert.equal(started.battle.attackPower, Math.round(getArmyPower(army(40)) * command));
+
+    // The same dice cut down more of the enemy when the blows land harder
+    const plain = resolveStage(army(40), army(40), 'melee', 'plains', createRng(3));
+    const led = resolveStage(army(40), army(40), 'melee', 'plains', createRng(3), undefined, { attacker: command, defender: 1 });
+    assert.ok(led.attackerKills > plain.attackerKills);
+  });
+
+  it('hurries the march along on a good mount', () => {
+    const hero = { ...createHero(), equipment: { mount: 'destrier' as const } };
+    assert.equal(getArmySpeed(army(10), hero), 1 + ITEMS.destrier.speed!);
+    assert.equal(getArmySpeed(army(10), createHero()), 1);
+  });
+
+  it('buys, equips and sells gear in a friendly city', () => {
+    const state = createState();
+    const player = addPlayer(state, { gold: 2000, hero: createHero() });
+    const buy = (itemId: ItemId) => tradeItem(state, player.id, { type: 'item_trade', itemId, action: 'buy' });
+
+    assert.deepEqual(eventTypes(buy('sword')), ['rejected']);
+
+    addVillage(state, { type: 'city' });
+    buy('sword');
+    buy('greatsword');
+    equipItem(state, player.id, 'sword');
+    equipItem(state, player.id, 'greatsword');
+
+    assert.equal(player.gold, 2000 - ITEMS.sword.price - ITEMS.greatsword.price);
+    assert.deepEqual(player.hero!.equipment, { weapon: 'greatsword' });
+    assert.deepEqual(player.hero!.inventory, ['sword']);
+
+    tradeItem(state, player.id, { type: 'item_trade', itemId: 'sword', action: 'sell' });
+    assert.equal(player.gold, 2000 - ITEMS.sword.price - ITEMS.greatsword.price + getItemSellPrice('sword'));
+    assert.deepEqual(eventTypes(tradeItem(state, player.id, { type: 'item_trade', itemId: 'greatsword', action: 'sell' })), ['rejected']);
+  });
+
+  it('lets each companion serve only one hero at a time', () => {
+    const state = createState();
+    addVillage(state, { type: 'city' });
+    const first = addPlayer(state, { hero: createHero() });
+    const second = addPlayer(state, { hero: createHero() });
+    const hire = (player: Player) => manageCompanion(state, player.id, { type: 'companion', companionId: 'borcha', action: 'hire' });
+
+    assert.deepEqual(eventTypes(hire(first)), ['hero_changed']);
+    assert.deepEqual(eventTypes(hire(second)), ['rejected']);
+    assert.equal(first.gold, 1000 - COMPANIONS.borcha.hireCost);
+
+    manageCompanion(state, first.id, { type: 'companion', companionId: 'borcha', action: 'dismiss' });
+    assert.deepEqual(eventTypes(hire(second)), ['hero_changed']);
+  });
+
+  it('levels the hero up from battle and wrings more loot out of the losers with trade', () => {
+    const state = createState();
+    const hero = { ...createHero(), xp: getHeroXpToLevel(1) - 1, attributes: { leadership: 0, tactics: 0, trade: 5 } };
+    const attacker = addPlayer(state, { army: army(60, 20, 10), gold: 0, hero });
+    const defender = addPlayer(state, { faction: ENEMY, army: army(5), gold: 1000 });
+    startBattle(state, 'battle', 0, attacker, defender);
+
+    const events = fightOut(state);
+
+    assert.ok(events.some(e => e.type === 'hero_levelled' && e.playerId === attacker.id && e.level === 2));
+    assert.equal(getLootRatio(hero), 0.45);
+    assert.equal(attacker.gold, 450);
+    assert.equal(hero.points, 1);
+
+    assert.deepEqual(eventTypes(trainAttribute(state, attacker.id, 'tactics')), ['hero_changed']);
+    assert.equal(hero.attributes.tactics, 1);
+    assert.deepEqual(eventTypes(trainAttribute(state, attacker.id, 'tactics')), ['rejected']);
+  });
+});
+
+// ============================================
+// QUESTS
+// ============================================
+
+// A job on offer at `giver`, bound for `target`
+function addQuest(state: GameState, giver: Territory, target: Territory, overrides: Partial<QuestRecord> = {}): QuestRecord {
+  const quest: QuestRecord = {
+    id: `quest-${state.quests.offers.length + 1}`,
+    type: 'escort',
+    giverId: giver.id,
+    faction: giver.owner!,
+    targetId: target.id,
+    progress: 0,
+    goal: 1,
+    reward: { gold: 200, xp: 100, reputation: 4 },
+    durationTicks: 100,
+    ...overrides,
+  };
+  state.quests.offers.push(quest);
+  return quest;
+}
+
+describe('quests', () => {
+  it('posts jobs at held settlements, sending caravans where there is peace and scouts to enemy castles', () => {
+    const state = createState();
+    addVillage(state);
+    addVillage(state, { owner: null, position: { x: 80, y: 50 } });
+    addVillage(state, { type: 'castle', owner: ENEMY, position: { x: 20, y: 50 } });
+
+    postQuests(state, createRng(1));
+
+    const byId = new Map(state.territories.map(t => [t.id, t]));
+    assert.ok(state.quests.offers.length > 0);
+    assert.equal(new Set(state.quests.offers.map(q => q.id)).size, state.quests.offers.length);
+    state.quests.offers.forEach(quest => {
+      const giver = byId.get(quest.giverId)!;
+      const target = byId.get(quest.targetId)!;
+      assert.equal(quest.faction, giver.owner);
+      if (quest.type === 'bandits') assert.equal(target, giver);
+      else if (quest.type === 'scout') assert.equal(target.owner, quest.faction === ENEMY ? HOME : ENEMY);
+      else assert.equal(target.owner, null);
+    });
+  });
+
+  it('hands out jobs only in person and only so many at once', () => {
+    const state = createState();
+    const giver = addVillage(state);
+    const target = addVillage(state, { position: { x: 90, y: 50 } });
+    const player = addPlayer(state, { position: { x: 70, y: 50 } });
+    const quests = Array.from({ length: QUEST_LIMIT + 1 }, () => addQuest(state, giver, target));
+
+    assert.deepEqual(eventTypes(acceptQuest(state, player.id, quests[0].id)), ['rejected']);
+
+    player.position = { x: 50, y: 50 };
+    quests.slice(0, QUEST_LIMIT).forEach(q => {
+      assert.deepEqual(eventTypes(acceptQuest(state, player.id, q.id)), ['quest_changed', 'quest_offers_changed']);
+    });
+    assert.deepEqual(eventTypes(acceptQuest(state, player.id, quests[QUEST_LIMIT].id)), ['rejected']);
+    assert.equal(state.quests.taken.length, QUEST_LIMIT);
+    assert.equal(quests[0].deadlineTick, state.tick + quests[0].durationTicks);
+  });
+
+  it('pays for a purse delivered to its destination', () => {
+    const state = createState();
+    const giver = addVillage(state);
+    const target = addVillage(state, { position: { x: 90, y: 50 } });
+    const player = addPlayer(state, { gold: 0, hero: createHero() });
+    const quest = addQuest(state, giver, target, { type: 'deliver', gold: 300 });
+
+    acceptQuest(state, player.id, quest.id);
+    assert.deepEqual(advanceQuests(state), []);
+
+    player.position = { ...target.position };
+    assert.deepEqual(eventTypes(advanceQuests(state)), ['quest_completed']);
+    assert.equal(player.gold, quest.reward.gold);
+    assert.equal(player.hero!.xp, quest.reward.xp);
+    assert.deepEqual(player.reputation, { [HOME]: quest.reward.reputation });
+    assert.equal(state.quests.taken.length, 0);
+  });
+
+  it('keeps a purse in trust, out of reach of recruiting and of a courier who walks off with it', () => {
+    const state = createState();
+    const giver = addVillage(state);
+    const target = addVillage(state, { position: { x: 90, y: 50 } });
+    const player = addPlayer(state, { gold: 0 });
+    const quest = addQuest(state, giver, target, { type: 'deliver', gold: 300 });
+
+    acceptQuest(state, player.id, quest.id);
+    assert.equal(player.gold, 0);
+    assert.deepEqual(eventTypes(recruit(state, player.id, 'infantry', 6)), ['rejected']);
+
+    assert.deepEqual(eventTypes(abandonQuest(state, player.id, quest.id)), ['quest_failed']);
+    assert.equal(player.gold, 0);
+    assert.equal(getArmySize(player.army), 20);
+    assert.deepEqual(player.reputation, { [HOME]: -2 });
+  });
+
+  it('counts bandits routed near the settlement toward a hunt', () => {
+    const state = createState();
+    const giver = addVillage(state);
+    const quest = addQuest(state, giver, giver, { type: 'bandits', goal: 1 });
+    const hunter = addPlayer(state, { army: army(60, 20, 10), gold: 0 });
+    const bandit = addPlayer(state, { faction: 'Bandits', npc: 'bandit', army: army(5), gold: 0, position: { x: 55, y: 50 } });
+    acceptQuest(state, hunter.id, quest.id);
+    startBattle(state, 'battle', 0, hunter, bandit);
+
+    const events = fightOut(state);
+
+    assert.ok(events.some(e => e.type === 'quest_completed' && e.quest === quest));
+    assert.equal(hunter.gold, quest.reward.gold);
+  });
+
+  it('loses the caravan and the purse with the battle, and any job with the deadline', () => {
+    const state = createState();
+    const giver = addVillage(state);
+    const target = addVillage(state, { position: { x: 90, y: 50 } });
+    const escort = addPlayer(state, { army: army(5) });
+    const caravan = addQuest(state, giver, target);
+    const purse = addQuest(state, giver, target, { id: 'purse', type: 'deliver', gold: 300 });
+    const scouting = addQuest(state, giver, target, { id: 'scouting', type: 'scout' });
+    const scout = addPlayer(state);
+    acceptQuest(state, escort.id, caravan.id);
+    acceptQuest(state, escort.id, purse.id);
+    acceptQuest(state, scout.id, scouting.id);
+
+    startBattle(state, 'battle', 0, addPlayer(state, { faction: ENEMY, army: army(60, 20, 10) }), escort);
+    const events = fightOut(state);
+
+    assert.ok(events.some(e => e.type === 'quest_failed' && e.quest === caravan));
+    assert.ok(events.some(e => e.type === 'quest_failed' && e.quest === purse));
+    assert.deepEqual(escort.reputation, { [HOME]: -4 });
+
+    state.tick = scouting.deadlineTick!;
+    assert.deepEqual(eventTypes(advanceQuests(state)), ['quest_failed']);
+    assert.deepEqual(eventTypes(abandonQuest(state, scout.id, scouting.id)), ['rejected']);
+  });
+});
+
+// ============================================
+// RECRUITING
+// ============================================
+
+describe('recruiting', () => {
+  it('hires volunteers at a friendly settlement', () => {
+    const state = createState();
+    const village = addVillage(state);
+    const player = addPlayer(state, { army: [] });
+
+    const events = recruit(state, player.id, 'archer', 4);
+
+    assert.deepEqual(events, [{ type: 'recruited', playerId: player.id, territoryId: village.id }]);
+    assert.equal(player.gold, 1000 - UNIT_COSTS.archer * 4);
+    assert.deepEqual(player.army, [{ type: 'archer', count: 4, level: 1, xp: 0 }]);
+    assert.equal(village.recruits.archer, createRecruitPool('village').archer - 4);
+  });
+
+  it('adds recruits to the existing level 1 stack', () => {
+    const state = createState();
+    addVillage(state);
+    const player = addPlayer(state, { army: army(20) });
+
+    recruit(state, player.id, 'infantry', 5);
+
+    assert.deepEqual(player.army, army(25));
+  });
+
+  const refusals: [string, (state: GameState, player: Player) => void, string][] = [
+    ['away from any settlement', (_, player) => { player.position = { x: 10, y: 10 }; }, 'Recruit at a settlement'],
+    ['at an enemy settlement', state => { state.territories[0].owner = ENEMY; }, 'Recruit at a settlement'],
+    ['beyond the volunteers on hand', state => { state.territories[0].recruits.archer = 2; }, 'Only 2 archer'],
+    ['without the gold', (_, player) => { player.gold = 10; }, 'Not enough gold'],
+    ['in the middle of a battle', (_, player) => { player.battleId = 'battle'; }, 'Cannot recruit'],
+  ];
+
+  refusals.forEach(([when, setup, reason]) => {
+    it(`refuses ${when} and changes nothing`, () => {
+      const state = createState();
+      addVillage(state);
+      const player = addPlayer(state);
+      setup(state, player);
+      const before = structuredClone({ player, territories: state.territories });
+
+      const [event] = recruit(state, player.id, 'archer', 4);
+
+      assert.ok(event.type === 'rejected');
+      assert.match(event.reason, new RegExp(reason));
+      assert.deepEqual({ player, territories: state.territories }, before);
+    });
+  });
+});
+
+// ============================================
+// MOVEMENT
+// ============================================
+
+describe('movement', () => {
+  it('clamps positions to the map', () => {
+    assert.deepEqual(clampToMap({ x: -5, y: MAP_SIZE + 5 }), { x: 0, y: MAP_SIZE });
+    assert.deepEqual(clampToMap({ x: 30, y: 60 }), { x: 30, y: 60 });
+  });
+
+  it('clamps a march ordered off the edge of the map', () => {
+    const state = createState();
+    const player = addPlayer(state);
+
+    assert.deepEqual(eventTypes(orderMarch(state, player.id, { x: 500, y: -20 })), ['march_changed']);
+    assert.deepEqual(player.march?.destination, { x: MAP_SIZE, y: 0 });
+    player.march!.path.forEach(point => {
+      assert.ok(point.x >= 0 && point.x <= MAP_SIZE && point.y >= 0 && point.y <= MAP_SIZE);
+    });
+  });
+
+  it('refuses to march during a battle', () => {
+    const state = createState();
+    const player = addPlayer(state, { battleId: 'battle' });
+
+    const [event] = orderMarch(state, player.id, { x: 10, y: 10 });
+
+    assert.ok(event.type === 'rejected');
+    assert.equal(player.march, undefined);
+  });
+
+  it('moves cavalry at double pace', () => {
+    assert.equal(getArmySpeed(army(10)), 1);
+    assert.equal(getArmySpeed(army(10, 0, 1)), 2);
+  });
+
+  it('walks the party to its destination and reports the arrival', () => {
+    const state = createState();
+    const player = addPlayer(state, { position: { x: 50, y: 50 } });
+    orderMarch(state, player.id, { x: 60, y: 50 });
+
+    const events: EngineEvent[] = [];
+    for (let i = 0; i < 100 && player.march; i++) events.push(...advanceMovement(state));
+
+    assert.deepEqual(eventTypes(events), ['arrived']);
+    assert.deepEqual(player.position, { x: 60, y: 50 });
+  });
+
+  it('re-paces a march when the army changes mid-way', () => {
+    const state = createState();
+    const player = addPlayer(state);
+    orderMarch(state, player.id, { x: 90, y: 50 });
+    player.army.push({ type: 'cavalry', count: 1, level: 1, xp: 0 });
+
+    assert.deepEqual(eventTypes(advanceMovement(state)), ['march_changed']);
+    assert.equal(player.march?.speed, 2 * MARCH_UNITS_PER_SECOND);
+  });
+});
+
+// ============================================
+// INCOME
+// ============================================
+
+describe('income', () => {
+  it('pays base income plus a tenth of each faction settlement, less wages', () => {
+    const state = createState();
+    addVillage(state, { income: 100 });
+    addVillage(state, { income: 100, owner: ENEMY });
+    const player = addPlayer(state, { gold: 0 });
+    const wages = getWages(player.army);
+
+    const events = collectIncome(state);
+
+    assert.equal(player.gold, BASE_INCOME + 10 - wages);
+    assert.deepEqual(events, [
+      { type: 'income_paid', playerId: player.id, wages, deserted: 0 },
+      { type: 'settlements_restocked' },
+    ]);
+  });
+
+  it('pays bandits nothing, however long they roam', () => {
+    const state = createState();
+    const bandit = addPlayer(state, { gold: 200, npc: 'bandit', faction: BANDIT_FACTION, army: army(15) });
+
+    for (let i = 0; i < 10; i++) collectIncome(state);
+
+    assert.equal(bandit.gold, 200);
+    assert.equal(getArmySize(bandit.army), 15);
+  });
+
+  it('loses unpaid troops to desertion', () => {
+    const state = createState();
+    // Wages of 200 against 50 income: three quarters of the army walks off
+    const player = addPlayer(state, { gold: 0, army: army(200) });
+
+    const [event] = collectIncome(state);
+
+    assert.ok(event.type === 'income_paid');
+    assert.equal(event.deserted, 150);
+    assert.equal(getArmySize(player.army), 50);
+    assert.equal(player.gold, 0);
+  });
+
+  it('keeps troops from deserting in the middle of a battle', () => {
+    const state = createState();
+    const player = addPlayer(state, { gold: 0, army: army(200), battleId: 'battle' });
+
+    collectIncome(state);
+
+    assert.equal(getArmySize(player.army), 200);
+  });
+
+  it('musters garrisons back up, except under siege', () => {
+    const state = createState();
+    const quiet = addVillage(state, { garrison: [] });
+    const besieged = addVillage(state, { garrison: [], owner: HOME });
+    startBattle(state, 'siege', 0, addPlayer(state, { faction: ENEMY }), null, besieged);
+
+    collectIncome(state);
+
+    assert.ok(getArmySize(quiet.garrison) > 0);
+    assert.equal(getArmySize(besieged.garrison), 0);
+  });
+
+  it('only pays out on income ticks', () => {
+    const state = createState();
+    const player = addPlayer(state, { gold: 0, army: [] });
+    const rng = createRng(1);
+
+    for (let i = 1; i < INCOME_TICKS; i++) advanceWorld(state, rng);
+    assert.equal(player.gold, 0);
+
+    const events = advanceWorld(state, rng);
+    assert.equal(player.gold, BASE_INCOME);
+    assert.ok(eventTypes(events).includes('income_paid'));
+  });
+});
+
+// ============================================
+// INTEREST MANAGEMENT
+// ============================================
+
+describe('interest management', () => {
+  it('keeps a party\'s purse, baggage, hero and standing from everyone but its own player', () => {
+    const state = createState();
+    const player = addPlayer(state, { hero: createHero(), cargo: { grain: 5 }, reputation: { [HOME]: 3 } });
+    const viewer = addPlayer(state, { faction: ENEMY });
+
+    const own = sanitizePlayer(player);
+    const seen = sanitizePlayer(player, viewer);
+
+    assert.equal(own.gold, 1000);
+    assert.ok(own.hero && own.cargo);
+    ['gold', 'cargo', 'hero', 'reputation'].forEach(key => assert.equal(key in seen, false, key));
+    assert.deepEqual(seen.army, player.army);
+  });
+
+  it('counts a settlement\'s garrison only for its own faction and for parties close by', () => {
+    const state = createState();
+    const castle = addVillage(state, { type: 'castle', garrison: army(30, 15) });
+    const owner = addPlayer(state, { position: { x: 95, y: 95 } });
+    const near = addPlayer(state, { faction: ENEMY, position: { x: 55, y: 50 } });
+    const distant = addPlayer(state, { faction: ENEMY, position: { x: 95, y: 95 } });
+
+    assert.deepEqual(sanitizeTerritory(castle, owner).garrison, castle.garrison);
+    assert.deepEqual(sanitizeTerritory(castle, near).garrison, castle.garrison);
+
+    const glimpsed = sanitizeTerritory(castle, distant);
+    assert.deepEqual(glimpsed.garrison, []);
+    assert.equal(glimpsed.garrisonEstimate, 50);
+    assert.equal(getArmySize(castle.garrison), 45);
+  });
+
+  it('shows a party glimpsed from afar without its troops, route, battle or band', () => {
+    const state = createState();
+    const player = addPlayer(state, { army: army(40, 20), partyId: 'band', battleId: 'battle' });
+    orderMarch(state, player.id, { x: 150, y: 50 });
+    const view = sanitizePlayer(player, addPlayer(state, { faction: ENEMY }));
+
+    const glimpsed = glimpsePlayer(view, getArmySize(player.army));
+
+    assert.deepEqual(glimpsed.army, []);
+    assert.equal(glimpsed.armyEstimate, 60);
+    assert.deepEqual(glimpsed.position, player.position);
+    assert.equal(glimpsed.march, undefined);
+    assert.equal(glimpsed.battleId, undefined);
+    assert.equal(glimpsed.partyId, undefined);
+  });
+
+  it('clears the route of a party that drops from detail to a glimpse', () => {
+    const state = createState();
+    const player = addPlayer(state);
+    orderMarch(state, player.id, { x: 150, y: 50 });
+    const view = sanitizePlayer(player, addPlayer(state, { faction: ENEMY }));
+
+    const change = diffPlayerView(view, glimpsePlayer(view, getArmySize(player.army)));
+
+    assert.equal(change?.march, null);
+    assert.deepEqual(change?.army, []);
+  });
+});
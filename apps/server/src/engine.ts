@@ -0,0 +1,628 @@
+import {
+  getArmyLimit,
+  getCommandBonus,
+  getLootRatio,
+  getStance,
+  getTerritoryIncome,
+  PARTY_RANGE,
+  SETTLEMENT_RANGE,
+  terrainAt,
+  TICK_MS,
+  UNIT_COSTS,
+} from '@warband/protocol';
+import { addUnits, grantExperience, grantHeroExperience } from './army.js';
+import {
+  applyLosses,
+  BATTLE_STAGES,
+  distributeLosses,
+  getArmyPower,
+  getArmySize,
+  poolArmies,
+  resolveStage,
+} from './battle.js';
+import {
+  BASE_INCOME,
+  BATTLE_MAX_ROUNDS,
+  BATTLE_PREPARE_TICKS,
+  BATTLE_STEP_TICKS,
+  INCOME_TICKS,
+  MARCH_UNITS_PER_SECOND,
+  QUEST_POST_TICKS,
+  RETREAT_LOSS_RATIO,
+} from './constants.js';
+import { advanceDiplomacy } from './diplomacy.js';
+import { driftMarket, payWages, refillRecruits } from './economy.js';
+import { getGarrisonMuster } from './garrison.js';
+import { advanceMarch, distance, getArmySpeed, planMarch, terrainSpeedModifier } from './movement.js';
+import { expireInvites, getPartyMembers } from './party.js';
+import { advanceQuests, postQuests, settleBattleQuests } from './quests.js';
+import { pushBattleReport } from './reports.js';
+import { recordRolls, replayRolls, type Rng } from './rng.js';
+import type {
+  Battle,
+  BattleReport,
+  BattleResult,
+  BattleSide,
+  FactionRelation,
+  GameState,
+  Player,
+  Position,
+  Proposal,
+  QuestRecord,
+  Territory,
+  Unit,
+  UnitType,
+} from './types.js';
+
+// ============================================
+// SIMULATION ENGINE
+// ============================================
+
+// The rules that move a world forward. Nothing here knows about sockets or the wall clock: each
+// function works on the state it is handed, draws any luck from the rng it is handed, and reports
+// what happened as events for the room to tell its players about.
+export type EngineEvent =
+  // An order the rules refused; `reason` is meant for the player who gave it
+  | { type: 'rejected'; playerId: string; reason: string }
+  | { type: 'recruited'; playerId: string; territoryId: string }
+  // A party set off, changed pace or was halted
+  | { type: 'march_changed'; playerId: string }
+  | { type: 'arrived'; playerId: string }
+  | { type: 'battle_started'; battle: Battle }
+  | { type: 'battle_updated'; battle: Battle }
+  | {
+      type: 'battle_ended';
+      battle: Battle;
+      result: BattleResult;
+      // Also filed in the state's battle history
+      report: BattleReport;
+      // Gold each player won or lost in loot
+      lootShares: Record<string, number>;
+      captured: boolean;
+      previousOwner: string | null;
+    }
+  // `playerId` is invited into the party led by `leaderId`
+  | { type: 'party_invited'; playerId: string; leaderId: string }
+  | { type: 'party_declined'; playerId: string; name: string }
+  // Someone joined or left; `leftIds` are the players no longer in it, every one of them if it broke up
+  | { type: 'party_changed'; partyId: string; leftIds: string[] }
+  | { type: 'transferred'; playerId: string; targetId: string; gold: number; units: Unit[] }
+  // The hero's gear, companions or attributes changed at the player's own bidding
+  | { type: 'hero_changed'; playerId: string }
+  | { type: 'hero_levelled'; playerId: string; level: number }
+  // Jobs were posted afresh or one was taken off a settlement's board
+  | { type: 'quest_offers_changed' }
+  // A job was taken or made progress
+  | { type: 'quest_changed'; playerId: string }
+  | { type: 'quest_completed'; playerId: string; quest: QuestRecord }
+  | { type: 'quest_failed'; playerId: string; quest: QuestRecord; reason: string }
+  | { type: 'proposal_expired'; proposal: Proposal }
+  | { type: 'truce_ended'; relation: FactionRelation }
+  | { type: 'income_paid'; playerId: string; wages: number; deserted: number }
+  // Garrisons, recruit pools and markets all moved toward their targets
+  | { type: 'settlements_restocked' };
+
+export type EngineEventOf<T extends EngineEvent['type']> = Extract<EngineEvent, { type: T }>;
+
+/**
+ * Runs one game loop tick: marches, battles, quests and diplomatic timers advance, every
+ * INCOME_TICKS ticks parties are paid and settlements restock, and every QUEST_POST_TICKS
+ * ticks settlements post fresh jobs.
+ */
+export function advanceWorld(state: GameState, rng: Rng): EngineEvent[] {
+  state.tick++;
+
+  const events = [...advanceMovement(state), ...advanceBattles(state, rng), ...advanceQuests(state)];
+
+  expireInvites(state);
+  const { expired, ended } = advanceDiplomacy(state);
+  expired.forEach(proposal => events.push({ type: 'proposal_expired', proposal }));
+  ended.forEach(relation => events.push({ type: 'truce_ended', relation }));
+
+  if (state.tick % INCOME_TICKS === 0) {
+    events.push(...collectIncome(state));
+  }
+
+  if (state.tick % QUEST_POST_TICKS === 0) {
+    events.push(...postQuests(state, rng));
+  }
+
+  return events;
+}
+
+// ============================================
+// ORDERS
+// ============================================
+
+// The destination is clamped to the map; the party is walked there over the following ticks
+export function orderMarch(state: GameState, playerId: string, destination: Position): EngineEvent[] {
+  const player = state.players.get(playerId);
+  if (!player) return [];
+
+  if (player.battleId) return [{ type: 'rejected', playerId, reason: 'Cannot move during battle' }];
+
+  const [leader, ...followers] = getPartyMembers(state, player);
+  if (leader !== player) return [{ type: 'rejected', playerId, reason: `${leader.name} leads your party's march` }];
+
+  // A party keeps to the pace of its slowest troops
+  const march = planMarch(
+    state.map,
+    player.position,
+    destination,
+    poolArmies([player, ...followers].map(p => p.army)),
+    player.hero,
+  );
+  if (!march) return [{ type: 'rejected', playerId, reason: 'No route to that destination' }];
+
+  player.march = march;
+  const events: EngineEvent[] = [{ type: 'march_changed', playerId }];
+
+  // The rest of the party falls in behind, unless held up in a battle
+  followers.forEach(follower => {
+    if (follower.battleId) return;
+    follower.march = structuredClone(march);
+    events.push({ type: 'march_changed', playerId: follower.id });
+  });
+  return events;
+}
+
+export function recruit(state: GameState, playerId: string, unitType: UnitType, count: number): EngineEvent[] {
+  const player = state.players.get(playerId);
+  if (!player) return [];
+
+  if (player.battleId) return [{ type: 'rejected', playerId, reason: 'Cannot recruit during battle' }];
+
+  // Volunteers only sign up at settlements held by the party's faction or its allies
+  const settlement = findNearbySettlement(
+    state,
+    player,
+    t => !!t.owner && getStance(state.diplomacy.relations, player.faction, t.owner) === 'alliance',
+  );
+  if (!settlement) {
+    return [{ type: 'rejected', playerId, reason: 'Recruit at a settlement held by your faction or its allies' }];
+  }
+
+  const available = settlement.recruits[unitType];
+  if (count > available) {
+    return [{ type: 'rejected', playerId, reason: `Only ${available} ${unitType} volunteers in ${settlement.name}` }];
+  }
+
+  const limit = getArmyLimit(player.hero);
+  if (getArmySize(player.army) + count > limit) {
+    return [{ type: 'rejected', playerId, reason: `Your hero can lead no more than ${limit} soldiers` }];
+  }
+
+  const cost = UNIT_COSTS[unitType] * count;
+  if (player.gold < cost) return [{ type: 'rejected', playerId, reason: 'Not enough gold' }];
+
+  player.gold -= cost;
+  settlement.recruits[unitType] -= count;
+
+  // Fresh recruits join the raw level 1 stack; veterans keep their own stacks
+  addUnits(player.army, unitType, 1, count);
+  return [{ type: 'recruited', playerId, territoryId: settlement.id }];
+}
+
+export function findNearbySettlement(
+  state: GameState,
+  player: Player,
+  accept: (territory: Territory) => boolean,
+): Territory | undefined {
+  return state.territories
+    .filter(t => accept(t) && distance(player.position, t.position) <= SETTLEMENT_RANGE)
+    .sort((a, b) => distance(player.position, a.position) - distance(player.position, b.position))[0];
+}
+
+// ============================================
+// MOVEMENT
+// ============================================
+
+export function advanceMovement(state: GameState): EngineEvent[] {
+  const events: EngineEvent[] = [];
+
+  state.players.forEach(player => {
+    const march = player.march;
+    if (!march) return;
+
+    // Recruits or losses anywhere in the party can change the pace mid-march; the leader's mount sets it
+    const members = getPartyMembers(state, player);
+    const speed = getArmySpeed(poolArmies(members.map(p => p.army)), members[0].hero) * MARCH_UNITS_PER_SECOND;
+    if (speed !== march.speed) {
+      march.speed = speed;
+      events.push({ type: 'march_changed', playerId: player.id });
+    }
+
+    if (advanceMarch(player.position, march, terrainSpeedModifier(state.map, player.position))) {
+      player.march = undefined;
+      events.push({ type: 'arrived', playerId: player.id });
+    }
+  });
+
+  return events;
+}
+
+// ============================================
+// BATTLES
+// ============================================
+
+// Whoever attacks is checked by the caller; the battle opens here and is fought out by advanceBattles.
+// Party-mates standing by either party are drawn in to fight beside it.
+export function startBattle(
+  state: GameState,
+  id: string,
+  startTime: number,
+  attacker: Player,
+  defender: Player | null,
+  territory?: Territory,
+): EngineEvent[] {
+  const attackers = rallyParty(state, attacker);
+  const defenders = defender ? rallyParty(state, defender) : [];
+  const attackerArmy = poolArmies(attackers.map(p => p.army));
+  const defenderArmy = poolArmies(defender ? defenders.map(p => p.army) : [territory!.garrison]);
+  const attackerHero = getCommander(attackers)?.hero;
+  const defenderHero = getCommander(defenders)?.hero;
+
+  const battle: Battle = {
+    id,
+    attackerId: attacker.id,
+    defenderId: defender ? defender.id : null,
+    members: { attacker: attackers.map(p => p.id), defender: defenders.map(p => p.id) },
+    strength: Object.fromEntries([...attackers, ...defenders].map(p => [p.id, getArmyPower(p.army, p.hero)])),
+    territory: territory?.id,
+    phase: 'preparing',
+    startTime,
+    round: 1,
+    stage: BATTLE_STAGES[0],
+    nextStepTick: state.tick + BATTLE_PREPARE_TICKS,
+    attackPower: getArmyPower(attackerArmy, attackerHero),
+    defensePower: getArmyPower(defenderArmy, defenderHero),
+    // Fought on the defender's ground
+    terrain: terrainAt(state.map, defender ? defender.position : territory!.position),
+    events: [],
+    startTick: state.tick,
+    opening: {
+      attacker: {
+        id: attacker.id,
+        memberIds: attackers.map(p => p.id),
+        name: getSideName(attackers),
+        faction: attacker.faction,
+        power: getArmyPower(attackerArmy, attackerHero),
+        command: getCommandBonus(attackerHero),
+        before: attackerArmy,
+      },
+      defender: {
+        id: defender ? defender.id : null,
+        memberIds: defenders.map(p => p.id),
+        name: defender ? getSideName(defenders) : `${territory!.name} garrison`,
+        faction: defender ? defender.faction : territory!.owner,
+        power: getArmyPower(defenderArmy, defenderHero),
+        command: getCommandBonus(defenderHero),
+        before: defenderArmy,
+      },
+    },
+    fortifications: territory ? { ...territory.buildings } : undefined,
+    stages: [],
+  };
+
+  state.battles.set(battle.id, battle);
+  const events: EngineEvent[] = [];
+
+  // Armies hold their ground once battle is joined
+  [...attackers, ...defenders].forEach(p => {
+    p.battleId = battle.id;
+    if (p.march) {
+      p.march = undefined;
+      events.push({ type: 'march_changed', playerId: p.id });
+    }
+  });
+
+  events.push({ type: 'battle_started', battle });
+  return events;
+}
+
+// The player and whichever of their party-mates are close enough, free and armed to join in
+function rallyParty(state: GameState, player: Player): Player[] {
+  return [player, ...getPartyMembers(state, player).filter(p => p !== player
+    && !p.battleId
+    && p.army.length > 0
+    && distance(p.position, player.position) <= PARTY_RANGE)];
+}
+
+// The ablest general on a side leads all of it into battle
+function getCommander(players: Player[]): Player | undefined {
+  return [...players].sort((a, b) => getCommandBonus(b.hero) - getCommandBonus(a.hero))[0];
+}
+
+function getSideName(players: Player[]): string {
+  if (players.length === 1) return players[0].name;
+  if (players.length === 2) return `${players[0].name} and ${players[1].name}`;
+  return `${players[0].name} and ${players.length - 1} others`;
+}
+
+export function getBattleSides(state: GameState, battle: Battle) {
+  const present = (ids: string[]) => ids
+    .map(id => state.players.get(id))
+    .filter((p): p is Player => !!p);
+  const attackers = present(battle.members.attacker);
+  const defenders = present(battle.members.defender);
+  const territory = battle.territory
+    ? state.territories.find(t => t.id === battle.territory)
+    : undefined;
+
+  // Each side fights as one pooled line; the armies behind it are where its losses are taken
+  const attackerArmies = attackers.map(p => p.army);
+  const defenderArmies = territory ? [territory.garrison] : defenders.map(p => p.army);
+
+  return {
+    attackers,
+    defenders,
+    attacker: attackers[0] as Player | undefined,
+    defender: defenders[0] as Player | undefined,
+    territory,
+    attackerName: attackers.length > 0 ? getSideName(attackers) : 'Deserters',
+    defenderName: territory ? `${territory.name} garrison` : defenders.length > 0 ? getSideName(defenders) : 'Deserters',
+    attackerArmies,
+    defenderArmies,
+    attackerArmy: poolArmies(attackerArmies),
+    defenderArmy: poolArmies(defenderArmies),
+  };
+}
+
+export function isUnderSiege(state: GameState, territory: Territory): boolean {
+  return Array.from(state.battles.values()).some(b => b.territory === territory.id);
+}
+
+export function advanceBattles(state: GameState, rng: Rng): EngineEvent[] {
+  const events: EngineEvent[] = [];
+
+  state.battles.forEach(battle => {
+    const sides = getBattleSides(state, battle);
+
+    // A side whose players have all gone counts as having fled
+    if (sides.attackers.length === 0) {
+      events.push(...endBattle(state, battle, 'defender', 'attacker'));
+      return;
+    }
+    if (battle.defenderId && sides.defenders.length === 0) {
+      events.push(...endBattle(state, battle, 'attacker', 'defender'));
+      return;
+    }
+
+    if (state.tick < battle.nextStepTick) return;
+
+    battle.phase = 'fighting';
+    const rolls: number[] = [];
+    const { attackerKills, defenderKills, attackerLosses, defenderLosses } = resolveStage(
+      sides.attackerArmy,
+      sides.defenderArmy,
+      battle.stage,
+      battle.terrain,
+      recordRolls(rng, rolls),
+      battle.fortifications,
+      getCommand(battle.opening),
+    );
+    // The pooled lines are copies; the fallen are struck from the armies that sent them
+    distributeLosses(sides.attackerArmies, attackerLosses);
+    distributeLosses(sides.defenderArmies, defenderLosses);
+    battle.events.push(
+      { round: battle.round, stage: battle.stage, side: 'attacker', kills: attackerKills },
+      { round: battle.round, stage: battle.stage, side: 'defender', kills: defenderKills },
+    );
+    battle.stages.push({ round: battle.round, stage: battle.stage, attackerLosses, defenderLosses, rolls });
+
+    const stageIndex = BATTLE_STAGES.indexOf(battle.stage);
+    if (stageIndex === BATTLE_STAGES.length - 1) {
+      battle.round++;
+      battle.stage = BATTLE_STAGES[0];
+    } else {
+      battle.stage = BATTLE_STAGES[stageIndex + 1];
+    }
+    battle.nextStepTick = state.tick + BATTLE_STEP_TICKS;
+
+    // Mutual annihilation leaves the defender holding the field
+    if (sides.defenderArmy.length === 0 && sides.attackerArmy.length > 0) {
+      events.push(...endBattle(state, battle, 'attacker'));
+    } else if (sides.attackerArmy.length === 0) {
+      events.push(...endBattle(state, battle, 'defender'));
+    } else if (battle.round > BATTLE_MAX_ROUNDS) {
+      const command = getCommand(battle.opening);
+      const attackerHolds = getArmyPower(sides.attackerArmy) * command.attacker
+        > getArmyPower(sides.defenderArmy) * command.defender;
+      events.push(...endBattle(state, battle, attackerHolds ? 'attacker' : 'defender'));
+    } else {
+      events.push({ type: 'battle_updated', battle });
+    }
+  });
+
+  return events;
+}
+
+// Settles the aftermath: retreat losses, experience, loot and a captured settlement changing hands
+export function endBattle(state: GameState, battle: Battle, winner: BattleSide, retreated?: BattleSide): EngineEvent[] {
+  battle.phase = 'ended';
+  battle.winner = winner;
+  battle.retreated = retreated;
+
+  const sides = getBattleSides(state, battle);
+  const { attackers, defenders, territory } = sides;
+
+  if (retreated) {
+    (retreated === 'attacker' ? sides.attackerArmies : sides.defenderArmies)
+      .forEach(army => applyLosses(army, RETREAT_LOSS_RATIO));
+  }
+  const survivors = { attacker: poolArmies(sides.attackerArmies), defender: poolArmies(sides.defenderArmies) };
+
+  // Survivors on both sides learn from the fight, the victors most of all. A side's kills are
+  // credited to its players by the strength each brought.
+  const killsBy = (side: BattleSide) => battle.events
+    .filter(e => e.side === side)
+    .reduce((sum, e) => sum + e.kills, 0);
+  const levelled: EngineEvent[] = [];
+  const creditSide = (side: BattleSide, players: Player[]) => {
+    const shares = splitByStrength(battle, players, killsBy(side));
+    players.forEach(p => {
+      grantExperience(p.army, shares.get(p.id)!, winner === side);
+      if (p.hero && grantHeroExperience(p.hero, shares.get(p.id)!, winner === side) > 0) {
+        levelled.push({ type: 'hero_levelled', playerId: p.id, level: p.hero.level });
+      }
+    });
+  };
+  creditSide('attacker', attackers);
+  if (territory) grantExperience(territory.garrison, killsBy('defender'), winner === 'defender');
+  else creditSide('defender', defenders);
+
+  // Loot only changes hands when the losers stay to the end: each gives up part of their purse,
+  // as much as the shrewdest trader among the victors can wring out of them, and the pot is
+  // shared among the victors. `lootShares` is each player's gain or loss.
+  const lootShares: Record<string, number> = {};
+  let loot = 0;
+  const winners = winner === 'attacker' ? attackers : defenders;
+  const losers = winner === 'attacker' ? defenders : attackers;
+  if (winners.length > 0 && !retreated) {
+    const ratio = Math.max(...winners.map(p => getLootRatio(p.hero)));
+    losers.forEach(p => {
+      const lost = Math.floor(p.gold * ratio);
+      p.gold -= lost;
+      loot += lost;
+      lootShares[p.id] = -lost;
+    });
+    splitByStrength(battle, winners, loot, true).forEach((share, id) => {
+      state.players.get(id)!.gold += share;
+      lootShares[id] = share;
+    });
+  }
+
+  // Bandit hunts and caravans riding with either side learn how it went
+  const settled = settleBattleQuests(state, winners, losers);
+
+  const previousOwner = territory?.owner ?? null;
+  const captured = !!territory && attackers.length > 0 && winner === 'attacker';
+  if (captured) {
+    // The old garrison is routed; the new owner's levy musters from nothing
+    territory!.garrison.length = 0;
+    territory!.owner = attackers[0].faction;
+  }
+
+  const result: BattleResult = {
+    battleId: battle.id,
+    winner: winner === 'attacker' ? sides.attackerName : sides.defenderName,
+    loser: winner === 'attacker' ? sides.defenderName : sides.attackerName,
+    attackPower: battle.attackPower,
+    defensePower: battle.defensePower,
+    rounds: Math.min(battle.round, BATTLE_MAX_ROUNDS),
+    retreated: retreated ?? null,
+    territoryId: territory?.id,
+    loot,
+  };
+
+  const report: BattleReport = {
+    id: battle.id,
+    startedAt: battle.startTime,
+    endedAt: battle.startTime + (state.tick - battle.startTick) * TICK_MS,
+    terrain: battle.terrain,
+    territoryId: battle.territory,
+    fortifications: battle.fortifications,
+    attacker: { ...battle.opening.attacker, after: survivors.attacker },
+    defender: { ...battle.opening.defender, after: survivors.defender },
+    winner,
+    retreated: retreated ?? null,
+    rounds: result.rounds,
+    loot,
+    captured,
+    stages: battle.stages,
+  };
+  pushBattleReport(state.reports, report);
+
+  [...attackers, ...defenders].forEach(p => { p.battleId = undefined; });
+  state.battles.delete(battle.id);
+
+  return [{ type: 'battle_ended', battle, result, report, lootShares, captured, previousOwner }, ...levelled, ...settled];
+}
+
+// How hard each side strikes for its commander, as filed when the battle opened
+function getCommand(sides: Record<BattleSide, { command?: number }>): Record<BattleSide, number> {
+  return { attacker: sides.attacker.command ?? 1, defender: sides.defender.command ?? 1 };
+}
+
+// Splits `amount` among a side's players by the strength each brought to the battle. Whole shares
+// round down and the odd remainder goes to the first of them.
+function splitByStrength(battle: Battle, players: Player[], amount: number, whole = false): Map<string, number> {
+  const strength = (p: Player) => battle.strength[p.id] ?? 0;
+  const total = players.reduce((sum, p) => sum + strength(p), 0);
+  const shares = new Map(players.map(p => {
+    const share = total > 0 ? (amount * strength(p)) / total : amount / players.length;
+    return [p.id, whole ? Math.floor(share) : share];
+  }));
+  if (whole && players.length > 0) {
+    const handedOut = Array.from(shares.values()).reduce((a, b) => a + b, 0);
+    shares.set(players[0].id, shares.get(players[0].id)! + amount - handedOut);
+  }
+  return shares;
+}
+
+// Fights a recorded battle over again from its opening armies and recorded rolls, giving both
+// armies as they stood after each stage. The rules are the same ones the battle was fought by,
+// so a faithful record ends where the report says it did.
+export function reenactBattle(report: BattleReport): { attacker: Unit[]; defender: Unit[] }[] {
+  const attackerArmy = poolArmies([report.attacker.before]);
+  const defenderArmy = poolArmies([report.defender.before]);
+
+  return report.stages.map(stage => {
+    resolveStage(
+      attackerArmy,
+      defenderArmy,
+      stage.stage,
+      report.terrain,
+      replayRolls(stage.rolls),
+      report.fortifications,
+      getCommand(report),
+    );
+    return { attacker: poolArmies([attackerArmy]), defender: poolArmies([defenderArmy]) };
+  });
+}
+
+// ============================================
+// INCOME AND UPKEEP
+// ============================================
+
+// Pays every party but the bandits its income and then its troops' wages, then lets settlements recover
+export function collectIncome(state: GameState): EngineEvent[] {
+  const events: EngineEvent[] = [];
+
+  state.players.forEach(player => {
+    // Bandits live off plunder and keep no payroll; gold they never spend would only pile up as loot
+    if (player.npc === 'bandit') return;
+
+    player.gold += BASE_INCOME;
+    state.territories.forEach(t => {
+      if (t.owner === player.faction) player.gold += getTerritoryIncome(t) / 10;
+    });
+
+    // Troops are paid after income comes in; whoever goes unpaid deserts
+    const { wages, deserted } = payWages(player);
+    events.push({ type: 'income_paid', playerId: player.id, wages, deserted });
+  });
+
+  // Garrisons muster back toward full strength, volunteers gather and markets restock
+  state.territories.forEach(territory => {
+    replenishGarrison(state, territory);
+    refillRecruits(territory);
+    driftMarket(territory);
+  });
+  events.push({ type: 'settlements_restocked' });
+
+  return events;
+}
+
+function replenishGarrison(state: GameState, territory: Territory) {
+  if (isUnderSiege(state, territory)) return;
+
+  getGarrisonMuster(territory).forEach(base => {
+    // Veteran stacks count toward full strength; new levies muster as level 1
+    const present = territory.garrison
+      .filter(u => u.type === base.type)
+      .reduce((sum, u) => sum + u.count, 0);
+    const refill = Math.min(Math.ceil(base.count * 0.1), base.count - present);
+    if (refill > 0) addUnits(territory.garrison, base.type, 1, refill);
+  });
+}
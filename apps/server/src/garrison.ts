@@ -0,0 +1,19 @@
+import { BUILDING_EFFECTS } from '@warband/protocol';
+import { getArmySize } from './battle.js';
+import { GARRISON_CAPACITY_RATIO, GARRISONS } from './constants.js';
+import type { Territory, Unit } from './types.js';
+
+// ============================================
+// GARRISONS
+// ============================================
+
+// Full muster the settlement levies on its own; barracks house more of them
+export function getGarrisonMuster(territory: Territory): Unit[] {
+  const scale = 1 + territory.buildings.barracks * BUILDING_EFFECTS.barracksGarrisonBonus;
+  return GARRISONS[territory.type].map(u => ({ ...u, count: Math.round(u.count * scale) }));
+}
+
+// Most soldiers the garrison can hold once owners station their own troops there
+export function getGarrisonCapacity(territory: Territory): number {
+  return getArmySize(getGarrisonMuster(territory)) * GARRISON_CAPACITY_RATIO;
+}
@@ -0,0 +1,106 @@
+import type { GuardRules } from './types.js';
+
+// ============================================
+// CONNECTION GUARD
+// ============================================
+
+export interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface SuspiciousEvent {
+  time: number;
+  reason: string;
+}
+
+export type Verdict = 'ok' | 'kick' | 'ban';
+
+interface Offender {
+  events: SuspiciousEvent[];
+  // Strikes before this time were already punished by a kick
+  clearedAt: number;
+  kicks: number[];
+}
+
+// Rules from the environment override the defaults key by key; a broken override is ignored
+export function loadGuardRules(defaults: GuardRules, json: string | undefined): GuardRules {
+  if (!json) return defaults;
+  try {
+    const overrides = JSON.parse(json) as Partial<GuardRules>;
+    return { ...defaults, ...overrides, messageCosts: { ...defaults.messageCosts, ...overrides.messageCosts } };
+  } catch (e) {
+    console.warn('Ignoring invalid WARBAND_GUARD_RULES:', e);
+    return defaults;
+  }
+}
+
+export function createTokenBucket(rules: GuardRules, now: number): TokenBucket {
+  return { tokens: rules.bucketCapacity, updatedAt: now };
+}
+
+// Refills for the time since the last message, then spends `cost` if there is enough
+export function takeTokens(bucket: TokenBucket, cost: number, rules: GuardRules, now: number): boolean {
+  const refilled = ((now - bucket.updatedAt) / 1000) * rules.refillPerSecond;
+  bucket.tokens = Math.min(rules.bucketCapacity, bucket.tokens + refilled);
+  bucket.updatedAt = now;
+  if (bucket.tokens < cost) return false;
+  bucket.tokens -= cost;
+  return true;
+}
+
+/**
+ * Tracks suspicious activity per key (a player id or a connection address), escalating
+ * repeat offenders from a kick to a temporary ban according to the rules.
+ */
+export function createGuard(rules: GuardRules) {
+  const records = new Map<string, Offender>();
+  const bans = new Map<string, number>();
+
+  const recordFor = (key: string): Offender => {
+    let record = records.get(key);
+    if (!record) {
+      record = { events: [], clearedAt: 0, kicks: [] };
+      records.set(key, record);
+    }
+    return record;
+  };
+
+  return {
+    rules,
+
+    // When the ban on `key` lifts, or null if it is not banned
+    bannedUntil(key: string, now: number): number | null {
+      const until = bans.get(key);
+      if (until === undefined) return null;
+      if (until > now) return until;
+      bans.delete(key);
+      return null;
+    },
+
+    ban(keys: string[], now: number) {
+      keys.forEach(key => bans.set(key, now + rules.banMs));
+    },
+
+    // Logs the event and decides whether the offender has crossed a threshold
+    flag(key: string, reason: string, now: number): Verdict {
+      const record = recordFor(key);
+      record.events.push({ time: now, reason });
+      if (record.events.length > rules.logLimit) record.events.splice(0, record.events.length - rules.logLimit);
+
+      const since = Math.max(record.clearedAt, now - rules.strikeWindowMs);
+      const strikes = record.events.filter(e => e.time > since).length;
+      if (strikes < rules.kickAfterStrikes) return 'ok';
+
+      record.clearedAt = now;
+      record.kicks = [...record.kicks.filter(t => now - t < rules.kickWindowMs), now];
+      return record.kicks.length >= rules.banAfterKicks ? 'ban' : 'kick';
+    },
+
+    getLog(key: string): SuspiciousEvent[] {
+      return records.get(key)?.events ?? [];
+    },
+  };
+}
+
+export type Guard = ReturnType<typeof createGuard>;
@@ -0,0 +1,114 @@
+import {
+  COMPANION_LIMIT,
+  COMPANIONS,
+  getItemSellPrice,
+  INVENTORY_LIMIT,
+  isAtWar,
+  ITEMS,
+  MAX_ATTRIBUTE,
+  type ClientMessageOf,
+  type HeroAttribute,
+  type ItemId,
+} from '@warband/protocol';
+import { findNearbySettlement, type EngineEvent } from './engine.js';
+import type { GameState, Player, Territory } from './types.js';
+
+// ============================================
+// HEROES
+// ============================================
+
+// Gear and companions are only to be had in cities whose owners are not at war with the hero's faction
+function findNearbyCity(state: GameState, player: Player): Territory | undefined {
+  return findNearbySettlement(
+    state,
+    player,
+    t => t.type === 'city' && (!t.owner || !isAtWar(state.diplomacy.relations, player.faction, t.owner)),
+  );
+}
+
+export function tradeItem(state: GameState, playerId: string, message: ClientMessageOf<'item_trade'>): EngineEvent[] {
+  const player = state.players.get(playerId);
+  if (!player?.hero) return [];
+
+  const reject = (reason: string): EngineEvent[] => [{ type: 'rejected', playerId, reason }];
+  if (player.battleId) return reject('Cannot trade during battle');
+  if (!findNearbyCity(state, player)) return reject('No friendly city nearby');
+
+  const { hero } = player;
+  const item = ITEMS[message.itemId];
+  if (message.action === 'buy') {
+    if (hero.inventory.length >= INVENTORY_LIMIT) return reject('Your saddlebags are full');
+    if (player.gold < item.price) return reject('Not enough gold');
+    player.gold -= item.price;
+    hero.inventory.push(message.itemId);
+  } else {
+    // Only what is stowed can be sold; equipped gear has to be swapped out first
+    const index = hero.inventory.indexOf(message.itemId);
+    if (index === -1) return reject(`You are not carrying a spare ${item.name}`);
+    hero.inventory.splice(index, 1);
+    player.gold += getItemSellPrice(message.itemId);
+  }
+  return [{ type: 'hero_changed', playerId }];
+}
+
+// The item in the slot, if any, goes back into the inventory in its place
+export function equipItem(state: GameState, playerId: string, itemId: ItemId): EngineEvent[] {
+  const player = state.players.get(playerId);
+  if (!player?.hero) return [];
+
+  const { hero } = player;
+  const index = hero.inventory.indexOf(itemId);
+  if (index === -1) return [{ type: 'rejected', playerId, reason: `You are not carrying a ${ITEMS[itemId].name}` }];
+  if (player.battleId) return [{ type: 'rejected', playerId, reason: 'Cannot change gear during battle' }];
+
+  const { slot } = ITEMS[itemId];
+  const previous = hero.equipment[slot];
+  hero.inventory.splice(index, 1);
+  if (previous) hero.inventory.push(previous);
+  hero.equipment[slot] = itemId;
+  return [{ type: 'hero_changed', playerId }];
+}
+
+// A companion serves one hero at a time; dismissed, they go back to waiting in the taverns
+export function manageCompanion(state: GameState, playerId: string, message: ClientMessageOf<'companion'>): EngineEvent[] {
+  const player = state.players.get(playerId);
+  if (!player?.hero) return [];
+
+  const reject = (reason: string): EngineEvent[] => [{ type: 'rejected', playerId, reason }];
+  const { hero } = player;
+  const { companionId } = message;
+  const companion = COMPANIONS[companionId];
+
+  if (message.action === 'dismiss') {
+    if (!hero.companions.includes(companionId)) return reject(`${companion.name} does not ride with you`);
+    hero.companions = hero.companions.filter(id => id !== companionId);
+    return [{ type: 'hero_changed', playerId }];
+  }
+
+  if (player.battleId) return reject('Cannot hire companions during battle');
+  if (hero.companions.includes(companionId)) return reject(`${companion.name} already rides with you`);
+  if (!findNearbyCity(state, player)) return reject('Companions are found in the taverns of friendly cities');
+  const employer = Array.from(state.players.values()).find(p => p.hero?.companions.includes(companionId));
+  if (employer) return reject(`${companion.name} rides with ${employer.name}`);
+  if (hero.companions.length >= COMPANION_LIMIT) return reject(`You can keep no more than ${COMPANION_LIMIT} companions`);
+  if (player.gold < companion.hireCost) return reject('Not enough gold');
+
+  player.gold -= companion.hireCost;
+  hero.companions.push(companionId);
+  return [{ type: 'hero_changed', playerId }];
+}
+
+export function trainAttribute(state: GameState, playerId: string, attribute: HeroAttribute): EngineEvent[] {
+  const player = state.players.get(playerId);
+  if (!player?.hero) return [];
+
+  const { hero } = player;
+  if (hero.points === 0) return [{ type: 'rejected', playerId, reason: 'No attribute points to spend' }];
+  if (hero.attributes[attribute] >= MAX_ATTRIBUTE) {
+    return [{ type: 'rejected', playerId, reason: `Your ${attribute} cannot be trained further` }];
+  }
+
+  hero.points--;
+  hero.attributes[attribute]++;
+  return [{ type: 'hero_changed', playerId }];
+}
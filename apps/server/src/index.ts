@@ -1,408 +1,508 @@
+import { randomInt } from 'crypto';
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import path from 'path';
 import { WebSocketServer, WebSocket } from 'ws';
 import { v4 as uuid } from 'uuid';
+import {
+  checkCredentials,
+  DEFAULT_ROOM_ID,
+  MIN_PROTOCOL_VERSION,
+  parseAuthRequest,
+  parseClientMessage,
+  PROTOCOL_VERSION,
+  type AuthResponse,
+  type ClientMessageOf,
+  type JoinMessage,
+  type LobbyMessage,
+  type ResumeMessage,
+  type RoomInfo,
+} from '@warband/protocol';
+import { createJsonAccountStore, hashPassword, verifyPassword, type Account } from './accounts.js';
+import { createWordFilter, type ChatFilter } from './chat.js';
+import {
+  CHAT_BLOCKED_WORDS,
+  GUARD_RULES,
+  MAX_ROOMS,
+  MAX_ROOMS_PER_OWNER,
+  ROOM_CODE_ALPHABET,
+  ROOM_CODE_LENGTH,
+  ROOM_MAX_PLAYERS,
+} from './constants.js';
+import { createGuard, createTokenBucket, loadGuardRules, takeTokens } from './guard.js';
+import { createJsonFileStore, createJsonRoomRegistry, type RoomRecord } from './persistence.js';
+import { randomSeed } from './rng.js';
+import { createRoom, send, type Room, type RoomOptions } from './room.js';
+import { createLoginToken, verifyLoginToken, verifyResumeToken } from './session.js';
 
 // ============================================
-// TYPES
+// SERVER STATE
 // ============================================
 
-interface Position {
-  x: number;
-  y: number;
-}
-
-interface Unit {
-  type: 'infantry' | 'archer' | 'cavalry';
-  count: number;
-  level: number;
-}
-
-interface Player {
-  id: string;
-  name: string;
-  faction: string;
-  position: Position;
-  gold: number;
-  army: Unit[];
-  color: string;
-  ws?: WebSocket;
-}
-
-interface Territory {
-  id: string;
-  name: string;
-  position: Position;
-  owner: string | null;
-  type: 'village' | 'castle' | 'city';
-  income: number;
-}
+const SAVE_FILE = process.env.WARBAND_SAVE_FILE || 'data/world.json';
+const ACCOUNTS_FILE = process.env.WARBAND_ACCOUNTS_FILE || 'data/accounts.json';
+// Rooms players open get a save each in here, next to the list of them
+const ROOMS_DIR = process.env.WARBAND_ROOMS_DIR || 'data/rooms';
 
-interface Battle {
-  id: string;
-  attackerId: string;
-  defenderId: string | null;
-  territory?: string;
-  phase: 'preparing' | 'fighting' | 'ended';
-  startTime: number;
-}
+const accountStore = createJsonAccountStore(ACCOUNTS_FILE);
+const roomRegistry = createJsonRoomRegistry(path.join(ROOMS_DIR, 'index.json'));
 
-interface GameState {
-  players: Map<string, Player>;
-  territories: Territory[];
-  battles: Map<string, Battle>;
-  tick: number;
-}
+// Swap in any ChatFilter here; by default blocked words (comma-separated in the env) are masked
+const chatFilter: ChatFilter = createWordFilter(
+  process.env.WARBAND_CHAT_BLOCKLIST?.split(',').map(w => w.trim()).filter(Boolean) ?? CHAT_BLOCKED_WORDS,
+);
 
-// ============================================
-// GAME CONSTANTS
-// ============================================
+const guard = createGuard(loadGuardRules(GUARD_RULES, process.env.WARBAND_GUARD_RULES));
 
-const MAP_SIZE = 100;
-const FACTIONS = ['Swadia', 'Vaegirs', 'Khergit', 'Nord', 'Rhodok', 'Sarranid'];
-const FACTION_COLORS = ['#3b82f6', '#ef4444', '#22c55e', '#f59e0b', '#8b5cf6', '#ec4899'];
+// Fixing the seed reproduces the same terrain and settlements in the public world on every fresh start
+const MAP_SEED = process.env.WARBAND_MAP_SEED ? Number(process.env.WARBAND_MAP_SEED) : randomSeed();
 
-const UNIT_STATS = {
-  infantry: { attack: 10, defense: 15, speed: 1, cost: 50 },
-  archer: { attack: 15, defense: 5, speed: 1, cost: 75 },
-  cavalry: { attack: 20, defense: 10, speed: 2, cost: 150 },
-};
+// Accounts by id (also their party's id) and by lowercased username
+const accounts = new Map<string, Account>();
+const accountsByUsername = new Map<string, Account>();
 
-// ============================================
-// GAME STATE
-// ============================================
+// Every hosted world by id, the room each account last played in (so it can resume there),
+// and the sockets browsing the lobby with the account behind each
+const rooms = new Map<string, Room>();
+const roomRecords: RoomRecord[] = [];
+const playerRooms = new Map<string, Room>();
+const lobby = new Map<WebSocket, string>();
 
-const state: GameState = {
-  players: new Map(),
-  territories: generateTerritories(),
-  battles: new Map(),
-  tick: 0,
-};
-
-function generateTerritories(): Territory[] {
-  const territories: Territory[] = [];
-  const names = [
-    'Praven', 'Suno', 'Dhirim', 'Rivacheg', 'Khudan', 'Curaw',
-    'Tulga', 'Narra', 'Bariyye', 'Shariz', 'Durquba', 'Ahmerrad',
-    'Veluca', 'Jelkala', 'Yalen', 'Sargoth', 'Tihr', 'Wercheg'
-  ];
-  
-  for (let i = 0; i < names.length; i++) {
-    territories.push({
-      id: `territory_${i}`,
-      name: names[i],
-      position: {
-        x: 10 + Math.random() * 80,
-        y: 10 + Math.random() * 80,
-      },
-      owner: i < 6 ? FACTIONS[i] : null,
-      type: i < 6 ? 'city' : i < 12 ? 'castle' : 'village',
-      income: i < 6 ? 500 : i < 12 ? 200 : 100,
-    });
-  }
-  
-  return territories;
+// What the server knows about one socket: who logged in on it and which room it is playing in
+interface Connection {
+  ws: WebSocket;
+  accountId: string | null;
+  room: Room | null;
 }
 
 // ============================================
 // WEBSOCKET SERVER
 // ============================================
 
-const wss = new WebSocketServer({ host: '0.0.0.0', port: 3001 });
-console.log('⚔️  Warband server running on ws://0.0.0.0:3001');
-
-wss.on('connection', (ws) => {
-  const playerId = uuid();
-  console.log(`Player connected: ${playerId}`);
-
-  ws.on('message', (data) => {
-    try {
-      const message = JSON.parse(data.toString());
-      handleMessage(playerId, message, ws);
-    } catch (e) {
-      console.error('Invalid message:', e);
-    }
+function startServer() {
+  // Logins go over plain HTTP on the same port; the WebSocket upgrade shares the listener
+  const server = createServer((req, res) => {
+    handleHttpRequest(req, res).catch(e => {
+      console.error('HTTP request failed:', e);
+      if (!res.headersSent) sendJson(res, 500, { ok: false, error: 'Internal error' });
+    });
   });
+  const wss = new WebSocketServer({ server });
+  server.listen(3001, '0.0.0.0');
+  console.log('⚔️  Warband server running on http://0.0.0.0:3001 (WebSocket on ws://0.0.0.0:3001)');
+
+  wss.on('connection', (ws, req) => {
+    // Bound once the socket logs in; the id is the player's stable account id
+    const connection: Connection = { ws, accountId: null, room: null };
+    const addressKey = getAddressKey(req);
+    console.log('Connection opened');
+    
+    if (rejectBanned(ws, [addressKey])) return;
+    
+    const bucket = createTokenBucket(guard.rules, Date.now());
+    
+    // Logs against the player once logged in, otherwise against the address
+    const suspect = (reason: string) => {
+      const key = connection.accountId ?? addressKey;
+      const verdict = guard.flag(key, reason, Date.now());
+      if (verdict === 'ok') return;
+      
+      const recent = guard.getLog(key).slice(-3).map(e => e.reason).join('; ');
+      console.warn(`${verdict === 'ban' ? 'Banning' : 'Kicking'} ${key} for suspicious activity: ${recent}`);
+      if (verdict === 'ban') {
+        guard.ban(connection.accountId ? [connection.accountId, addressKey] : [addressKey], Date.now());
+        rejectBanned(ws, [addressKey]);
+      } else {
+        ws.close(4002, 'Kicked for suspicious activity');
+      }
+    };
+
+    ws.on('message', (data) => {
+      // Frames still buffered from a connection we already kicked are dropped
+      if (ws.readyState !== WebSocket.OPEN) return;
+      
+      let raw: unknown;
+      try {
+        raw = JSON.parse(data.toString());
+      } catch (e) {
+        console.error('Invalid message:', e);
+        suspect('malformed JSON');
+        return;
+      }
+      
+      const type = (raw as { type?: unknown } | null)?.type;
+      const cost = typeof type === 'string' ? guard.rules.messageCosts[type] ?? 1 : 1;
+      if (!takeTokens(bucket, cost, guard.rules, Date.now())) {
+        send(ws, { type: 'error', code: 'rate_limited', message: 'Slow down' });
+        suspect(`rate limited on ${String(type)}`);
+        return;
+      }
+      
+      const parsed = parseClientMessage(raw);
+      if (!parsed.ok) {
+        console.warn(`Rejected message from ${connection.accountId ?? 'unjoined socket'}: ${parsed.error}`);
+        send(ws, { type: 'error', code: 'invalid_message', message: parsed.error });
+        suspect(parsed.error);
+        return;
+      }
+      
+      const message = parsed.message;
+      if (message.type === 'join' || message.type === 'resume' || message.type === 'lobby') {
+        if (!checkProtocolVersion(message, ws)) return;
+        const claimedId = message.type === 'resume' ? verifyResumeToken(message.token) : verifyLoginToken(message.token);
+        if (claimedId && rejectBanned(ws, [claimedId])) return;
+        if (message.type === 'join') handleJoin(connection, message);
+        else if (message.type === 'resume') handleResume(connection, message);
+        else handleLobby(connection, message);
+      } else if (message.type === 'create_room') {
+        if (connection.accountId && lobby.has(ws)) handleCreateRoom(connection.accountId, message, ws);
+        else suspect('create_room outside the lobby');
+      } else if (connection.accountId && connection.room) {
+        connection.room.handleMessage(connection.accountId, message);
+      } else {
+        suspect(`${message.type} before joining`);
+      }
+    });
 
-  ws.on('close', () => {
-    const player = state.players.get(playerId);
-    if (player) {
-      console.log(`Player disconnected: ${player.name}`);
-      state.players.delete(playerId);
-      broadcast({ type: 'player_left', playerId });
-    }
+    ws.on('close', () => {
+      leaveCurrent(connection);
+    });
   });
-});
+}
 
 // ============================================
-// MESSAGE HANDLERS
+// ACCOUNTS
 // ============================================
 
-function handleMessage(playerId: string, message: any, ws: WebSocket) {
-  switch (message.type) {
-    case 'join':
-      handleJoin(playerId, message, ws);
-      break;
-    case 'move':
-      handleMove(playerId, message);
-      break;
-    case 'recruit':
-      handleRecruit(playerId, message);
-      break;
-    case 'attack':
-      handleAttack(playerId, message);
-      break;
-    case 'chat':
-      handleChat(playerId, message);
-      break;
-  }
+const MAX_AUTH_BODY_BYTES = 4096;
+
+// Saves are chained so two registrations never write the accounts file at the same time
+let accountsSaved: Promise<void> = Promise.resolve();
+
+function getAddressKey(req: IncomingMessage): string {
+  return `ip:${req.socket.remoteAddress ?? 'unknown'}`;
 }
 
-function handleJoin(playerId: string, message: { name: string }, ws: WebSocket) {
-  const factionIndex = state.players.size % FACTIONS.length;
-  
-  const player: Player = {
-    id: playerId,
-    name: message.name || `Warrior_${playerId.slice(0, 4)}`,
-    faction: FACTIONS[factionIndex],
-    position: { x: 20 + Math.random() * 60, y: 20 + Math.random() * 60 },
-    gold: 1000,
-    army: [
-      { type: 'infantry', count: 20, level: 1 },
-      { type: 'archer', count: 10, level: 1 },
-    ],
-    color: FACTION_COLORS[factionIndex],
-    ws,
-  };
-  
-  state.players.set(playerId, player);
-  
-  // Send initial state to player
-  send(ws, {
-    type: 'init',
-    playerId,
-    player: sanitizePlayer(player),
-    players: Array.from(state.players.values()).map(sanitizePlayer),
-    territories: state.territories,
+function sendJson(res: ServerResponse, status: number, body: AuthResponse) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_AUTH_BODY_BYTES) req.destroy(new Error('Request body too large'));
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(body));
+      } catch {
+        resolve(null);
+      }
+    });
+    req.on('error', reject);
   });
-  
-  // Broadcast new player to others
-  broadcast({ type: 'player_joined', player: sanitizePlayer(player) }, playerId);
-  
-  console.log(`${player.name} joined as ${player.faction}`);
 }
 
-function handleMove(playerId: string, message: { x: number; y: number }) {
-  const player = state.players.get(playerId);
-  if (!player) return;
-  
-  // Validate movement
-  const dx = message.x - player.position.x;
-  const dy = message.y - player.position.y;
-  const distance = Math.sqrt(dx * dx + dy * dy);
+async function handleHttpRequest(req: IncomingMessage, res: ServerResponse) {
+  const route = req.method === 'POST' ? req.url : undefined;
+  if (route !== '/api/register' && route !== '/api/login') {
+    sendJson(res, 404, { ok: false, error: 'Not found' });
+    return;
+  }
   
-  const maxSpeed = getArmySpeed(player.army);
-  if (distance > maxSpeed * 5) {
-    // Too fast, limit movement
-    const ratio = (maxSpeed * 5) / distance;
-    message.x = player.position.x + dx * ratio;
-    message.y = player.position.y + dy * ratio;
+  const addressKey = getAddressKey(req);
+  const now = Date.now();
+  const until = guard.bannedUntil(addressKey, now);
+  if (until) {
+    sendJson(res, 403, { ok: false, error: `Temporarily banned for ${Math.ceil((until - now) / 60000)} more minute(s)` });
+    return;
   }
   
-  // Clamp to map
-  player.position.x = Math.max(0, Math.min(MAP_SIZE, message.x));
-  player.position.y = Math.max(0, Math.min(MAP_SIZE, message.y));
+  const request = parseAuthRequest(await readJsonBody(req));
+  if (!request) {
+    flagAuthFailure(addressKey, 'malformed auth request');
+    sendJson(res, 400, { ok: false, error: 'Expected a JSON body with username and password' });
+    return;
+  }
   
-  broadcast({
-    type: 'player_moved',
-    playerId,
-    position: player.position,
-  });
+  const [status, body] = route === '/api/register'
+    ? await registerAccount(request.username, request.password)
+    : await logIn(request.username, request.password, addressKey);
+  sendJson(res, status, body);
 }
 
-function handleRecruit(playerId: string, message: { unitType: string; count: number }) {
-  const player = state.players.get(playerId);
-  if (!player) return;
+async function registerAccount(username: string, password: string): Promise<[number, AuthResponse]> {
+  const problem = checkCredentials({ username, password });
+  if (problem) return [400, { ok: false, error: problem }];
+  if (isNameTaken(username)) return [409, { ok: false, error: 'That name is already taken' }];
   
-  const unitType = message.unitType as keyof typeof UNIT_STATS;
-  const stats = UNIT_STATS[unitType];
-  if (!stats) return;
+  const hashed = await hashPassword(password);
+  // Someone else may have claimed the name while the password was hashing
+  if (isNameTaken(username)) return [409, { ok: false, error: 'That name is already taken' }];
   
-  const cost = stats.cost * message.count;
-  if (player.gold < cost) {
-    send(player.ws!, { type: 'error', message: 'Not enough gold' });
-    return;
-  }
-  
-  player.gold -= cost;
+  const account: Account = { id: uuid(), username, ...hashed, createdAt: Date.now() };
+  accounts.set(account.id, account);
+  accountsByUsername.set(username.toLowerCase(), account);
+  const snapshot = Array.from(accounts.values());
+  accountsSaved = accountsSaved.then(() => accountStore.save(snapshot)).catch(e => {
+    console.error('Failed to save accounts:', e);
+  });
+  await accountsSaved;
   
-  const existing = player.army.find(u => u.type === unitType);
-  if (existing) {
-    existing.count += message.count;
+  console.log(`Account registered: ${username}`);
+  return [200, { ok: true, token: createLoginToken(account.id), username }];
+}
+
+async function logIn(username: string, password: string, addressKey: string): Promise<[number, AuthResponse]> {
+  const account = accountsByUsername.get(username.toLowerCase());
+  let valid = false;
+  if (account) {
+    valid = await verifyPassword(password, account);
   } else {
-    player.army.push({ type: unitType, count: message.count, level: 1 });
+    // Unknown names still pay for a hash so response times don't reveal which usernames exist
+    await hashPassword(password);
+  }
+  if (!account || !valid) {
+    flagAuthFailure(addressKey, `failed login as ${username}`);
+    return [401, { ok: false, error: 'Wrong username or password' }];
   }
   
-  send(player.ws!, {
-    type: 'recruited',
-    player: sanitizePlayer(player),
-  });
+  return [200, { ok: true, token: createLoginToken(account.id), username: account.username }];
 }
 
-function handleAttack(playerId: string, message: { targetId?: string; territoryId?: string }) {
-  const attacker = state.players.get(playerId);
-  if (!attacker) return;
-  
-  if (message.targetId) {
-    // PvP battle
-    const defender = state.players.get(message.targetId);
-    if (!defender) return;
-    
-    // Check distance
-    const dx = attacker.position.x - defender.position.x;
-    const dy = attacker.position.y - defender.position.y;
-    if (Math.sqrt(dx * dx + dy * dy) > 5) {
-      send(attacker.ws!, { type: 'error', message: 'Too far to attack' });
-      return;
-    }
-    
-    const battle = resolveBattle(attacker, defender);
-    
-    send(attacker.ws!, { type: 'battle_result', ...battle, role: 'attacker' });
-    send(defender.ws!, { type: 'battle_result', ...battle, role: 'defender' });
-    
-    broadcast({
-      type: 'battle_occurred',
-      attacker: attacker.name,
-      defender: defender.name,
-      winner: battle.winner,
-    });
-  }
+// Repeated failures from one address count as strikes, exactly like bad WebSocket traffic
+function flagAuthFailure(addressKey: string, reason: string) {
+  const verdict = guard.flag(addressKey, reason, Date.now());
+  if (verdict !== 'ban') return;
+  console.warn(`Banning ${addressKey} after repeated failed logins`);
+  guard.ban([addressKey], Date.now());
 }
 
-function handleChat(playerId: string, message: { text: string }) {
-  const player = state.players.get(playerId);
-  if (!player) return;
-  
-  broadcast({
-    type: 'chat',
-    playerId,
-    name: player.name,
-    faction: player.faction,
-    text: message.text.slice(0, 200),
-  });
+// Display names are unique: no two accounts, and no party predating accounts, may share one
+function isNameTaken(username: string): boolean {
+  const wanted = username.toLowerCase();
+  if (accountsByUsername.has(wanted)) return true;
+  return Array.from(rooms.values()).some(room =>
+    Array.from(room.state.players.values()).some(p => p.name.toLowerCase() === wanted && !accounts.has(p.id)),
+  );
 }
 
 // ============================================
-// GAME LOGIC
+// LOBBY
 // ============================================
 
-function getArmySpeed(army: Unit[]): number {
-  if (army.length === 0) return 2;
-  const hasCavalry = army.some(u => u.type === 'cavalry' && u.count > 0);
-  return hasCavalry ? 2 : 1;
+// Saves are chained for the same reason as account saves
+let roomsSaved: Promise<void> = Promise.resolve();
+
+function openRoom(record: Pick<RoomOptions, 'id' | 'name' | 'isPrivate' | 'owner' | 'ownerId' | 'mapSeed'>, saveFile: string): Room {
+  const room = createRoom({
+    ...record,
+    maxPlayers: ROOM_MAX_PLAYERS,
+    store: createJsonFileStore(saveFile),
+    chatFilter,
+    onPopulationChange: broadcastRooms,
+  });
+  rooms.set(room.id, room);
+  return room;
 }
 
-function getArmyPower(army: Unit[]): number {
-  return army.reduce((total, unit) => {
-    const stats = UNIT_STATS[unit.type];
-    return total + (stats.attack + stats.defense) * unit.count * unit.level;
-  }, 0);
+function generateRoomCode(): string {
+  let code: string;
+  do {
+    code = Array.from({ length: ROOM_CODE_LENGTH }, () => ROOM_CODE_ALPHABET[randomInt(ROOM_CODE_ALPHABET.length)]).join('');
+  } while (rooms.has(code));
+  return code;
 }
 
-function resolveBattle(attacker: Player, defender: Player) {
-  const attackPower = getArmyPower(attacker.army) * (0.8 + Math.random() * 0.4);
-  const defensePower = getArmyPower(defender.army) * (0.8 + Math.random() * 0.4);
-  
-  const attackerWins = attackPower > defensePower;
-  const ratio = attackerWins ? defensePower / attackPower : attackPower / defensePower;
+// Public rooms, plus the private ones this account opened so their owner can find their way back
+function listRooms(accountId: string): RoomInfo[] {
+  return Array.from(rooms.values())
+    .filter(room => !room.options.isPrivate || room.options.ownerId === accountId)
+    .map(room => room.getInfo());
+}
+
+function broadcastRooms() {
+  lobby.forEach((accountId, ws) => send(ws, { type: 'rooms', rooms: listRooms(accountId) }));
+}
+
+// Checks the login token and binds the account to the socket; an invalid one sends the client back to log in
+function authenticate(connection: Connection, token: string): Account | null {
+  const accountId = verifyLoginToken(token);
+  const account = accountId ? accounts.get(accountId) : undefined;
+  if (!account) {
+    send(connection.ws, { type: 'error', code: 'unauthorized', message: 'Your login has expired, please log in again' });
+    connection.ws.close(4004, 'Unauthorized');
+    return null;
+  }
+  connection.accountId = account.id;
+  return account;
+}
+
+// Takes the socket out of whichever room or lobby it is in
+function leaveCurrent(connection: Connection) {
+  lobby.delete(connection.ws);
+  const { room, accountId } = connection;
+  if (!room || !accountId) return;
   
-  // Calculate losses
-  const winnerLossRatio = ratio * 0.3;
-  const loserLossRatio = 0.5 + (1 - ratio) * 0.5;
+  room.leave(accountId, connection.ws);
+  connection.room = null;
+}
+
+function handleLobby(connection: Connection, message: LobbyMessage) {
+  const account = authenticate(connection, message.token);
+  if (!account) return;
   
-  const winner = attackerWins ? attacker : defender;
-  const loser = attackerWins ? defender : attacker;
+  leaveCurrent(connection);
+  lobby.set(connection.ws, account.id);
+  send(connection.ws, { type: 'rooms', rooms: listRooms(account.id) });
+}
+
+function handleCreateRoom(accountId: string, message: ClientMessageOf<'create_room'>, ws: WebSocket) {
+  const account = accounts.get(accountId)!;
+  if (rooms.size >= MAX_ROOMS) {
+    send(ws, { type: 'error', message: 'The server is hosting as many rooms as it can' });
+    return;
+  }
+  if (roomRecords.filter(r => r.ownerId === accountId).length >= MAX_ROOMS_PER_OWNER) {
+    send(ws, { type: 'error', message: `You can only open ${MAX_ROOMS_PER_OWNER} rooms` });
+    return;
+  }
   
-  // Apply losses
-  winner.army.forEach(unit => {
-    unit.count = Math.floor(unit.count * (1 - winnerLossRatio));
+  const record: RoomRecord = {
+    id: generateRoomCode(),
+    name: message.name,
+    isPrivate: message.isPrivate,
+    owner: account.username,
+    ownerId: account.id,
+    mapSeed: randomSeed(),
+    createdAt: Date.now(),
+  };
+  const room = openRoom(record, path.join(ROOMS_DIR, `${record.id}.json`));
+  roomRecords.push(record);
+  const snapshot = [...roomRecords];
+  roomsSaved = roomsSaved.then(() => roomRegistry.save(snapshot)).catch(e => {
+    console.error('Failed to save rooms:', e);
   });
+  console.log(`${account.username} opened ${record.isPrivate ? 'private' : 'public'} room ${record.name} (${record.id})`);
   
-  loser.army.forEach(unit => {
-    unit.count = Math.floor(unit.count * (1 - loserLossRatio));
-  });
+  // The world is only offered once its NPCs are out and its loop is running
+  room.start().then(() => {
+    send(ws, { type: 'room_created', room: room.getInfo() });
+    broadcastRooms();
+  }).catch(e => console.error(`Failed to start ${record.name}:`, e));
+}
+
+function handleJoin(connection: Connection, message: JoinMessage) {
+  const account = authenticate(connection, message.token);
+  if (!account) return;
   
-  // Remove empty units
-  winner.army = winner.army.filter(u => u.count > 0);
-  loser.army = loser.army.filter(u => u.count > 0);
+  const room = rooms.get(message.roomId ?? DEFAULT_ROOM_ID);
+  if (!room) {
+    send(connection.ws, { type: 'error', message: 'No room with that code' });
+    return;
+  }
+  const info = room.getInfo();
+  const rejoining = connection.room === room;
+  // Taking back a party already in the room adds no one to it, so a full room still lets its owner in
+  const returning = room.state.players.has(account.id);
+  if (!rejoining && !returning && info.players >= info.maxPlayers) {
+    send(connection.ws, { type: 'error', message: `${info.name} is full` });
+    return;
+  }
   
-  // Loot
-  const loot = Math.floor(loser.gold * 0.3);
-  winner.gold += loot;
-  loser.gold -= loot;
+  // Refused joins leave the socket wherever it was, e.g. still browsing the lobby
+  const refusal = room.join(account, connection.ws, message.faction);
+  if (refusal) {
+    send(connection.ws, { type: 'error', message: refusal });
+    return;
+  }
   
-  return {
-    winner: winner.name,
-    loser: loser.name,
-    attackPower: Math.round(attackPower),
-    defensePower: Math.round(defensePower),
-    loot,
-  };
+  if (!rejoining) leaveCurrent(connection);
+  // An account plays in one room at a time; a session in another room is signed out
+  const previous = playerRooms.get(account.id);
+  if (previous && previous !== room) previous.kick(account.id, 'Signed in from another connection');
+  connection.room = room;
+  playerRooms.set(account.id, room);
+}
+
+function handleResume(connection: Connection, message: ResumeMessage) {
+  const playerId = verifyResumeToken(message.token);
+  const room = playerId ? playerRooms.get(playerId) : undefined;
+  
+  leaveCurrent(connection);
+  // Past the grace window the client starts over with a regular join
+  if (!playerId || !room || !room.resume(playerId, connection.ws)) {
+    send(connection.ws, { type: 'resume_failed' });
+    return;
+  }
+  
+  connection.accountId = playerId;
+  connection.room = room;
 }
 
 // ============================================
-// UTILITIES
+// CONNECTION CHECKS
 // ============================================
 
-function sanitizePlayer(player: Player) {
-  const { ws, ...safe } = player;
-  return safe;
-}
-
-function send(ws: WebSocket, data: any) {
-  if (ws.readyState === WebSocket.OPEN) {
-    ws.send(JSON.stringify(data));
-  }
+// Turns away a connection whose address or account is serving a temporary ban
+function rejectBanned(ws: WebSocket, keys: string[]): boolean {
+  const now = Date.now();
+  const until = Math.max(...keys.map(key => guard.bannedUntil(key, now) ?? 0));
+  if (until <= now) return false;
+  
+  const minutes = Math.ceil((until - now) / 60000);
+  send(ws, { type: 'error', code: 'banned', message: `Temporarily banned for ${minutes} more minute(s)` });
+  ws.close(4003, 'Temporarily banned');
+  return true;
 }
 
-function broadcast(data: any, excludeId?: string) {
-  state.players.forEach((player, id) => {
-    if (id !== excludeId && player.ws) {
-      send(player.ws, data);
-    }
+// Clients on an unsupported protocol are told so and disconnected before they touch any state
+function checkProtocolVersion(message: JoinMessage | ResumeMessage | LobbyMessage, ws: WebSocket): boolean {
+  const { protocolVersion } = message;
+  if (protocolVersion >= MIN_PROTOCOL_VERSION && protocolVersion <= PROTOCOL_VERSION) return true;
+  
+  send(ws, {
+    type: 'error',
+    code: 'protocol_mismatch',
+    message: `Protocol version ${protocolVersion} is not supported (server speaks ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION})`,
   });
+  ws.close(4001, 'Unsupported protocol version');
+  return false;
 }
 
 // ============================================
-// GAME LOOP
+// STARTUP
 // ============================================
 
-setInterval(() => {
-  state.tick++;
+async function start() {
+  (await accountStore.load()).forEach(account => {
+    accounts.set(account.id, account);
+    accountsByUsername.set(account.username.toLowerCase(), account);
+  });
+  console.log(`Loaded ${accounts.size} accounts from ${ACCOUNTS_FILE}`);
   
-  // Income every 30 seconds (60 ticks)
-  if (state.tick % 60 === 0) {
-    state.players.forEach(player => {
-      // Base income
-      player.gold += 50;
-      
-      // Territory income
-      state.territories.forEach(t => {
-        if (t.owner === player.faction) {
-          player.gold += t.income / 10;
-        }
-      });
-      
-      send(player.ws!, { type: 'gold_update', gold: player.gold });
-    });
-  }
+  // The public world keeps its original save file, so existing worlds carry over
+  openRoom({ id: DEFAULT_ROOM_ID, name: 'Public World', isPrivate: false, mapSeed: MAP_SEED }, SAVE_FILE);
+  roomRecords.push(...await roomRegistry.load());
+  roomRecords.forEach(record => openRoom(record, path.join(ROOMS_DIR, `${record.id}.json`)));
+  await Promise.all(Array.from(rooms.values(), room => room.start()));
+  console.log(`Hosting ${rooms.size} room(s)`);
   
-  // Broadcast tick for client sync
-  if (state.tick % 10 === 0) {
-    broadcast({
-      type: 'tick',
-      players: Array.from(state.players.values()).map(sanitizePlayer),
-    });
-  }
-}, 500);
+  startServer();
+  
+  const shutdown = async (signal: string) => {
+    console.log(`${signal} received, saving rooms...`);
+    await Promise.all(Array.from(rooms.values(), room => room.stop()));
+    process.exit(0);
+  };
+  process.once('SIGINT', () => shutdown('SIGINT'));
+  process.once('SIGTERM', () => shutdown('SIGTERM'));
+}
 
-console.log('Game loop started');
+start().catch(e => {
+  console.error('Failed to start server:', e);
+  process.exit(1);
+});
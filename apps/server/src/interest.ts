@@ -0,0 +1,93 @@
+import { DETAIL_RANGE, estimateArmySize } from '@warband/protocol';
+import { getArmySize } from './battle.js';
+import { distance } from './movement.js';
+import type { Player, PlayerChange, PlayerView, Position, PublicPlayer, Territory } from './types.js';
+
+// ============================================
+// INTEREST MANAGEMENT
+// ============================================
+
+// Uniform grid of player ids; with cells as wide as the query radius a lookup touches at most 9 cells
+export function createSpatialIndex(cellSize: number) {
+  const cells = new Map<string, { id: string; position: Position }[]>();
+  const cellKey = (col: number, row: number) => `${col},${row}`;
+
+  return {
+    clear() {
+      cells.clear();
+    },
+
+    insert(id: string, position: Position) {
+      const key = cellKey(Math.floor(position.x / cellSize), Math.floor(position.y / cellSize));
+      const cell = cells.get(key);
+      if (cell) cell.push({ id, position });
+      else cells.set(key, [{ id, position }]);
+    },
+
+    // Ids of everything within `radius` of `center`
+    query(center: Position, radius: number): string[] {
+      const found: string[] = [];
+      const minCol = Math.floor((center.x - radius) / cellSize);
+      const maxCol = Math.floor((center.x + radius) / cellSize);
+      const minRow = Math.floor((center.y - radius) / cellSize);
+      const maxRow = Math.floor((center.y + radius) / cellSize);
+      for (let col = minCol; col <= maxCol; col++) {
+        for (let row = minRow; row <= maxRow; row++) {
+          cells.get(cellKey(col, row))?.forEach(entry => {
+            if (Math.hypot(entry.position.x - center.x, entry.position.y - center.y) <= radius) found.push(entry.id);
+          });
+        }
+      }
+      return found;
+    },
+  };
+}
+
+export type SpatialIndex = ReturnType<typeof createSpatialIndex>;
+
+// Strips server bookkeeping. Views are deep copies, so later changes to the party never leak into
+// what a client was already sent. Anyone but the party's own player also loses its purse, baggage, hero
+// and standing.
+export function sanitizePlayer(player: Player): PlayerView;
+export function sanitizePlayer(player: Player, viewer: Player): PublicPlayer;
+export function sanitizePlayer(player: Player, viewer?: Player): PublicPlayer {
+  const { ws, disconnectedAt, missedEvents, ai, chat, defectedTick, ...safe } = player;
+  // NPC parties are always active on the map
+  const view: PlayerView = { ...structuredClone(safe), online: !!ws || !!player.npc };
+  if (!viewer || viewer.id === player.id) return view;
+
+  const { gold, cargo, hero, reputation, ...visible } = view;
+  return visible;
+}
+
+// A party seen from afar: where it stands and roughly how many it musters, but not its troops, its
+// route, or the battle and band it belongs to
+export function glimpsePlayer(view: PublicPlayer, armySize: number): PublicPlayer {
+  const { march, battleId, partyId, ...glimpsed } = view;
+  return { ...glimpsed, army: [], armyEstimate: estimateArmySize(armySize) };
+}
+
+// A settlement's own faction knows its garrison, and so does anyone close enough to count it
+export function canCountGarrison(territory: Territory, viewer: Player): boolean {
+  return territory.owner === viewer.faction || distance(viewer.position, territory.position) <= DETAIL_RANGE;
+}
+
+// Everyone else only gets a scout's estimate of the defenders
+export function sanitizeTerritory(territory: Territory, viewer: Player): Territory {
+  const view = structuredClone(territory);
+  if (canCountGarrison(territory, viewer)) return view;
+  return { ...view, garrison: [], garrisonEstimate: estimateArmySize(getArmySize(territory.garrison)) };
+}
+
+// Fields that differ between what the viewer was last sent and the party now; null if nothing changed
+export function diffPlayerView<T extends PublicPlayer>(previous: T, next: T): PlayerChange | null {
+  const change: PlayerChange = { id: next.id };
+  let changed = false;
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]) as Set<keyof T & keyof PlayerChange>;
+  keys.forEach(key => {
+    if (JSON.stringify(previous[key]) === JSON.stringify(next[key])) return;
+    (change as Record<string, unknown>)[key] = next[key] ?? null;
+    changed = true;
+  });
+  return changed ? change : null;
+}
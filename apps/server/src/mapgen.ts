@@ -0,0 +1,199 @@
+import { createBuildings, encodeTerrain, FACTIONS, GOODS, MAP_SIZE, TERRAIN_MOVE_COST, terrainAtTile } from '@warband/protocol';
+import { GARRISONS, MIN_SETTLEMENT_SPACING, TILE_SIZE } from './constants.js';
+import { createMarket, createRecruitPool } from './economy.js';
+import { findTilePath } from './pathfinding.js';
+import { createRng, type Rng } from './rng.js';
+import type { MapData, Position, TerrainType, Territory } from './types.js';
+
+// ============================================
+// MAP GENERATION
+// ============================================
+
+const SETTLEMENT_NAMES = [
+  'Praven', 'Suno', 'Dhirim', 'Rivacheg', 'Khudan', 'Curaw',
+  'Tulga', 'Narra', 'Bariyye', 'Shariz', 'Durquba', 'Ahmerrad',
+  'Veluca', 'Jelkala', 'Yalen', 'Sargoth', 'Tihr', 'Wercheg'
+];
+
+const RIVER_COUNT = 3;
+
+// Keep settlements off the very edge of the map
+const SETTLEMENT_MARGIN = 8;
+
+// Smooth value noise built from a few octaves of random lattices
+function createNoise(rng: Rng, width: number, height: number) {
+  const octaves = [
+    { cell: 16, weight: 0.5 },
+    { cell: 8, weight: 0.3 },
+    { cell: 4, weight: 0.2 },
+  ].map(({ cell, weight }) => {
+    const cols = Math.ceil(width / cell) + 2;
+    const rows = Math.ceil(height / cell) + 2;
+    const lattice = Array.from({ length: cols * rows }, () => rng());
+    return { cell, weight, cols, lattice };
+  });
+
+  const smooth = (t: number) => t * t * (3 - 2 * t);
+
+  return (col: number, row: number): number => octaves.reduce((total, { cell, weight, cols, lattice }) => {
+    const x = col / cell;
+    const y = row / cell;
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const tx = smooth(x - x0);
+    const ty = smooth(y - y0);
+    const at = (cx: number, cy: number) => lattice[cy * cols + cx];
+    const top = at(x0, y0) * (1 - tx) + at(x0 + 1, y0) * tx;
+    const bottom = at(x0, y0 + 1) * (1 - tx) + at(x0 + 1, y0 + 1) * tx;
+    return total + (top * (1 - ty) + bottom * ty) * weight;
+  }, 0);
+}
+
+function classify(elevation: number, moisture: number): TerrainType {
+  if (elevation > 0.72) return 'mountains';
+  if (elevation > 0.6) return 'hills';
+  if (moisture > 0.58) return 'forest';
+  return 'plains';
+}
+
+// Rivers run downhill from high ground until they leave the map
+function carveRivers(rng: Rng, terrain: TerrainType[], elevation: number[], width: number, height: number) {
+  const sources = terrain
+    .map((type, index) => ({ type, index }))
+    .filter(({ type }) => type === 'hills');
+
+  for (let r = 0; r < RIVER_COUNT && sources.length > 0; r++) {
+    let index = sources.splice(Math.floor(rng() * sources.length), 1)[0].index;
+    const visited = new Set<number>();
+
+    while (!visited.has(index)) {
+      visited.add(index);
+      if (terrain[index] !== 'mountains') terrain[index] = 'river';
+
+      const col = index % width;
+      const row = Math.floor(index / width);
+      if (col === 0 || row === 0 || col === width - 1 || row === height - 1) break;
+
+      const neighbors = [index - 1, index + 1, index - width, index + width].filter(n => !visited.has(n));
+      if (neighbors.length === 0) break;
+
+      // Follow the steepest descent; on flat ground keep heading for the nearest edge
+      const lowest = neighbors.reduce((a, b) => (elevation[a] <= elevation[b] ? a : b));
+      if (elevation[lowest] <= elevation[index]) {
+        index = lowest;
+      } else {
+        const toEdge = [col, width - 1 - col, row, height - 1 - row];
+        const nearest = toEdge.indexOf(Math.min(...toEdge));
+        index = [index - 1, index + 1, index - width, index + width][nearest];
+      }
+    }
+  }
+}
+
+// Rejection-samples settlement sites on passable ground, relaxing the spacing if the map is crowded
+function placeSettlements(rng: Rng, map: MapData, count: number): Position[] {
+  let spacing = MIN_SETTLEMENT_SPACING;
+
+  for (;;) {
+    const sites: Position[] = [];
+    for (let attempt = 0; attempt < 5000 && sites.length < count; attempt++) {
+      const site = {
+        x: SETTLEMENT_MARGIN + rng() * (MAP_SIZE - SETTLEMENT_MARGIN * 2),
+        y: SETTLEMENT_MARGIN + rng() * (MAP_SIZE - SETTLEMENT_MARGIN * 2),
+      };
+      const terrain = terrainAtTile(map, Math.floor(site.x / map.tileSize), Math.floor(site.y / map.tileSize));
+      if (terrain === 'mountains' || terrain === 'river') continue;
+      if (sites.some(s => Math.hypot(s.x - site.x, s.y - site.y) < spacing)) continue;
+      sites.push(site);
+    }
+    if (sites.length === count) return sites;
+    spacing *= 0.9;
+  }
+}
+
+// Links settlements along a minimum spanning tree, routing each road over the cheapest ground
+function buildRoads(map: MapData, sites: Position[]): MapData {
+  const connected = [0];
+  const edges: [number, number][] = [];
+
+  while (connected.length < sites.length) {
+    let best: [number, number] | null = null;
+    let bestDistance = Infinity;
+    for (const a of connected) {
+      sites.forEach((site, b) => {
+        if (connected.includes(b)) return;
+        const distance = Math.hypot(site.x - sites[a].x, site.y - sites[a].y);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = [a, b];
+        }
+      });
+    }
+    edges.push(best!);
+    connected.push(best![1]);
+  }
+
+  const tiles = map.tiles.split('');
+  for (const [a, b] of edges) {
+    const current = { ...map, tiles: tiles.join('') };
+    // Existing roads are cheap so routes merge instead of running in parallel; rivers get bridged
+    const path = findTilePath(current, sites[a], sites[b], terrain => (
+      terrain === 'road' ? 0.3 : terrain === 'river' ? 2 : TERRAIN_MOVE_COST[terrain]
+    ));
+    path?.forEach(index => { tiles[index] = encodeTerrain('road'); });
+  }
+
+  return { ...map, tiles: tiles.join('') };
+}
+
+export function generateWorld(seed: number): { map: MapData; territories: Territory[] } {
+  const rng = createRng(seed);
+  const width = Math.ceil(MAP_SIZE / TILE_SIZE);
+  const height = Math.ceil(MAP_SIZE / TILE_SIZE);
+
+  const elevationNoise = createNoise(rng, width, height);
+  const moistureNoise = createNoise(rng, width, height);
+
+  const elevation: number[] = [];
+  const terrain: TerrainType[] = [];
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const e = elevationNoise(col, row);
+      elevation.push(e);
+      terrain.push(classify(e, moistureNoise(col, row)));
+    }
+  }
+
+  carveRivers(rng, terrain, elevation, width, height);
+
+  let map: MapData = {
+    seed,
+    width,
+    height,
+    tileSize: TILE_SIZE,
+    tiles: terrain.map(encodeTerrain).join(''),
+  };
+
+  const sites = placeSettlements(rng, map, SETTLEMENT_NAMES.length);
+  map = buildRoads(map, sites);
+
+  const territories: Territory[] = sites.map((position, i) => {
+    const type = i < 6 ? 'city' : i < 12 ? 'castle' : 'village';
+    const produces = GOODS[Math.floor(rng() * GOODS.length)];
+    return {
+      id: `territory_${i}`,
+      name: SETTLEMENT_NAMES[i],
+      position,
+      owner: i < 6 ? FACTIONS[i] : null,
+      type,
+      income: i < 6 ? 500 : i < 12 ? 200 : 100,
+      garrison: GARRISONS[type].map(u => ({ ...u })),
+      recruits: createRecruitPool(type),
+      produces,
+      market: createMarket(produces),
+      buildings: createBuildings(),
+    };
+  });
+
+  return { map, territories };
+}
@@ -0,0 +1,87 @@
+import { getSpeedBonus, MAP_SIZE, TERRAIN_MOVE_COST, terrainAt, TICK_MS } from '@warband/protocol';
+import { MARCH_UNITS_PER_SECOND } from './constants.js';
+import { findPath } from './pathfinding.js';
+import type { Rng } from './rng.js';
+import type { Hero, MapData, March, Position, Unit } from './types.js';
+
+// ============================================
+// MOVEMENT
+// ============================================
+
+// A hero's mount hurries the whole column along
+export function getArmySpeed(army: Unit[], hero?: Hero): number {
+  const hasCavalry = army.length === 0 || army.some(u => u.type === 'cavalry' && u.count > 0);
+  return (hasCavalry ? 2 : 1) * getSpeedBonus(hero);
+}
+
+export function distance(a: Position, b: Position): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+export function clampToMap(position: Position): Position {
+  return {
+    x: Math.max(0, Math.min(MAP_SIZE, position.x)),
+    y: Math.max(0, Math.min(MAP_SIZE, position.y)),
+  };
+}
+
+export function isPassable(map: MapData, position: Position): boolean {
+  return Number.isFinite(TERRAIN_MOVE_COST[terrainAt(map, position)]);
+}
+
+// Random spot within `radius` of `around` that a party can actually stand on
+export function findPassablePosition(map: MapData, around: Position, radius: number, rng: Rng): Position | null {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const position = clampToMap({
+      x: around.x + (rng() * 2 - 1) * radius,
+      y: around.y + (rng() * 2 - 1) * radius,
+    });
+    if (isPassable(map, position)) return position;
+  }
+  return null;
+}
+
+// Plans the cheapest route over the terrain; null when the destination can't be reached
+export function planMarch(map: MapData, from: Position, destination: Position, army: Unit[], hero?: Hero): March | null {
+  const target = clampToMap(destination);
+  const path = findPath(map, from, target, terrain => TERRAIN_MOVE_COST[terrain]);
+  if (!path) return null;
+
+  return {
+    destination: target,
+    path,
+    speed: getArmySpeed(army, hero) * MARCH_UNITS_PER_SECOND,
+  };
+}
+
+// Roads speed a march up, rough ground slows it down
+export function terrainSpeedModifier(map: MapData, position: Position): number {
+  const cost = TERRAIN_MOVE_COST[terrainAt(map, position)];
+  return Number.isFinite(cost) ? 1 / cost : 1;
+}
+
+// Moves `position` one tick along the march, returning true once the destination is reached.
+// `terrainModifier` scales the step for the ground currently underfoot.
+export function advanceMarch(position: Position, march: March, terrainModifier = 1): boolean {
+  let budget = march.speed * (TICK_MS / 1000) * terrainModifier;
+
+  while (budget > 0 && march.path.length > 0) {
+    const waypoint = march.path[0];
+    const dx = waypoint.x - position.x;
+    const dy = waypoint.y - position.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+
+    if (distance <= budget) {
+      position.x = waypoint.x;
+      position.y = waypoint.y;
+      budget -= distance;
+      march.path.shift();
+    } else {
+      position.x += (dx / distance) * budget;
+      position.y += (dy / distance) * budget;
+      budget = 0;
+    }
+  }
+
+  return march.path.length === 0;
+}
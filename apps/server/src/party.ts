@@ -0,0 +1,191 @@
+import {
+  getArmyLimit,
+  getRankName,
+  PARTY_MAX_SIZE,
+  PARTY_RANGE,
+  type ClientMessageOf,
+  type PartyView,
+} from '@warband/protocol';
+import { transferUnits } from './army.js';
+import { getArmySize } from './battle.js';
+import { PARTY_INVITE_TICKS } from './constants.js';
+import type { EngineEvent } from './engine.js';
+import { distance } from './movement.js';
+import type { GameState, Party, Player } from './types.js';
+
+// ============================================
+// PARTIES
+// ============================================
+
+export function getParty(state: GameState, player: Player): Party | undefined {
+  return player.partyId ? state.parties.groups.find(p => p.id === player.partyId) : undefined;
+}
+
+// The player's party, leader first, or just the player if they travel alone
+export function getPartyMembers(state: GameState, player: Player): Player[] {
+  const party = getParty(state, player);
+  if (!party) return [player];
+  return party.memberIds.map(id => state.players.get(id)).filter((p): p is Player => !!p);
+}
+
+export function toPartyView(state: GameState, party: Party): PartyView {
+  return {
+    id: party.id,
+    leaderId: party.memberIds[0],
+    members: party.memberIds.map(id => ({ id, name: state.players.get(id)?.name ?? 'Unknown' })),
+  };
+}
+
+// Why a player can't ask another to join them, if they can't
+function inviteRefusal(state: GameState, leader: Player, target: Player): string | null {
+  if (target.npc) return `${target.name} answers to no one but their lord`;
+  if (target.faction !== leader.faction) return `${target.name} fights for ${target.faction}`;
+  if (target.partyId) return `${target.name} is already in a party`;
+  if (distance(leader.position, target.position) > PARTY_RANGE) return `Stand closer to ${target.name} first`;
+
+  const party = getParty(state, leader);
+  if (party && party.memberIds[0] !== leader.id) return 'Only your party leader can invite';
+  if (party && party.memberIds.length >= PARTY_MAX_SIZE) return 'Your party is full';
+  return null;
+}
+
+export function invitePlayer(state: GameState, leaderId: string, targetId: string): EngineEvent[] {
+  const leader = state.players.get(leaderId);
+  if (!leader) return [];
+
+  const target = state.players.get(targetId);
+  if (!target || target === leader) return [{ type: 'rejected', playerId: leaderId, reason: 'No such player' }];
+
+  const refusal = inviteRefusal(state, leader, target);
+  if (refusal) return [{ type: 'rejected', playerId: leaderId, reason: refusal }];
+
+  // Asking again only renews the invitation
+  const { invites } = state.parties;
+  const expiresTick = state.tick + PARTY_INVITE_TICKS;
+  const existing = invites.find(i => i.leaderId === leaderId && i.playerId === targetId);
+  if (existing) existing.expiresTick = expiresTick;
+  else invites.push({ leaderId, playerId: targetId, expiresTick });
+
+  return [{ type: 'party_invited', playerId: targetId, leaderId }];
+}
+
+// Joining founds the leader's party, with `partyId`, if they had none yet
+export function answerInvite(
+  state: GameState,
+  playerId: string,
+  leaderId: string,
+  accept: boolean,
+  partyId: string,
+): EngineEvent[] {
+  const player = state.players.get(playerId);
+  if (!player) return [];
+
+  const { invites } = state.parties;
+  const index = invites.findIndex(i => i.leaderId === leaderId && i.playerId === playerId);
+  const leader = state.players.get(leaderId);
+  if (index === -1 || !leader) return [{ type: 'rejected', playerId, reason: 'That invitation has lapsed' }];
+  invites.splice(index, 1);
+
+  if (!accept) return [{ type: 'party_declined', playerId: leaderId, name: player.name }];
+
+  // Things may have changed since the invitation was made
+  const reject = (reason: string): EngineEvent[] => [{ type: 'rejected', playerId, reason }];
+  let party = getParty(state, leader);
+  if (player.partyId) return reject('Leave your current party first');
+  if (leader.faction !== player.faction) return reject(`${leader.name} now fights for ${leader.faction}`);
+  if (party && (party.memberIds[0] !== leader.id || party.memberIds.length >= PARTY_MAX_SIZE)) {
+    return reject(`${leader.name}'s party can no longer take you`);
+  }
+  if (player.battleId || leader.battleId) return reject('Cannot join a party during battle');
+  if (distance(leader.position, player.position) > PARTY_RANGE) return reject(`Stand closer to ${leader.name} first`);
+
+  if (!party) {
+    party = { id: partyId, memberIds: [leader.id] };
+    state.parties.groups.push(party);
+    leader.partyId = party.id;
+  }
+  party.memberIds.push(player.id);
+  player.partyId = party.id;
+
+  const events: EngineEvent[] = [{ type: 'party_changed', partyId: party.id, leftIds: [] }];
+
+  // New members fall in behind the leader, on the move or at a halt
+  if (leader.march || player.march) {
+    player.march = leader.march ? structuredClone(leader.march) : undefined;
+    events.push({ type: 'march_changed', playerId });
+  }
+  return events;
+}
+
+// The next member in line takes over from a leader who leaves; a party of one breaks up
+export function leaveParty(state: GameState, playerId: string): EngineEvent[] {
+  const player = state.players.get(playerId);
+  if (!player) return [];
+
+  const party = getParty(state, player);
+  if (!party) return [{ type: 'rejected', playerId, reason: 'You are not in a party' }];
+
+  party.memberIds = party.memberIds.filter(id => id !== playerId);
+  player.partyId = undefined;
+  const leftIds = [playerId];
+
+  // Invitations were made in the name of whoever led at the time
+  state.parties.invites = state.parties.invites.filter(i => i.leaderId !== playerId);
+
+  if (party.memberIds.length < 2) {
+    party.memberIds.forEach(id => {
+      const member = state.players.get(id);
+      if (member) member.partyId = undefined;
+      leftIds.push(id);
+    });
+    state.parties.groups = state.parties.groups.filter(p => p !== party);
+  }
+
+  return [{ type: 'party_changed', partyId: party.id, leftIds }];
+}
+
+// Unanswered invitations lapse without a word
+export function expireInvites(state: GameState) {
+  state.parties.invites = state.parties.invites.filter(i => i.expiresTick > state.tick);
+}
+
+// ============================================
+// TRANSFERS
+// ============================================
+
+// Faction-mates standing side by side can hand each other gold or soldiers, in a party or not
+export function transfer(state: GameState, playerId: string, message: ClientMessageOf<'transfer'>): EngineEvent[] {
+  const player = state.players.get(playerId);
+  if (!player) return [];
+
+  const target = state.players.get(message.targetId);
+  if (!target || target === player) return [{ type: 'rejected', playerId, reason: 'No such player' }];
+
+  const reject = (reason: string): EngineEvent[] => [{ type: 'rejected', playerId, reason }];
+  if (target.npc) return reject(`${target.name} takes orders only from their lord`);
+  if (target.faction !== player.faction) return reject(`${target.name} fights for ${target.faction}`);
+  if (player.battleId || target.battleId) return reject('Cannot hand over troops or gold during battle');
+  if (distance(player.position, target.position) > PARTY_RANGE) return reject(`Stand next to ${target.name} first`);
+
+  if (message.gold !== undefined) {
+    if (player.gold < message.gold) return reject('Not enough gold');
+    player.gold -= message.gold;
+    target.gold += message.gold;
+    return [{ type: 'transferred', playerId, targetId: target.id, gold: message.gold, units: [] }];
+  }
+
+  const stack = player.army.find(u => u.type === message.unitType && u.level === message.level);
+  if (!stack) return reject('No such troops to hand over');
+  if (message.count > stack.count) return reject(`Only ${stack.count} ${getRankName(stack)} to hand over`);
+  const limit = getArmyLimit(target.hero);
+  if (getArmySize(target.army) + message.count > limit) return reject(`${target.name} can lead no more than ${limit} soldiers`);
+
+  transferUnits(player.army, target.army, stack, message.count);
+  return [{
+    type: 'transferred',
+    playerId,
+    targetId: target.id,
+    gold: 0,
+    units: [{ type: stack.type, level: stack.level, count: message.count }],
+  }];
+}
@@ -0,0 +1,145 @@
+import { TERRAIN_TYPES, terrainAtTile, tileAt } from '@warband/protocol';
+import type { MapData, Position, TerrainType } from './types.js';
+
+// ============================================
+// PATHFINDING
+// ============================================
+
+export type TerrainCost = (terrain: TerrainType) => number;
+
+const NEIGHBORS = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [1, -1], [-1, 1], [-1, -1],
+];
+
+// Minimal binary heap of tile indices keyed on f-score
+function createOpenSet() {
+  const items: { index: number; f: number }[] = [];
+
+  return {
+    get size() {
+      return items.length;
+    },
+
+    push(index: number, f: number) {
+      items.push({ index, f });
+      let i = items.length - 1;
+      while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (items[parent].f <= items[i].f) break;
+        [items[parent], items[i]] = [items[i], items[parent]];
+        i = parent;
+      }
+    },
+
+    pop(): number {
+      const top = items[0];
+      const last = items.pop()!;
+      if (items.length > 0) {
+        items[0] = last;
+        let i = 0;
+        for (;;) {
+          const left = i * 2 + 1;
+          const right = left + 1;
+          let smallest = i;
+          if (left < items.length && items[left].f < items[smallest].f) smallest = left;
+          if (right < items.length && items[right].f < items[smallest].f) smallest = right;
+          if (smallest === i) break;
+          [items[smallest], items[i]] = [items[i], items[smallest]];
+          i = smallest;
+        }
+      }
+      return top.index;
+    },
+  };
+}
+
+function tileCenter(map: MapData, index: number): Position {
+  return {
+    x: ((index % map.width) + 0.5) * map.tileSize,
+    y: (Math.floor(index / map.width) + 0.5) * map.tileSize,
+  };
+}
+
+// Drops waypoints that continue in the same direction as the previous leg
+function simplify(points: Position[]): Position[] {
+  return points.filter((point, i) => {
+    if (i === 0 || i === points.length - 1) return true;
+    const prev = points[i - 1];
+    const next = points[i + 1];
+    const cross = (point.x - prev.x) * (next.y - point.y) - (point.y - prev.y) * (next.x - point.x);
+    return Math.abs(cross) > 1e-6;
+  });
+}
+
+/**
+ * A* over the tile grid. Returns the tile indices from start to goal inclusive, or null when
+ * the goal cannot be reached. Tiles whose cost is not finite are impassable.
+ */
+export function findTilePath(map: MapData, from: Position, to: Position, cost: TerrainCost): number[] | null {
+  const start = tileAt(map, from);
+  const goal = tileAt(map, to);
+  const startIndex = start.row * map.width + start.col;
+  const goalIndex = goal.row * map.width + goal.col;
+
+  if (!Number.isFinite(cost(terrainAtTile(map, goal.col, goal.row)))) return null;
+
+  const minCost = Math.min(...TERRAIN_TYPES.map(cost));
+  const heuristic = (index: number) => {
+    const dx = (index % map.width) - goal.col;
+    const dy = Math.floor(index / map.width) - goal.row;
+    return Math.sqrt(dx * dx + dy * dy) * minCost;
+  };
+
+  const tileCount = map.width * map.height;
+  const g = new Float64Array(tileCount).fill(Infinity);
+  const cameFrom = new Int32Array(tileCount).fill(-1);
+  const closed = new Uint8Array(tileCount);
+  const open = createOpenSet();
+
+  g[startIndex] = 0;
+  open.push(startIndex, heuristic(startIndex));
+
+  while (open.size > 0) {
+    const current = open.pop();
+    if (current === goalIndex) break;
+    if (closed[current]) continue;
+    closed[current] = 1;
+
+    const col = current % map.width;
+    const row = Math.floor(current / map.width);
+
+    for (const [dx, dy] of NEIGHBORS) {
+      const nc = col + dx;
+      const nr = row + dy;
+      if (nc < 0 || nr < 0 || nc >= map.width || nr >= map.height) continue;
+
+      const next = nr * map.width + nc;
+      const stepCost = cost(terrainAtTile(map, nc, nr));
+      if (closed[next] || !Number.isFinite(stepCost)) continue;
+
+      const tentative = g[current] + stepCost * (dx !== 0 && dy !== 0 ? Math.SQRT2 : 1);
+      if (tentative < g[next]) {
+        g[next] = tentative;
+        cameFrom[next] = current;
+        open.push(next, tentative + heuristic(next));
+      }
+    }
+  }
+
+  if (startIndex !== goalIndex && cameFrom[goalIndex] === -1) return null;
+
+  const tiles = [goalIndex];
+  while (tiles[0] !== startIndex) tiles.unshift(cameFrom[tiles[0]]);
+  return tiles;
+}
+
+// Waypoints from `from` to exactly `to`, following the cheapest route across the terrain
+export function findPath(map: MapData, from: Position, to: Position, cost: TerrainCost): Position[] | null {
+  const tiles = findTilePath(map, from, to, cost);
+  if (!tiles) return null;
+
+  // Skip the tile we're standing on and replace the goal tile's centre with the exact target
+  const waypoints = tiles.slice(1, -1).map(index => tileCenter(map, index));
+  return simplify([from, ...waypoints, to]).slice(1);
+}
@@ -0,0 +1,133 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHero, FACTIONS } from '@warband/protocol';
+import { createRelations } from './diplomacy.js';
+import { generateWorld } from './mapgen.js';
+import type { BattleReport, ChatRecord, FactionRelation, GameState, Player, Quests, Territory } from './types.js';
+
+// ============================================
+// PERSISTENCE
+// ============================================
+
+const SAVE_VERSION = 2;
+
+export type SavedPlayer = Omit<Player, 'ws' | 'battleId' | 'partyId' | 'disconnectedAt' | 'missedEvents'>;
+
+export interface SaveData {
+  version: number;
+  savedAt: number;
+  tick: number;
+  // Terrain is regenerated from the seed rather than stored tile by tile
+  mapSeed: number;
+  players: SavedPlayer[];
+  territories: Territory[];
+  // Missing from saves made before diplomacy; those worlds start with everyone at war
+  relations?: FactionRelation[];
+  // Recent chat history; missing from saves made before chat channels
+  chat?: ChatRecord[];
+  // Battle history; missing from saves made before battle reports
+  reports?: BattleReport[];
+  // Jobs on offer and in hand; missing from saves made before quests
+  quests?: Quests;
+}
+
+// Storage backends only move snapshots in and out; they never see live sockets
+export interface WorldStore {
+  load(): Promise<SaveData | null>;
+  save(data: SaveData): Promise<void>;
+}
+
+export function createJsonFileStore(filePath: string): WorldStore {
+  return {
+    async load() {
+      try {
+        const data = JSON.parse(await fs.readFile(filePath, 'utf8')) as SaveData;
+        if (data.version !== SAVE_VERSION) {
+          console.warn(`Ignoring save ${filePath}: version ${data.version}, expected ${SAVE_VERSION}`);
+          return null;
+        }
+        return data;
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw e;
+      }
+    },
+
+    async save(data) {
+      // Write to a temp file first so a crash mid-write never truncates the last good save
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const tmpPath = `${filePath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(data));
+      await fs.rename(tmpPath, filePath);
+    },
+  };
+}
+
+// Rooms players opened, so private matches outlive a restart; each one's world is saved separately
+export interface RoomRecord {
+  id: string;
+  name: string;
+  isPrivate: boolean;
+  owner: string;
+  ownerId: string;
+  mapSeed: number;
+  createdAt: number;
+}
+
+export interface RoomRegistry {
+  load(): Promise<RoomRecord[]>;
+  save(records: RoomRecord[]): Promise<void>;
+}
+
+export function createJsonRoomRegistry(filePath: string): RoomRegistry {
+  return {
+    async load() {
+      try {
+        return JSON.parse(await fs.readFile(filePath, 'utf8')) as RoomRecord[];
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw e;
+      }
+    },
+
+    async save(records) {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const tmpPath = `${filePath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(records));
+      await fs.rename(tmpPath, filePath);
+    },
+  };
+}
+
+export function snapshotState(state: GameState): SaveData {
+  return {
+    version: SAVE_VERSION,
+    savedAt: Date.now(),
+    tick: state.tick,
+    mapSeed: state.map.seed,
+    players: Array.from(state.players.values()).map(({ ws, battleId, partyId, disconnectedAt, missedEvents, ...saved }) => saved),
+    territories: state.territories,
+    relations: state.diplomacy.relations,
+    chat: state.chat,
+    reports: state.reports,
+    quests: state.quests,
+  };
+}
+
+// In-flight battles and parties are not saved, so everyone comes back out of combat and on their own
+export function restoreState(state: GameState, data: SaveData) {
+  state.tick = data.tick;
+  const world = generateWorld(data.mapSeed);
+  state.map = world.map;
+  // Settlement fields added since the save was written fall back to their freshly generated values
+  state.territories = data.territories.map(t => ({ ...world.territories.find(w => w.id === t.id)!, ...t }));
+  // Players saved before heroes take up a fresh one
+  state.players = new Map(data.players.map(p => [p.id, p.npc || p.hero ? { ...p } : { ...p, hero: createHero() }]));
+  state.battles = new Map();
+  state.parties = { groups: [], invites: [] };
+  // Votes in progress are not worth keeping across a restart
+  state.diplomacy = { relations: data.relations ?? createRelations(FACTIONS), proposals: [] };
+  state.chat = data.chat ?? [];
+  state.reports = data.reports ?? [];
+  state.quests = data.quests ?? { offers: [], taken: [] };
+}
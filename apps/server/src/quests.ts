@@ -0,0 +1,222 @@
+import {
+  DETAIL_RANGE,
+  isAtWar,
+  QUEST_BANDIT_RANGE,
+  QUEST_FAIL_REPUTATION_RATIO,
+  QUEST_LIMIT,
+  QUEST_TYPES,
+  SETTLEMENT_RANGE,
+  TICK_MS,
+  type Quest,
+} from '@warband/protocol';
+import { addHeroExperience } from './army.js';
+import {
+  MARCH_UNITS_PER_SECOND,
+  QUEST_OFFERS_PER_SETTLEMENT,
+  QUEST_POST_TICKS,
+  QUEST_SLACK_TICKS,
+} from './constants.js';
+import type { EngineEvent } from './engine.js';
+import { distance } from './movement.js';
+import type { Rng } from './rng.js';
+import type { GameState, Player, QuestRecord, Territory } from './types.js';
+
+// ============================================
+// QUESTS
+// ============================================
+
+// `now` is the server's clock, for turning the deadline tick into a time the client can count down to
+export function toQuestView(state: GameState, quest: QuestRecord, now: number): Quest {
+  const { durationTicks, playerId, deadlineTick, ...view } = quest;
+  return {
+    ...view,
+    duration: (durationTicks * TICK_MS) / 1000,
+    ...(deadlineTick !== undefined ? { expiresAt: now + (deadlineTick - state.tick) * TICK_MS } : {}),
+  };
+}
+
+export function getTakenQuests(state: GameState, playerId: string): QuestRecord[] {
+  return state.quests.taken.filter(q => q.playerId === playerId);
+}
+
+// Every settlement held by a faction replaces the jobs nobody took with a fresh batch
+export function postQuests(state: GameState, rng: Rng): EngineEvent[] {
+  state.quests.offers = state.territories
+    .filter(t => t.owner)
+    .flatMap(giver => Array.from({ length: QUEST_OFFERS_PER_SETTLEMENT }, (_, n) => draftQuest(state, giver, n, rng)))
+    .filter((q): q is QuestRecord => !!q);
+  return [{ type: 'quest_offers_changed' }];
+}
+
+// Picks a job for the settlement and somewhere to do it; null if the pick has nowhere to go
+function draftQuest(state: GameState, giver: Territory, n: number, rng: Rng): QuestRecord | null {
+  const faction = giver.owner!;
+  const type = QUEST_TYPES[Math.floor(rng() * QUEST_TYPES.length)];
+  const base = { id: `${giver.id}-${state.tick}-${n}`, type, giverId: giver.id, faction, progress: 0, goal: 1 };
+
+  if (type === 'bandits') {
+    const goal = 1 + Math.floor(rng() * 2);
+    return {
+      ...base,
+      targetId: giver.id,
+      goal,
+      reward: { gold: 150 * goal, xp: 100 * goal, reputation: 5 * goal },
+      durationTicks: QUEST_POST_TICKS * 2,
+    };
+  }
+
+  // Caravans and purses go anywhere the faction is not at war with; scouts go to enemy castles and cities
+  const targets = state.territories.filter(t => t !== giver && (type === 'scout'
+    ? t.type !== 'village' && !!t.owner && isAtWar(state.diplomacy.relations, faction, t.owner)
+    : !t.owner || !isAtWar(state.diplomacy.relations, faction, t.owner)));
+  if (targets.length === 0) return null;
+  const target = targets[Math.floor(rng() * targets.length)];
+  const d = distance(giver.position, target.position);
+  const durationTicks = marchTicks(d) * 3 + QUEST_SLACK_TICKS;
+
+  switch (type) {
+    case 'escort':
+      return {
+        ...base,
+        targetId: target.id,
+        reward: { gold: Math.round(50 + d * 4), xp: Math.round(d * 2), reputation: 4 },
+        durationTicks,
+      };
+    case 'deliver':
+      return {
+        ...base,
+        targetId: target.id,
+        gold: 100 + Math.floor(rng() * 5) * 50,
+        reward: { gold: Math.round(40 + d * 3), xp: Math.round(d), reputation: 3 },
+        durationTicks,
+      };
+    case 'scout':
+      return {
+        ...base,
+        targetId: target.id,
+        reward: { gold: 120, xp: Math.round(60 + d * 2), reputation: 4 },
+        durationTicks,
+      };
+  }
+}
+
+// Jobs are taken in person at the settlement that posted them, by anyone its owners are not at war with
+export function acceptQuest(state: GameState, playerId: string, questId: string): EngineEvent[] {
+  const player = state.players.get(playerId);
+  if (!player || player.npc) return [];
+
+  const reject = (reason: string): EngineEvent[] => [{ type: 'rejected', playerId, reason }];
+  const quest = state.quests.offers.find(q => q.id === questId);
+  if (!quest) return reject('That job has been taken or withdrawn');
+
+  const giver = state.territories.find(t => t.id === quest.giverId)!;
+  if (giver.owner !== quest.faction) return reject(`${giver.name} has changed hands since posting that job`);
+  if (isAtWar(state.diplomacy.relations, player.faction, quest.faction)) return reject(`${quest.faction} has no work for its enemies`);
+  if (player.battleId) return reject('Cannot take on work during battle');
+  if (distance(player.position, giver.position) > SETTLEMENT_RANGE) return reject(`Jobs at ${giver.name} are taken in person`);
+  if (getTakenQuests(state, playerId).length >= QUEST_LIMIT) return reject(`You can take on no more than ${QUEST_LIMIT} jobs at once`);
+
+  state.quests.offers = state.quests.offers.filter(q => q !== quest);
+  quest.playerId = playerId;
+  quest.deadlineTick = state.tick + quest.durationTicks;
+  state.quests.taken.push(quest);
+
+  return [{ type: 'quest_changed', playerId }, { type: 'quest_offers_changed' }];
+}
+
+export function abandonQuest(state: GameState, playerId: string, questId: string): EngineEvent[] {
+  const quest = getTakenQuests(state, playerId).find(q => q.id === questId);
+  if (!quest) return [{ type: 'rejected', playerId, reason: 'You have no such job' }];
+  return failQuest(state, quest, 'You gave up on the job');
+}
+
+// Deadlines lapse, and caravans, purses and scouts that have reached their goal are done with
+export function advanceQuests(state: GameState): EngineEvent[] {
+  const events: EngineEvent[] = [];
+
+  [...state.quests.taken].forEach(quest => {
+    const player = state.players.get(quest.playerId!);
+    if (!player) return;
+
+    if (state.tick >= quest.deadlineTick!) {
+      events.push(...failQuest(state, quest, 'You ran out of time'));
+      return;
+    }
+    if (player.battleId || quest.type === 'bandits') return;
+
+    const target = state.territories.find(t => t.id === quest.targetId)!;
+    const reached = distance(player.position, target.position) <= (quest.type === 'scout' ? DETAIL_RANGE : SETTLEMENT_RANGE);
+    if (!reached) return;
+
+    events.push(...completeQuest(state, quest, player));
+  });
+
+  return events;
+}
+
+// After a battle: the victors' bandit hunts move on for every bandit party routed near the settlement
+// that asked, and a beaten party loses the caravan it escorts or the purse it carries
+export function settleBattleQuests(state: GameState, winners: Player[], losers: Player[]): EngineEvent[] {
+  const events: EngineEvent[] = [];
+  const bandits = losers.filter(p => p.npc === 'bandit');
+
+  winners.forEach(player => {
+    getTakenQuests(state, player.id).filter(q => q.type === 'bandits').forEach(quest => {
+      const target = state.territories.find(t => t.id === quest.targetId)!;
+      const routed = bandits.filter(b => distance(b.position, target.position) <= QUEST_BANDIT_RANGE).length;
+      if (routed === 0) return;
+
+      quest.progress = Math.min(quest.goal, quest.progress + routed);
+      if (quest.progress >= quest.goal) events.push(...completeQuest(state, quest, player));
+      else events.push({ type: 'quest_changed', playerId: player.id });
+    });
+  });
+
+  losers.forEach(player => {
+    getTakenQuests(state, player.id)
+      .filter(q => q.type === 'escort' || q.type === 'deliver')
+      .forEach(quest => events.push(...failQuest(
+        state,
+        quest,
+        quest.type === 'escort' ? 'Your caravan was plundered' : 'The purse in your care was seized',
+      )));
+  });
+
+  return events;
+}
+
+function completeQuest(state: GameState, quest: QuestRecord, player: Player): EngineEvent[] {
+  state.quests.taken = state.quests.taken.filter(q => q !== quest);
+  const { gold, xp, reputation } = quest.reward;
+  player.gold += gold;
+  adjustReputation(player, quest.faction, reputation);
+
+  const events: EngineEvent[] = [{ type: 'quest_completed', playerId: player.id, quest }];
+  if (player.hero && addHeroExperience(player.hero, xp) > 0) {
+    events.push({ type: 'hero_levelled', playerId: player.id, level: player.hero.level });
+  }
+  return events;
+}
+
+// An undelivered purse was only ever held in trust, so it simply goes back to its owners
+function failQuest(state: GameState, quest: QuestRecord, reason: string): EngineEvent[] {
+  state.quests.taken = state.quests.taken.filter(q => q !== quest);
+  const player = state.players.get(quest.playerId!);
+  if (!player) return [];
+
+  adjustReputation(player, quest.faction, -Math.ceil(quest.reward.reputation * QUEST_FAIL_REPUTATION_RATIO));
+  return [{ type: 'quest_failed', playerId: player.id, quest, reason }];
+}
+
+function adjustReputation(player: Player, faction: string, change: number) {
+  player.reputation = { ...player.reputation, [faction]: (player.reputation?.[faction] ?? 0) + change };
+}
+
+// ============================================
+// UTILITIES
+// ============================================
+
+// Ticks a foot column takes to cover `d` across open ground
+function marchTicks(d: number): number {
+  return Math.ceil((d / MARCH_UNITS_PER_SECOND) * (1000 / TICK_MS));
+}
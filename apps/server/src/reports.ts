@@ -0,0 +1,39 @@
+import { BATTLE_HISTORY_PAGE, foughtOnSide, summarizeReport, type BattleReportSummary } from '@warband/protocol';
+import { BATTLE_HISTORY_LIMIT } from './constants.js';
+import type { BattleReport, Player } from './types.js';
+
+// ============================================
+// BATTLE HISTORY
+// ============================================
+
+export function pushBattleReport(history: BattleReport[], report: BattleReport) {
+  history.push(report);
+  if (history.length > BATTLE_HISTORY_LIMIT) history.splice(0, history.length - BATTLE_HISTORY_LIMIT);
+}
+
+// Players read their own battles and any their faction fought on either side, nothing else
+export function canReadReport(report: BattleReport, reader: Player): boolean {
+  return [report.attacker, report.defender].some(side => foughtOnSide(side, reader.id) || side.faction === reader.faction);
+}
+
+/**
+ * One page of the reader's history, newest first. `before` continues from the page that ended
+ * with that battle; once that battle has aged out of the record there is nothing older to give.
+ */
+export function getReportPage(
+  history: BattleReport[],
+  reader: Player,
+  options: { mine?: boolean; before?: string },
+): { reports: BattleReportSummary[]; more: boolean } {
+  const end = options.before ? history.findIndex(r => r.id === options.before) : history.length;
+  const readable = history.slice(0, Math.max(end, 0))
+    .filter(r => options.mine
+      ? foughtOnSide(r.attacker, reader.id) || foughtOnSide(r.defender, reader.id)
+      : canReadReport(r, reader))
+    .reverse();
+
+  return {
+    reports: readable.slice(0, BATTLE_HISTORY_PAGE).map(summarizeReport),
+    more: readable.length > BATTLE_HISTORY_PAGE,
+  };
+}
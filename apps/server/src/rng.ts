@@ -0,0 +1,39 @@
+// ============================================
+// SEEDED RANDOM
+// ============================================
+
+export type Rng = () => number;
+
+// mulberry32: tiny, fast and good enough for map generation; same seed, same world
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 2 ** 32);
+}
+
+// Passes draws through from `rng`, writing each one down in `rolls`
+export function recordRolls(rng: Rng, rolls: number[]): Rng {
+  return () => {
+    const roll = rng();
+    rolls.push(roll);
+    return roll;
+  };
+}
+
+// Hands back recorded draws in the order they were made
+export function replayRolls(rolls: readonly number[]): Rng {
+  let next = 0;
+  return () => {
+    if (next >= rolls.length) throw new Error('Ran out of recorded rolls');
+    return rolls[next++];
+  };
+}
@@ -0,0 +1,1438 @@
+import { WebSocket } from 'ws';
+import { v4 as uuid } from 'uuid';
+import {
+  ATTACK_RANGE,
+  BUILDING_COSTS,
+  createHero,
+  DEFECTION_COOLDOWN_TICKS,
+  DEFECTION_DESERTION_RATIO,
+  DEFECTION_GOLD_COST,
+  DETAIL_RANGE,
+  FACTION_COLORS,
+  FACTIONS,
+  getArmyLimit,
+  getPromotableCount,
+  getRankName,
+  getRelation,
+  getSettlementVision,
+  getStance,
+  getUnderdogBonus,
+  isAtWar,
+  isFactionOpen,
+  MAX_BUILDING_LEVEL,
+  pickBalancedFaction,
+  PROTOCOL_VERSION,
+  SCOUT_RANGE,
+  SETTLEMENT_RANGE,
+  TICK_MS,
+  UPGRADE_COST,
+  type BattleView,
+  type ClientMessage,
+  type ClientMessageOf,
+  type CreateRoomMessage,
+  type FactionHeadcounts,
+  type JoinMessage,
+  type LobbyMessage,
+  type PartyView,
+  type ResumeMessage,
+  type RoomInfo,
+} from '@warband/protocol';
+import type { Account } from './accounts.js';
+import { createBandit, createLord, decideNpcAction, findRallyPoint, musterArmy } from './ai.js';
+import { promoteUnits, transferUnits } from './army.js';
+import { getArmySize } from './battle.js';
+import {
+  AI_THINK_TICKS,
+  BANDIT_PARTY_COUNT,
+  BATTLE_MAX_ROUNDS,
+  CHAT_PROXIMITY_RANGE,
+  INTEREST_TICKS,
+  NPC_LORDS_PER_FACTION,
+  NPC_REGROUP_TICKS,
+  SAVE_INTERVAL_TICKS,
+} from './constants.js';
+import {
+  canReadChat,
+  getChatStatus,
+  isChatRateLimited,
+  isSilenced,
+  pushChatHistory,
+  reportChat,
+  toChatEntry,
+  type ChatFilter,
+} from './chat.js';
+import {
+  clearProposals,
+  createRelations,
+  findProposal,
+  isMutual,
+  npcFactionAccepts,
+  openProposal,
+  setStance,
+  toProposalView,
+} from './diplomacy.js';
+import { getCargoCapacity, getCargoLoad, quoteTrade } from './economy.js';
+import {
+  advanceWorld,
+  endBattle,
+  findNearbySettlement,
+  getBattleSides,
+  isUnderSiege,
+  orderMarch,
+  recruit,
+  startBattle,
+  type EngineEvent,
+  type EngineEventOf,
+} from './engine.js';
+import { getGarrisonCapacity } from './garrison.js';
+import {
+  canCountGarrison,
+  createSpatialIndex,
+  diffPlayerView,
+  glimpsePlayer,
+  sanitizePlayer,
+  sanitizeTerritory,
+} from './interest.js';
+import { generateWorld } from './mapgen.js';
+import { equipItem, manageCompanion, tradeItem, trainAttribute } from './hero.js';
+import { distance, findPassablePosition } from './movement.js';
+import { answerInvite, getParty, invitePlayer, leaveParty, toPartyView, transfer } from './party.js';
+import { restoreState, snapshotState, type WorldStore } from './persistence.js';
+import { abandonQuest, acceptQuest, getTakenQuests, postQuests, toQuestView } from './quests.js';
+import { canReadReport, getReportPage } from './reports.js';
+import { createRng, randomSeed } from './rng.js';
+import { createResumeToken } from './session.js';
+import type {
+  Battle,
+  BattleSide,
+  ChatRecord,
+  DiplomaticStance,
+  FactionRelation,
+  GameState,
+  Player,
+  PlayerChange,
+  Proposal,
+  PublicPlayer,
+  ReplayableEvent,
+  ServerMessage,
+  Territory,
+} from './types.js';
+
+// ============================================
+// ROOMS
+// ============================================
+
+// How long a dropped connection can pick its session back up with a resume token
+const RESUME_GRACE_MS = 2 * 60 * 1000;
+const MAX_MISSED_EVENTS = 50;
+
+// Everything a client sends once it is playing in a room
+export type RoomMessage = Exclude<ClientMessage, JoinMessage | ResumeMessage | LobbyMessage | CreateRoomMessage>;
+
+export interface RoomOptions {
+  id: string;
+  name: string;
+  isPrivate: boolean;
+  // Username and account id of the player who created the room
+  owner?: string;
+  ownerId?: string;
+  // Fixing the seed reproduces the same terrain and settlements on every fresh start
+  mapSeed: number;
+  maxPlayers: number;
+  store: WorldStore;
+  chatFilter: ChatFilter;
+  // Called whenever the room's headcounts may have changed, so the lobby can be told
+  onPopulationChange: () => void;
+}
+
+/**
+ * One independent world: its own map, parties, battles and chat, advanced by its own game loop
+ * and saved to its own store. Connections are routed in and out of it by the server.
+ */
+export function createRoom(options: RoomOptions) {
+  const { store, chatFilter } = options;
+  const world = generateWorld(options.mapSeed);
+  
+  const state: GameState = {
+    map: world.map,
+    diplomacy: { relations: createRelations(FACTIONS), proposals: [] },
+    parties: { groups: [], invites: [] },
+    quests: { offers: [], taken: [] },
+    players: new Map(),
+    territories: world.territories,
+    battles: new Map(),
+    chat: [],
+    reports: [],
+    tick: 0,
+  };
+  
+  // What each connected client was last told about every party it can see, by viewer then party
+  const knownViews = new Map<string, Map<string, PublicPlayer>>();
+  // The same for settlements, whose garrisons are only counted exactly up close
+  const knownTerritories = new Map<string, Map<string, Territory>>();
+  const spatialIndex = createSpatialIndex(SCOUT_RANGE);
+  // Battle luck and NPC wanderings; the map keeps its own generator so the seed still fixes the terrain
+  const rng = createRng(randomSeed());
+  let loop: ReturnType<typeof setInterval> | undefined;
+  
+  // ============================================
+  // MESSAGE HANDLERS
+  // ============================================
+
+  function handleMessage(playerId: string, message: RoomMessage) {
+    switch (message.type) {
+      case 'move':
+        handleMove(playerId, message);
+        break;
+      case 'recruit':
+        handleRecruit(playerId, message);
+        break;
+      case 'upgrade':
+        handleUpgrade(playerId, message);
+        break;
+      case 'trade':
+        handleTrade(playerId, message);
+        break;
+      case 'build':
+        handleBuild(playerId, message);
+        break;
+      case 'garrison':
+        handleGarrison(playerId, message);
+        break;
+      case 'defect':
+        handleDefect(playerId, message);
+        break;
+      case 'attack':
+        handleAttack(playerId, message);
+        break;
+      case 'retreat':
+        handleRetreat(playerId);
+        break;
+      case 'diplomacy':
+        handleDiplomacy(playerId, message);
+        break;
+      case 'chat':
+        handleChat(playerId, message);
+        break;
+      case 'chat_mute':
+        handleChatMute(playerId, message);
+        break;
+      case 'chat_report':
+        handleChatReport(playerId, message);
+        break;
+      case 'party_invite':
+        applyEvents(invitePlayer(state, playerId, message.targetId));
+        break;
+      case 'party_answer':
+        applyEvents(answerInvite(state, playerId, message.leaderId, message.accept, uuid()));
+        break;
+      case 'party_leave':
+        applyEvents(leaveParty(state, playerId));
+        break;
+      case 'transfer':
+        applyEvents(transfer(state, playerId, message));
+        break;
+      case 'item_trade':
+        applyEvents(tradeItem(state, playerId, message));
+        break;
+      case 'equip_item':
+        applyEvents(equipItem(state, playerId, message.itemId));
+        break;
+      case 'companion':
+        applyEvents(manageCompanion(state, playerId, message));
+        break;
+      case 'train_attribute':
+        applyEvents(trainAttribute(state, playerId, message.attribute));
+        break;
+      case 'quest_accept':
+        applyEvents(acceptQuest(state, playerId, message.questId));
+        break;
+      case 'quest_abandon':
+        applyEvents(abandonQuest(state, playerId, message.questId));
+        break;
+      case 'battle_history':
+        handleBattleHistory(playerId, message);
+        break;
+      case 'battle_replay':
+        handleBattleReplay(playerId, message);
+        break;
+      case 'ping':
+        handlePing(playerId, message);
+        break;
+    }
+  }
+
+  // The party's id is the account's, so each account has one party per room. Returns why the
+  // party can't join, if it can't.
+  function join(account: Pick<Account, 'id' | 'username'>, ws: WebSocket, faction?: string): string | null {
+    let player = state.players.get(account.id);
+    if (player) {
+      // Returning player: take over their idle party, keeping its side; a fresh join forfeits anything queued for resume
+      player.missedEvents = [];
+      player.name = account.username;
+    } else {
+      const counts = getHeadcounts();
+      if (faction && !isFactionOpen(counts, faction)) {
+        return `${faction} has too many players right now; pick a smaller faction`;
+      }
+      const chosen = faction ?? pickBalancedFaction(counts);
+      
+      player = {
+        id: account.id,
+        name: account.username,
+        faction: chosen,
+        position: findPassablePosition(state.map, { x: 50, y: 50 }, 30, rng) ?? { ...state.territories[0].position },
+        gold: 1000 + getUnderdogBonus(counts, chosen),
+        army: [
+          { type: 'infantry', count: 20, level: 1 },
+          { type: 'archer', count: 10, level: 1 },
+        ],
+        color: FACTION_COLORS[chosen],
+        hero: createHero(),
+      };
+      
+      state.players.set(player.id, player);
+    }
+    
+    attachSocket(player, ws, false);
+    console.log(`${player.name} joined ${options.name} as ${player.faction}`);
+    options.onPopulationChange();
+    return null;
+  }
+  
+  // False if the party can't be resumed, in which case the client starts over with a regular join
+  function resume(playerId: string, ws: WebSocket): boolean {
+    const player = state.players.get(playerId);
+    const expired = !player?.ws && Date.now() - (player?.disconnectedAt ?? 0) > RESUME_GRACE_MS;
+    if (!player || expired) return false;
+    
+    attachSocket(player, ws, true);
+    
+    // Replay what happened while the connection was down
+    const missed = player.missedEvents ?? [];
+    player.missedEvents = [];
+    missed.forEach(event => send(ws, { ...event, replayed: true }));
+    
+    console.log(`${player.name} resumed in ${options.name} (${missed.length} missed events)`);
+    options.onPopulationChange();
+    return true;
+  }
+  
+  // The party stays on the map, idle, and can still be resumed for a while
+  function leave(playerId: string, ws: WebSocket) {
+    const player = state.players.get(playerId);
+    // Ignore sockets that were already replaced by a newer connection for the same account
+    if (!player || player.ws !== ws) return;
+    
+    console.log(`${player.name} left ${options.name}`);
+    player.ws = undefined;
+    player.disconnectedAt = Date.now();
+    knownViews.delete(player.id);
+    knownTerritories.delete(player.id);
+    sendToViewers(player, { type: 'player_left', playerId: player.id }, { online: !!player.npc });
+    options.onPopulationChange();
+  }
+  
+  // Drops the party's connection, e.g. when the account signs in to another room elsewhere
+  function kick(playerId: string, reason: string) {
+    state.players.get(playerId)?.ws?.close(4000, reason);
+  }
+  
+  // Online human players per faction; NPC lords and idle parties don't count toward balancing
+  function getHeadcounts(): FactionHeadcounts {
+    const counts: FactionHeadcounts = Object.fromEntries(FACTIONS.map(f => [f, 0]));
+    state.players.forEach(p => {
+      if (p.ws && !p.npc && p.faction in counts) counts[p.faction]++;
+    });
+    return counts;
+  }
+  
+  function getInfo(): RoomInfo {
+    return {
+      id: options.id,
+      name: options.name,
+      isPrivate: options.isPrivate,
+      players: Array.from(state.players.values()).filter(p => p.ws && !p.npc).length,
+      maxPlayers: options.maxPlayers,
+      factions: getHeadcounts(),
+      ...(options.owner ? { owner: options.owner } : {}),
+    };
+  }
+
+  // Binds a socket to a player and sends them the full world, kicking any stale connection
+  function attachSocket(player: Player, ws: WebSocket, resumed: boolean) {
+    if (player.ws && player.ws !== ws) {
+      player.ws.close(4000, 'Signed in from another connection');
+    }
+    player.ws = ws;
+    player.disconnectedAt = undefined;
+    
+    // Send initial state to player; other parties follow as they come into view
+    const visible = getVisiblePlayers(player);
+    knownViews.set(player.id, new Map(visible.map(view => [view.id, view])));
+    send(ws, {
+      type: 'init',
+      protocolVersion: PROTOCOL_VERSION,
+      playerId: player.id,
+      resumeToken: createResumeToken(player.id),
+      resumed,
+      room: getInfo(),
+      player: sanitizePlayer(player),
+      players: visible,
+      territories: viewTerritories(player, state.territories),
+      map: state.map,
+      relations: state.diplomacy.relations,
+      proposals: state.diplomacy.proposals
+        .filter(p => p.faction === player.faction || p.target === player.faction)
+        .map(p => toProposalView(p, votesNeeded(p.faction), state.tick)),
+      chat: state.chat.filter(record => canReadChat(record, player)).map(toChatEntry),
+      party: getPartyView(player),
+      quests: getQuestLog(player),
+      questOffers: getQuestOffers(),
+    });
+  }
+
+  function handleMove(playerId: string, message: ClientMessageOf<'move'>) {
+    // The server walks the party there over the following ticks; clients animate the broadcast path
+    applyEvents(orderMarch(state, playerId, message));
+  }
+
+  function handleRecruit(playerId: string, message: ClientMessageOf<'recruit'>) {
+    applyEvents(recruit(state, playerId, message.unitType, message.count));
+  }
+
+  function handleTrade(playerId: string, message: ClientMessageOf<'trade'>) {
+    const player = state.players.get(playerId);
+    if (!player) return;
+    
+    if (player.battleId) {
+      send(player.ws, { type: 'error', message: 'Cannot trade during battle' });
+      return;
+    }
+    
+    // Any market will deal with you unless its owners are at war with you
+    const settlement = findNearbySettlement(state, player, t => !t.owner || !isAtWar(state.diplomacy.relations, player.faction, t.owner));
+    if (!settlement) {
+      send(player.ws, { type: 'error', message: 'No friendly market nearby' });
+      return;
+    }
+    
+    const { good, count, action } = message;
+    const cargo = player.cargo ?? {};
+    const price = quoteTrade(settlement.market, good, count, action);
+    
+    if (action === 'buy') {
+      if (count > settlement.market[good]) {
+        send(player.ws, { type: 'error', message: `${settlement.name} only has ${settlement.market[good]} ${good}` });
+        return;
+      }
+      if (getCargoLoad(cargo) + count > getCargoCapacity(player.army)) {
+        send(player.ws, { type: 'error', message: 'Not enough room in your baggage train' });
+        return;
+      }
+      if (player.gold < price) {
+        send(player.ws, { type: 'error', message: 'Not enough gold' });
+        return;
+      }
+      player.gold -= price;
+      settlement.market[good] -= count;
+      cargo[good] = (cargo[good] ?? 0) + count;
+    } else {
+      if ((cargo[good] ?? 0) < count) {
+        send(player.ws, { type: 'error', message: `You are not carrying ${count} ${good}` });
+        return;
+      }
+      player.gold += price;
+      settlement.market[good] += count;
+      cargo[good] = cargo[good]! - count;
+      if (cargo[good] === 0) delete cargo[good];
+    }
+    
+    player.cargo = cargo;
+    send(player.ws, { type: 'traded', player: sanitizePlayer(player) });
+    sendTerritory(settlement);
+  }
+
+  function handleBuild(playerId: string, message: ClientMessageOf<'build'>) {
+    const player = state.players.get(playerId);
+    if (!player) return;
+    
+    const settlement = findOwnSettlement(player, message.territoryId);
+    if (!settlement) return;
+    
+    if (isUnderSiege(state, settlement)) {
+      send(player.ws, { type: 'error', message: `${settlement.name} is under siege` });
+      return;
+    }
+    
+    const { building } = message;
+    const level = settlement.buildings[building];
+    if (level >= MAX_BUILDING_LEVEL) {
+      send(player.ws, { type: 'error', message: `The ${building} of ${settlement.name} cannot be improved further` });
+      return;
+    }
+    
+    const cost = BUILDING_COSTS[building][level];
+    if (player.gold < cost) {
+      send(player.ws, { type: 'error', message: 'Not enough gold' });
+      return;
+    }
+    
+    player.gold -= cost;
+    settlement.buildings[building] = level + 1;
+    
+    send(player.ws, { type: 'built', player: sanitizePlayer(player) });
+    sendTerritory(settlement);
+  }
+
+  function handleGarrison(playerId: string, message: ClientMessageOf<'garrison'>) {
+    const player = state.players.get(playerId);
+    if (!player) return;
+    
+    if (player.battleId) {
+      send(player.ws, { type: 'error', message: 'Cannot reassign troops during battle' });
+      return;
+    }
+    
+    const settlement = findOwnSettlement(player, message.territoryId);
+    if (!settlement) return;
+    
+    if (isUnderSiege(state, settlement)) {
+      send(player.ws, { type: 'error', message: `${settlement.name} is under siege` });
+      return;
+    }
+    
+    const { unitType, level, count, action } = message;
+    const from = action === 'station' ? player.army : settlement.garrison;
+    const to = action === 'station' ? settlement.garrison : player.army;
+    
+    const stack = from.find(u => u.type === unitType && u.level === level);
+    if (!stack || stack.count < count) {
+      const where = action === 'station' ? 'your party' : `the ${settlement.name} garrison`;
+      send(player.ws, { type: 'error', message: `Not enough ${getRankName({ type: unitType, level })} in ${where}` });
+      return;
+    }
+    
+    if (action === 'station' && getArmySize(settlement.garrison) + count > getGarrisonCapacity(settlement)) {
+      send(player.ws, { type: 'error', message: `${settlement.name} can only quarter ${getGarrisonCapacity(settlement)} soldiers` });
+      return;
+    }
+    
+    const limit = getArmyLimit(player.hero);
+    if (action === 'withdraw' && getArmySize(player.army) + count > limit) {
+      send(player.ws, { type: 'error', message: `Your hero can lead no more than ${limit} soldiers` });
+      return;
+    }
+    
+    transferUnits(from, to, stack, count);
+    
+    send(player.ws, { type: 'garrisoned', player: sanitizePlayer(player) });
+    sendTerritory(settlement);
+  }
+
+  function handleUpgrade(playerId: string, message: ClientMessageOf<'upgrade'>) {
+    const player = state.players.get(playerId);
+    if (!player) return;
+    
+    if (player.battleId) {
+      send(player.ws, { type: 'error', message: 'Cannot upgrade during battle' });
+      return;
+    }
+    
+    const stack = player.army.find(u => u.type === message.unitType && u.level === message.level);
+    if (!stack) {
+      send(player.ws, { type: 'error', message: 'No such troops to upgrade' });
+      return;
+    }
+    
+    const ready = getPromotableCount(stack);
+    if (message.count > ready) {
+      send(player.ws, { type: 'error', message: `Only ${ready} ${getRankName(stack)} have earned a promotion` });
+      return;
+    }
+    
+    const cost = UPGRADE_COST[stack.type][stack.level - 1] * message.count;
+    if (player.gold < cost) {
+      send(player.ws, { type: 'error', message: 'Not enough gold' });
+      return;
+    }
+    
+    player.gold -= cost;
+    promoteUnits(player.army, stack, message.count);
+    
+    send(player.ws, {
+      type: 'upgraded',
+      player: sanitizePlayer(player),
+    });
+  }
+
+  function handleAttack(playerId: string, message: ClientMessageOf<'attack'>) {
+    const attacker = state.players.get(playerId);
+    if (!attacker) return;
+    
+    if (attacker.battleId) {
+      send(attacker.ws, { type: 'error', message: 'Already in battle' });
+      return;
+    }
+    
+    if (attacker.army.length === 0) {
+      send(attacker.ws, { type: 'error', message: 'You have no troops' });
+      return;
+    }
+    
+    if (message.targetId) {
+      // PvP battle
+      const defender = state.players.get(message.targetId);
+      if (!defender || defender.id === attacker.id) return;
+      
+      // Check distance
+      if (distance(attacker.position, defender.position) > ATTACK_RANGE) {
+        send(attacker.ws, { type: 'error', message: 'Too far to attack' });
+        return;
+      }
+      
+      if (defender.battleId) {
+        send(attacker.ws, { type: 'error', message: `${defender.name} is already fighting` });
+        return;
+      }
+      
+      const refusal = attackRefusal(attacker.faction, defender.faction);
+      if (refusal) {
+        send(attacker.ws, { type: 'error', message: refusal });
+        return;
+      }
+      
+      applyEvents(startBattle(state, uuid(), Date.now(), attacker, defender));
+    } else if (message.territoryId) {
+      // Siege
+      const territory = state.territories.find(t => t.id === message.territoryId);
+      if (!territory) return;
+      
+      if (territory.owner === attacker.faction) {
+        send(attacker.ws, { type: 'error', message: `${territory.name} is already held by ${attacker.faction}` });
+        return;
+      }
+      
+      const refusal = territory.owner && attackRefusal(attacker.faction, territory.owner);
+      if (refusal) {
+        send(attacker.ws, { type: 'error', message: refusal });
+        return;
+      }
+      
+      if (distance(attacker.position, territory.position) > ATTACK_RANGE) {
+        send(attacker.ws, { type: 'error', message: 'Too far to besiege' });
+        return;
+      }
+      
+      if (isUnderSiege(state, territory)) {
+        send(attacker.ws, { type: 'error', message: `${territory.name} is already under siege` });
+        return;
+      }
+      
+      applyEvents(startBattle(state, uuid(), Date.now(), attacker, null, territory));
+    }
+  }
+
+  function handleRetreat(playerId: string) {
+    const player = state.players.get(playerId);
+    if (!player?.battleId) return;
+    
+    const battle = state.battles.get(player.battleId);
+    if (!battle || battle.phase === 'ended') return;
+    
+    // The whole side falls back together
+    const side: BattleSide = battle.members.attacker.includes(playerId) ? 'attacker' : 'defender';
+    applyEvents(endBattle(state, battle, side === 'attacker' ? 'defender' : 'attacker', side));
+  }
+
+  function handleDiplomacy(playerId: string, message: ClientMessageOf<'diplomacy'>) {
+    const player = state.players.get(playerId);
+    if (!player) return;
+    
+    const { target, stance } = message;
+    const relation = getRelation(state.diplomacy.relations, player.faction, target);
+    if (!relation) {
+      send(player.ws, { type: 'error', message: `${player.faction} has no relations with ${target}` });
+      return;
+    }
+    
+    if (relation.stance === stance) {
+      send(player.ws, { type: 'error', message: `${player.faction} is already at ${stance} with ${target}` });
+      return;
+    }
+    
+    if (stance === 'war' && relation.stance === 'truce') {
+      send(player.ws, { type: 'error', message: `The truce with ${target} still holds` });
+      return;
+    }
+    
+    const { proposals } = state.diplomacy;
+    const proposal = findProposal(proposals, player.faction, target, stance)
+      ?? openProposal(proposals, player.faction, target, stance, state.tick);
+    
+    if (proposal.offered || proposal.voterIds.includes(player.id)) {
+      send(player.ws, { type: 'error', message: `You already backed ${stance} with ${target}` });
+      return;
+    }
+    
+    proposal.voterIds.push(player.id);
+    
+    if (proposal.voterIds.length >= votesNeeded(player.faction)) {
+      if (!isMutual(stance)) {
+        changeStance(relation, stance);
+        return;
+      }
+      
+      // Mutual stances take effect once the other side has passed the same proposal
+      const counter = findProposal(proposals, target, player.faction, stance);
+      const accepted = counter?.offered
+        || (getFactionVoters(target).length === 0 && npcFactionAccepts(state, target, player.faction, stance));
+      if (accepted) {
+        changeStance(relation, stance);
+        return;
+      }
+      proposal.offered = true;
+    }
+    
+    announceProposal(proposal);
+  }
+
+  function handleDefect(playerId: string, message: ClientMessageOf<'defect'>) {
+    const player = state.players.get(playerId);
+    if (!player) return;
+    
+    const from = player.faction;
+    const to = message.faction;
+    if (to === from) {
+      send(player.ws, { type: 'error', message: `You already fight for ${to}` });
+      return;
+    }
+    
+    if (player.battleId) {
+      send(player.ws, { type: 'error', message: 'Cannot change sides in the middle of a battle' });
+      return;
+    }
+    
+    const ticksLeft = (player.defectedTick ?? -Infinity) + DEFECTION_COOLDOWN_TICKS - state.tick;
+    if (ticksLeft > 0) {
+      const minutes = Math.ceil((ticksLeft * TICK_MS) / 60000);
+      send(player.ws, { type: 'error', message: `You changed sides too recently; wait ${minutes} more minute(s)` });
+      return;
+    }
+    
+    if (player.gold < DEFECTION_GOLD_COST) {
+      send(player.ws, { type: 'error', message: `Defecting costs ${DEFECTION_GOLD_COST} gold` });
+      return;
+    }
+    
+    // The defector no longer counts toward the side they are leaving
+    const counts = getHeadcounts();
+    counts[from]--;
+    if (!isFactionOpen(counts, to)) {
+      send(player.ws, { type: 'error', message: `${to} has too many players right now` });
+      return;
+    }
+    
+    player.gold -= DEFECTION_GOLD_COST;
+    let deserted = 0;
+    player.army.forEach(unit => {
+      const leaving = Math.floor(unit.count * DEFECTION_DESERTION_RATIO);
+      unit.count -= leaving;
+      deserted += leaving;
+    });
+    player.army = player.army.filter(u => u.count > 0);
+    
+    // Nor do their party and any invitations still waiting on them
+    if (player.partyId) applyEvents(leaveParty(state, player.id));
+    state.parties.invites = state.parties.invites.filter(i => i.playerId !== player.id);
+    
+    // Votes cast for the old faction no longer stand
+    state.diplomacy.proposals
+      .filter(p => p.faction === from && !p.offered)
+      .forEach(p => {
+        p.voterIds = p.voterIds.filter(id => id !== player.id);
+      });
+    
+    player.faction = to;
+    player.color = FACTION_COLORS[to];
+    player.defectedTick = state.tick;
+    
+    console.log(`${player.name} defected from ${from} to ${to} (${deserted} troops deserted)`);
+    send(player.ws, {
+      type: 'defected',
+      player: sanitizePlayer(player),
+      proposals: state.diplomacy.proposals
+        .filter(p => p.faction === to || p.target === to)
+        .map(p => toProposalView(p, votesNeeded(p.faction), state.tick)),
+    });
+    broadcast({ type: 'player_defected', playerId: player.id, name: player.name, from, to }, player.id);
+    options.onPopulationChange();
+  }
+
+  function handleChat(playerId: string, message: ClientMessageOf<'chat'>) {
+    const player = state.players.get(playerId);
+    if (!player) return;
+    
+    const status = getChatStatus(player);
+    const now = Date.now();
+    if (isSilenced(status, now)) {
+      const minutes = Math.ceil((status.silencedUntil! - now) / 60000);
+      send(player.ws, { type: 'error', message: `You have been silenced for ${minutes} more minute(s)` });
+      return;
+    }
+    
+    if (isChatRateLimited(status, now)) {
+      send(player.ws, { type: 'error', message: 'You are sending messages too quickly' });
+      return;
+    }
+    
+    const text = chatFilter(message.text, player);
+    if (!text) {
+      send(player.ws, { type: 'error', message: 'Your message was blocked' });
+      return;
+    }
+    
+    const record: ChatRecord = {
+      id: uuid(),
+      channel: message.channel,
+      playerId,
+      name: player.name,
+      faction: player.faction,
+      text,
+      time: now,
+    };
+    
+    if (message.channel === 'whisper') {
+      const target = findPlayerByName(message.to!);
+      if (!target?.ws) {
+        send(player.ws, { type: 'error', message: `No one called ${message.to} is online` });
+        return;
+      }
+      if (target.id === playerId) {
+        send(player.ws, { type: 'error', message: 'You mutter to yourself' });
+        return;
+      }
+      record.to = target.name;
+      record.recipientIds = [playerId, target.id];
+    } else if (message.channel === 'proximity') {
+      record.recipientIds = Array.from(state.players.values())
+        .filter(p => !p.npc && distance(p.position, player.position) <= CHAT_PROXIMITY_RANGE)
+        .map(p => p.id);
+    }
+    
+    pushChatHistory(state.chat, record);
+    
+    const entry = toChatEntry(record);
+    state.players.forEach(reader => {
+      if (reader.ws && canReadChat(record, reader)) send(reader.ws, { type: 'chat', ...entry });
+    });
+  }
+
+  function handleChatMute(playerId: string, message: ClientMessageOf<'chat_mute'>) {
+    const player = state.players.get(playerId);
+    if (!player) return;
+    
+    const target = findPlayerByName(message.name);
+    if (!target || target.id === playerId) {
+      send(player.ws, { type: 'error', message: `No player called ${message.name}` });
+      return;
+    }
+    
+    const status = getChatStatus(player);
+    status.mutedIds = status.mutedIds.filter(id => id !== target.id);
+    if (message.muted) status.mutedIds.push(target.id);
+    
+    send(player.ws, { type: 'chat_notice', text: `${message.muted ? 'Muted' : 'Unmuted'} ${target.name}` });
+  }
+
+  function handleChatReport(playerId: string, message: ClientMessageOf<'chat_report'>) {
+    const player = state.players.get(playerId);
+    if (!player) return;
+    
+    const target = findPlayerByName(message.name);
+    if (!target || target.id === playerId) {
+      send(player.ws, { type: 'error', message: `No player called ${message.name}` });
+      return;
+    }
+    
+    console.log(`Chat report: ${player.name} reported ${target.name}${message.reason ? `: ${message.reason}` : ''}`);
+    send(player.ws, { type: 'chat_notice', text: `Reported ${target.name} to the moderators` });
+    
+    if (reportChat(target, playerId, Date.now())) {
+      console.log(`${target.name} silenced after repeated chat reports`);
+      send(target.ws, { type: 'chat_notice', text: 'You have been silenced after reports from other players' });
+    }
+  }
+
+  function handleBattleHistory(playerId: string, message: ClientMessageOf<'battle_history'>) {
+    const player = state.players.get(playerId);
+    if (!player) return;
+    
+    send(player.ws, { type: 'battle_history', ...getReportPage(state.reports, player, message) });
+  }
+
+  function handleBattleReplay(playerId: string, message: ClientMessageOf<'battle_replay'>) {
+    const player = state.players.get(playerId);
+    if (!player) return;
+    
+    // Battles the player has no part in look the same as ones that never happened
+    const report = state.reports.find(r => r.id === message.battleId);
+    if (!report || !canReadReport(report, player)) {
+      send(player.ws, { type: 'error', message: 'No report of that battle' });
+      return;
+    }
+    
+    send(player.ws, { type: 'battle_replay', report });
+  }
+
+  function handlePing(playerId: string, message: ClientMessageOf<'ping'>) {
+    const player = state.players.get(playerId);
+    if (!player) return;
+    
+    send(player.ws, { type: 'pong', id: message.id, tick: state.tick, time: Date.now() });
+  }
+
+  // ============================================
+  // MOVEMENT
+  // ============================================
+
+  // Viewers who only glimpse the party see it set off, but not where it is headed
+  function broadcastMarch(player: Player) {
+    sendToViewers(player, {
+      type: 'player_march',
+      playerId: player.id,
+      position: player.position,
+      march: player.march ?? null,
+    }, { position: { ...player.position }, march: structuredClone(player.march) }, {
+      data: { type: 'player_moved', playerId: player.id, position: player.position },
+      seen: { position: { ...player.position } },
+    });
+  }
+
+  function broadcastMoved(player: Player) {
+    sendToViewers(
+      player,
+      { type: 'player_moved', playerId: player.id, position: player.position },
+      { position: { ...player.position }, march: undefined },
+    );
+  }
+
+  // ============================================
+  // DIPLOMACY
+  // ============================================
+
+  function attackRefusal(attackerFaction: string, defenderFaction: string): string | null {
+    if (attackerFaction === defenderFaction) return `You cannot attack your own faction`;
+    const stance = getStance(state.diplomacy.relations, attackerFaction, defenderFaction);
+    return stance === 'war' ? null : `${attackerFaction} is at ${stance} with ${defenderFaction}`;
+  }
+
+  // Online human members decide for their faction
+  function getFactionVoters(faction: string): Player[] {
+    return Array.from(state.players.values()).filter(p => p.faction === faction && !p.npc && p.ws);
+  }
+
+  function votesNeeded(faction: string): number {
+    return Math.floor(getFactionVoters(faction).length / 2) + 1;
+  }
+
+  function announceProposal(proposal: Proposal) {
+    const view = toProposalView(proposal, votesNeeded(proposal.faction), state.tick);
+    state.players.forEach(player => {
+      if (player.faction === proposal.faction || player.faction === proposal.target) {
+        send(player.ws, { type: 'diplomacy_proposal', proposal: view });
+      }
+    });
+  }
+
+  function changeStance(relation: FactionRelation, stance: DiplomaticStance) {
+    const previous = relation.stance;
+    setStance(relation, stance, state.tick);
+    clearProposals(state.diplomacy.proposals, ...relation.factions);
+    broadcast({ type: 'diplomacy_changed', relation, previous });
+    console.log(`${relation.factions.join(' and ')}: ${previous} -> ${stance}`);
+  }
+
+  // ============================================
+  // NPCs
+  // ============================================
+
+  // Tops the world up to its quota of faction lords and bandit parties
+  function spawnNpcs() {
+    const npcs = Array.from(state.players.values()).filter(p => p.npc);
+    
+    FACTIONS.forEach((faction, i) => {
+      const home = state.territories.find(t => t.owner === faction);
+      const lords = npcs.filter(p => p.npc === 'lord' && p.faction === faction).length;
+      if (!home) return;
+      
+      for (let n = lords; n < NPC_LORDS_PER_FACTION; n++) {
+        const lord = createLord(faction, FACTION_COLORS[faction], home, i + n * FACTIONS.length);
+        state.players.set(lord.id, lord);
+      }
+    });
+    
+    const bandits = npcs.filter(p => p.npc === 'bandit').length;
+    for (let n = bandits; n < BANDIT_PARTY_COUNT; n++) {
+      const position = findPassablePosition(state.map, { x: 50, y: 50 }, 40, rng);
+      if (!position) continue;
+      const bandit = createBandit(position, n);
+      state.players.set(bandit.id, bandit);
+    }
+  }
+
+  // A routed NPC party lies low for a while, then musters a fresh army at its rally point
+  function regroupNpc(npc: Player) {
+    const brain = npc.ai!;
+    if (brain.regroupTick === undefined) {
+      brain.regroupTick = state.tick + NPC_REGROUP_TICKS;
+      return;
+    }
+    if (state.tick < brain.regroupTick) return;
+    
+    npc.army = musterArmy(npc.npc!);
+    npc.position = findRallyPoint(npc, state, rng);
+    npc.march = undefined;
+    brain.regroupTick = undefined;
+    brain.goal = { type: 'patrol' };
+    broadcastMoved(npc);
+  }
+
+  function advanceNpcs() {
+    state.players.forEach(npc => {
+      if (!npc.npc || !npc.ai) return;
+      
+      if (npc.army.length === 0 && !npc.battleId) {
+        regroupNpc(npc);
+        return;
+      }
+      
+      const action = decideNpcAction(npc, state, rng);
+      if (action) handleMessage(npc.id, action);
+    });
+  }
+
+  // ============================================
+  // BATTLES
+  // ============================================
+
+  // Chat addresses people by name; NPC parties never read it
+  function findPlayerByName(name: string): Player | undefined {
+    const wanted = name.toLowerCase();
+    const matches = Array.from(state.players.values()).filter(p => !p.npc && p.name.toLowerCase() === wanted);
+    return matches.find(p => p.ws) ?? matches[0];
+  }
+
+  // Only the holding faction may build in or garrison a settlement, and only in person
+  function findOwnSettlement(player: Player, territoryId: string): Territory | undefined {
+    const territory = state.territories.find(t => t.id === territoryId);
+    if (!territory) return undefined;
+    
+    if (territory.owner !== player.faction) {
+      send(player.ws, { type: 'error', message: `${territory.name} is not held by ${player.faction}` });
+      return undefined;
+    }
+    
+    if (distance(player.position, territory.position) > SETTLEMENT_RANGE) {
+      send(player.ws, { type: 'error', message: `Travel to ${territory.name} first` });
+      return undefined;
+    }
+    
+    return territory;
+  }
+
+  function sendBattleUpdate(battle: Battle) {
+    const sides = getBattleSides(state, battle);
+    const view: BattleView = {
+      id: battle.id,
+      phase: battle.phase,
+      round: Math.min(battle.round, BATTLE_MAX_ROUNDS),
+      maxRounds: BATTLE_MAX_ROUNDS,
+      stage: battle.stage,
+      terrain: battle.terrain,
+      territoryId: battle.territory,
+      attacker: { id: battle.attackerId, name: sides.attackerName, army: sides.attackerArmy },
+      defender: { id: battle.defenderId, name: sides.defenderName, army: sides.defenderArmy },
+      events: battle.events.slice(-6),
+      winner: battle.winner,
+      retreated: battle.retreated,
+    };
+    
+    sides.attackers.forEach(p => send(p.ws, { type: 'battle_update', battle: view, role: 'attacker' }));
+    sides.defenders.forEach(p => send(p.ws, { type: 'battle_update', battle: view, role: 'defender' }));
+  }
+
+  function announceBattleEnd(event: EngineEventOf<'battle_ended'>) {
+    const { battle, result, lootShares } = event;
+    const sides = getBattleSides(state, battle);
+    
+    // Everyone hears the outcome with their own share of the loot
+    sendBattleUpdate(battle);
+    const sendResult = (player: Player, role: BattleSide) => {
+      sendToPlayer(player, { type: 'battle_result', ...result, loot: Math.abs(lootShares[player.id] ?? 0), role });
+    };
+    sides.attackers.forEach(p => sendResult(p, 'attacker'));
+    sides.defenders.forEach(p => sendResult(p, 'defender'));
+    
+    broadcast({
+      type: 'battle_occurred',
+      attacker: sides.attackerName,
+      defender: sides.defenderName,
+      winner: result.winner,
+    });
+    
+    if (sides.territory) {
+      sendTerritory(sides.territory);
+    }
+    
+    if (event.captured) {
+      const territory = sides.territory!;
+      broadcast({
+        type: 'territory_captured',
+        territoryId: territory.id,
+        territoryName: territory.name,
+        owner: territory.owner!,
+        previousOwner: event.previousOwner,
+        by: sides.attackerName,
+      });
+      console.log(`${sides.attackerName} captured ${territory.name} for ${territory.owner}`);
+    }
+  }
+
+  // ============================================
+  // ENGINE EVENTS
+  // ============================================
+
+  // The engine only changes the world; this tells the players concerned what changed
+  function applyEvents(events: EngineEvent[]) {
+    events.forEach(event => {
+      const player = 'playerId' in event ? state.players.get(event.playerId) : undefined;
+      
+      switch (event.type) {
+        case 'rejected':
+          send(player?.ws, { type: 'error', message: event.reason });
+          break;
+        case 'recruited':
+          send(player!.ws, { type: 'recruited', player: sanitizePlayer(player!) });
+          sendTerritory(state.territories.find(t => t.id === event.territoryId)!);
+          break;
+        case 'march_changed':
+          broadcastMarch(player!);
+          break;
+        case 'arrived':
+          broadcastMoved(player!);
+          break;
+        case 'battle_started': {
+          const sides = getBattleSides(state, event.battle);
+          sendBattleUpdate(event.battle);
+          console.log(`Battle ${event.battle.id}: ${sides.attackerName} vs ${sides.defenderName}`);
+          break;
+        }
+        case 'battle_updated':
+          sendBattleUpdate(event.battle);
+          break;
+        case 'battle_ended':
+          announceBattleEnd(event);
+          break;
+        case 'party_invited': {
+          const leader = state.players.get(event.leaderId)!;
+          send(player?.ws, { type: 'party_invite', leaderId: leader.id, name: leader.name });
+          send(leader.ws, { type: 'chat_notice', text: `Invited ${player!.name} to your party` });
+          break;
+        }
+        case 'party_declined':
+          send(player?.ws, { type: 'party_declined', name: event.name });
+          break;
+        case 'party_changed': {
+          const party = state.parties.groups.find(p => p.id === event.partyId);
+          party?.memberIds.forEach(id => send(state.players.get(id)?.ws, { type: 'party_updated', party: toPartyView(state, party) }));
+          event.leftIds.forEach(id => send(state.players.get(id)?.ws, { type: 'party_updated', party: null }));
+          break;
+        }
+        case 'transferred': {
+          const target = state.players.get(event.targetId)!;
+          const handover = { from: player!.name, to: target.name, gold: event.gold, units: event.units };
+          send(player!.ws, { type: 'transferred', player: sanitizePlayer(player!), ...handover });
+          send(target.ws, { type: 'transferred', player: sanitizePlayer(target), ...handover });
+          break;
+        }
+        case 'hero_changed':
+          send(player!.ws, { type: 'hero_updated', player: sanitizePlayer(player!) });
+          break;
+        case 'hero_levelled':
+          sendToPlayer(player!, { type: 'chat_notice', text: `Your hero reached level ${event.level}; train an attribute with the points earned` });
+          break;
+        case 'quest_offers_changed':
+          broadcast({ type: 'quest_offers', offers: getQuestOffers() });
+          break;
+        case 'quest_changed':
+          sendQuestLog(player!);
+          break;
+        case 'quest_completed': {
+          const giver = state.territories.find(t => t.id === event.quest.giverId)!;
+          const { gold, reputation } = event.quest.reward;
+          send(player!.ws, {
+            type: 'chat_notice',
+            text: `Job for ${giver.name} done: ${gold} gold and ${reputation} standing with ${event.quest.faction}`,
+          });
+          sendQuestLog(player!);
+          break;
+        }
+        case 'quest_failed': {
+          const giver = state.territories.find(t => t.id === event.quest.giverId)!;
+          send(player!.ws, { type: 'chat_notice', text: `${event.reason}; ${giver.name} will remember it` });
+          sendQuestLog(player!);
+          break;
+        }
+        case 'proposal_expired':
+          announceProposal(event.proposal);
+          break;
+        case 'truce_ended':
+          broadcast({ type: 'diplomacy_changed', relation: event.relation, previous: 'truce' });
+          break;
+        case 'income_paid':
+          if (event.deserted > 0) console.log(`${event.deserted} troops deserted ${player!.name}`);
+          sendToPlayer(player!, { type: 'gold_update', gold: player!.gold, wages: event.wages, deserted: event.deserted });
+          break;
+        case 'settlements_restocked':
+          sendTerritories();
+          break;
+      }
+    });
+  }
+
+  // ============================================
+  // UTILITIES
+  // ============================================
+
+  function getPartyView(player: Player): PartyView | null {
+    const party = getParty(state, player);
+    return party ? toPartyView(state, party) : null;
+  }
+
+  function getQuestLog(player: Player) {
+    const now = Date.now();
+    return getTakenQuests(state, player.id).map(q => toQuestView(state, q, now));
+  }
+
+  function getQuestOffers() {
+    const now = Date.now();
+    return state.quests.offers.map(q => toQuestView(state, q, now));
+  }
+
+  // Rewards and penalties land in the purse, the hero and the player's standing, so all of it goes along
+  function sendQuestLog(player: Player) {
+    send(player.ws, { type: 'quests_updated', quests: getQuestLog(player), player: sanitizePlayer(player) });
+  }
+
+  // Like send, but holds replayable events for a player who may still resume
+  function sendToPlayer(player: Player, data: ServerMessage) {
+    if (player.ws?.readyState === WebSocket.OPEN) {
+      send(player.ws, data);
+      return;
+    }
+    
+    const withinGrace = player.disconnectedAt !== undefined && Date.now() - player.disconnectedAt <= RESUME_GRACE_MS;
+    if (withinGrace && isReplayable(data)) {
+      player.missedEvents = [...(player.missedEvents ?? []), data].slice(-MAX_MISSED_EVENTS);
+    }
+  }
+
+  function broadcast(data: ServerMessage, excludeId?: string) {
+    state.players.forEach((player, id) => {
+      if (id !== excludeId && player.ws) {
+        send(player.ws, data);
+      }
+    });
+  }
+
+  // ============================================
+  // INTEREST MANAGEMENT
+  // ============================================
+
+  // A party sees itself, its faction's other parties and whoever it is fighting, plus anything within
+  // scouting range of itself or of its faction's settlements. Only parties close to it, or ones it
+  // knows well, are counted exactly; the rest show up as a scout's estimate.
+  function getVisiblePlayers(viewer: Player): PublicPlayer[] {
+    const known = new Set([viewer.id]);
+    state.players.forEach(p => {
+      if (p.faction === viewer.faction) known.add(p.id);
+    });
+    const battle = viewer.battleId ? state.battles.get(viewer.battleId) : undefined;
+    if (battle) {
+      [...battle.members.attacker, ...battle.members.defender].forEach(id => known.add(id));
+    }
+    
+    const seen = new Set([
+      ...known,
+      ...spatialIndex.query(viewer.position, SCOUT_RANGE),
+      ...state.territories
+        .filter(t => t.owner === viewer.faction)
+        .flatMap(t => spatialIndex.query(t.position, getSettlementVision(t))),
+    ]);
+    
+    return Array.from(seen, id => state.players.get(id))
+      .filter((p): p is Player => !!p)
+      .map(p => {
+        const view = sanitizePlayer(p, viewer);
+        if (known.has(p.id) || distance(p.position, viewer.position) <= DETAIL_RANGE) return view;
+        return glimpsePlayer(view, getArmySize(p.army));
+      });
+  }
+
+  // Sends each client only the parties entering, changing within or leaving its view
+  function syncVisibility() {
+    spatialIndex.clear();
+    state.players.forEach(p => spatialIndex.insert(p.id, p.position));
+    
+    state.players.forEach(viewer => {
+      if (!viewer.ws) return;
+      
+      const known = knownViews.get(viewer.id) ?? new Map<string, PublicPlayer>();
+      const visible = new Map(getVisiblePlayers(viewer).map(view => [view.id, view]));
+      
+      const added: PublicPlayer[] = [];
+      const changed: PlayerChange[] = [];
+      visible.forEach((view, id) => {
+        const previous = known.get(id);
+        if (!previous) {
+          added.push(view);
+          return;
+        }
+        const change = diffPlayerView(previous, view);
+        if (change) changed.push(change);
+      });
+      const removed = Array.from(known.keys()).filter(id => !visible.has(id));
+      
+      knownViews.set(viewer.id, visible);
+      if (added.length > 0 || changed.length > 0 || removed.length > 0) {
+        send(viewer.ws, { type: 'players_delta', added, changed, removed });
+      }
+      
+      // Settlements whose garrison came into counting range, or dropped out of it, as the party moved
+      const settlements = knownTerritories.get(viewer.id);
+      state.territories.forEach(t => {
+        const previous = settlements?.get(t.id);
+        if (!previous || (previous.garrisonEstimate === undefined) === canCountGarrison(t, viewer)) return;
+        send(viewer.ws, { type: 'territory_updated', territory: viewTerritories(viewer, [t])[0] });
+      });
+    });
+  }
+  
+  // The viewer's picture of the settlements, recorded as what its client now knows
+  function viewTerritories(viewer: Player, territories: Territory[]): Territory[] {
+    const known = knownTerritories.get(viewer.id) ?? new Map<string, Territory>();
+    knownTerritories.set(viewer.id, known);
+    const views = territories.map(t => sanitizeTerritory(t, viewer));
+    views.forEach(view => known.set(view.id, view));
+    return views;
+  }
+  
+  // Sends a change to a settlement to every client, each with only what it can see of the garrison
+  function sendTerritory(territory: Territory) {
+    state.players.forEach(viewer => {
+      if (!viewer.ws) return;
+      send(viewer.ws, { type: 'territory_updated', territory: viewTerritories(viewer, [territory])[0] });
+    });
+  }
+  
+  function sendTerritories() {
+    state.players.forEach(viewer => {
+      if (!viewer.ws) return;
+      send(viewer.ws, { type: 'territories', territories: viewTerritories(viewer, state.territories) });
+    });
+  }
+
+  // Sends an update about a party only to the clients that can see it, recording what they now know.
+  // Clients that only glimpse the party are sent `glimpsed` instead, when given.
+  function sendToViewers(
+    subject: Player,
+    data: ServerMessage,
+    seen: Partial<PublicPlayer>,
+    glimpsed?: { data: ServerMessage; seen: Partial<PublicPlayer> },
+  ) {
+    knownViews.forEach((known, viewerId) => {
+      const view = known.get(subject.id);
+      if (!view) return;
+      const update = glimpsed && view.armyEstimate !== undefined ? glimpsed : { data, seen };
+      Object.assign(view, update.seen);
+      send(state.players.get(viewerId)?.ws, update.data);
+    });
+  }
+
+  // ============================================
+  // GAME LOOP
+  // ============================================
+
+  function startGameLoop() {
+    loop = setInterval(() => {
+      applyEvents(advanceWorld(state, rng));
+      
+      if (state.tick % AI_THINK_TICKS === 0) {
+        advanceNpcs();
+      }
+      
+      // Bring each client's view of the nearby parties up to date
+      if (state.tick % INTEREST_TICKS === 0) {
+        syncVisibility();
+      }
+      
+      if (state.tick % SAVE_INTERVAL_TICKS === 0) {
+        saveWorld();
+      }
+    }, TICK_MS);
+
+    console.log(`Game loop started for ${options.name}`);
+  }
+
+  function saveWorld(): Promise<void> {
+    return store.save(snapshotState(state)).catch(e => {
+      console.error(`Failed to save ${options.name}:`, e);
+    });
+  }
+  
+  return {
+    id: options.id,
+    options,
+    state,
+    getInfo,
+    join,
+    resume,
+    leave,
+    kick,
+    handleMessage,
+    
+    async start() {
+      const saved = await store.load();
+      if (saved) {
+        restoreState(state, saved);
+        console.log(`Restored ${options.name}: ${state.players.size} players, tick ${state.tick}`);
+      }
+      spawnNpcs();
+      // A fresh world, or one saved before quests, opens its job boards straight away
+      if (state.quests.offers.length === 0) postQuests(state, rng);
+      startGameLoop();
+    },
+    
+    async stop() {
+      clearInterval(loop);
+      await saveWorld();
+    },
+  };
+}
+
+export type Room = ReturnType<typeof createRoom>;
+
+// ============================================
+// UTILITIES
+// ============================================
+
+export function send(ws: WebSocket | undefined, data: ServerMessage) {
+  if (ws?.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(data));
+  }
+}
+
+function isReplayable(data: ServerMessage): data is ReplayableEvent {
+  return data.type === 'gold_update' || data.type === 'battle_result';
+}
@@ -0,0 +1,56 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// ============================================
+// SESSION TOKENS
+// ============================================
+
+// Without a configured secret, tokens only survive until the next restart: clients resuming fall
+// back to `join`, and clients joining have to log in again
+const SECRET = process.env.SESSION_SECRET || process.env.RESUME_SECRET || randomBytes(32).toString('hex');
+
+const RESUME_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+const LOGIN_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Each kind of token is signed with its purpose, so one can never be presented as the other
+type TokenPurpose = 'resume' | 'login';
+
+function sign(purpose: TokenPurpose, payload: string): string {
+  return createHmac('sha256', SECRET).update(`${purpose}:${payload}`).digest('base64url');
+}
+
+function createToken(purpose: TokenPurpose, id: string, ttlMs: number, now: number): string {
+  const payload = `${id}.${now + ttlMs}`;
+  return `${payload}.${sign(purpose, payload)}`;
+}
+
+// Returns the id the token was issued to, or null if it is forged, expired or meant for something else
+function verifyToken(purpose: TokenPurpose, token: unknown, now: number): string | null {
+  if (typeof token !== 'string') return null;
+
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  const [id, expiresAt, signature] = parts;
+  const expected = Buffer.from(sign(purpose, `${id}.${expiresAt}`));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  if (Number(expiresAt) < now) return null;
+  return id;
+}
+
+export function createResumeToken(playerId: string, now = Date.now()): string {
+  return createToken('resume', playerId, RESUME_TOKEN_TTL_MS, now);
+}
+
+export function verifyResumeToken(token: unknown, now = Date.now()): string | null {
+  return verifyToken('resume', token, now);
+}
+
+export function createLoginToken(accountId: string, now = Date.now()): string {
+  return createToken('login', accountId, LOGIN_TOKEN_TTL_MS, now);
+}
+
+export function verifyLoginToken(token: unknown, now = Date.now()): string | null {
+  return verifyToken('login', token, now);
+}
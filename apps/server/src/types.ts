@@ -0,0 +1,206 @@
+import type { WebSocket } from 'ws';
+import type {
+  BattleEvent,
+  BattleReport,
+  BattleReportSide,
+  BattleSide,
+  BattleStage,
+  BattleStageRecord,
+  BuildingType,
+  ChatEntry,
+  DiplomaticStance,
+  FactionRelation,
+  MapData,
+  Player as PlayerView,
+  Quest,
+  ServerMessageOf,
+  TerrainType,
+  Territory,
+} from '@warband/protocol';
+
+export type {
+  BattleEvent,
+  BattleReport,
+  BattleReportSide,
+  BattleResult,
+  BattleSide,
+  BattleStage,
+  BattleStageRecord,
+  BuildingType,
+  ChatChannel,
+  ChatEntry,
+  DiplomacyProposal,
+  DiplomaticStance,
+  FactionRelation,
+  Good,
+  Hero,
+  MapData,
+  March,
+  NpcKind,
+  Player as PlayerView,
+  PlayerChange,
+  Position,
+  PublicPlayer,
+  Quest,
+  QuestType,
+  ServerMessage,
+  TerrainType,
+  Territory,
+  Unit,
+  UnitType,
+} from '@warband/protocol';
+
+// ============================================
+// TYPES
+// ============================================
+
+// Events held for a disconnected player and replayed when they resume
+export type ReplayableEvent = ServerMessageOf<'gold_update' | 'battle_result'>;
+
+// What an NPC party is currently after
+export type NpcGoal =
+  | { type: 'patrol'; territoryId?: string }
+  | { type: 'chase'; targetId: string }
+  | { type: 'siege'; territoryId: string }
+  | { type: 'flee' };
+
+export interface NpcBrain {
+  goal: NpcGoal;
+  // Lords rally back at their home settlement
+  homeId?: string;
+  // Tick at which a routed party musters a fresh army
+  regroupTick?: number;
+  // Lords sit out campaigning until this tick after taking a settlement
+  restUntilTick?: number;
+}
+
+// Who this player has muted and how the rest of the server regards their chat
+export interface ChatStatus {
+  mutedIds: string[];
+  // Distinct players who reported them since their last silence
+  reporterIds: string[];
+  silencedUntil?: number;
+  // Send times inside the current rate limit window
+  recentSends: number[];
+}
+
+// Server-side player: the wire shape plus connection bookkeeping that never leaves the server
+export interface Player extends Omit<PlayerView, 'online'> {
+  ws?: WebSocket;
+  disconnectedAt?: number;
+  missedEvents?: ReplayableEvent[];
+  ai?: NpcBrain;
+  chat?: ChatStatus;
+  // Tick of the party's last change of sides, for the defection cooldown
+  defectedTick?: number;
+}
+
+// A chat line as kept in history; proximity chat and whispers remember exactly who received them
+export interface ChatRecord extends ChatEntry {
+  recipientIds?: string[];
+}
+
+export interface Battle {
+  id: string;
+  // The parties that started it; their party-mates fighting beside them are listed in `members`
+  attackerId: string;
+  defenderId: string | null;
+  // Every player fighting on each side, the one who attacked or was attacked first
+  members: Record<BattleSide, string[]>;
+  // Army power each player brought to the field, which decides their share of the loot and glory
+  strength: Record<string, number>;
+  territory?: string;
+  phase: 'preparing' | 'fighting' | 'ended';
+  startTime: number;
+  round: number;
+  stage: BattleStage;
+  nextStepTick: number;
+  attackPower: number;
+  defensePower: number;
+  terrain: TerrainType;
+  events: BattleEvent[];
+  winner?: BattleSide;
+  retreated?: BattleSide;
+  // Kept for the battle report: both sides as they came in, and every stage as it was fought
+  startTick: number;
+  opening: Record<BattleSide, Omit<BattleReportSide, 'after'>>;
+  // A besieged settlement's buildings, fixed for the length of the siege
+  fortifications?: Record<BuildingType, number>;
+  stages: BattleStageRecord[];
+}
+
+// A stance change a faction is voting on; once it passes a mutual stance waits for the other side
+export interface Proposal {
+  faction: string;
+  target: string;
+  stance: DiplomaticStance;
+  voterIds: string[];
+  offered: boolean;
+  expiresTick: number;
+}
+
+// Players banded together; the first member leads and sets the course
+export interface Party {
+  id: string;
+  memberIds: string[];
+}
+
+export interface PartyInvite {
+  leaderId: string;
+  playerId: string;
+  expiresTick: number;
+}
+
+export interface Parties {
+  groups: Party[];
+  invites: PartyInvite[];
+}
+
+// A job as the server keeps it: on offer, or taken by `playerId` and due by `deadlineTick`
+export interface QuestRecord extends Omit<Quest, 'duration' | 'expiresAt'> {
+  durationTicks: number;
+  playerId?: string;
+  deadlineTick?: number;
+}
+
+export interface Quests {
+  offers: QuestRecord[];
+  taken: QuestRecord[];
+}
+
+export interface Diplomacy {
+  relations: FactionRelation[];
+  proposals: Proposal[];
+}
+
+export interface GameState {
+  map: MapData;
+  diplomacy: Diplomacy;
+  parties: Parties;
+  quests: Quests;
+  players: Map<string, Player>;
+  territories: Territory[];
+  battles: Map<string, Battle>;
+  chat: ChatRecord[];
+  // Finished battles, oldest first, capped at BATTLE_HISTORY_LIMIT
+  reports: BattleReport[];
+  tick: number;
+}
+
+// Thresholds for the connection guard; defaults live in constants and can be overridden per deployment
+export interface GuardRules {
+  // Token bucket per connection: burst size and steady messages per second
+  bucketCapacity: number;
+  refillPerSecond: number;
+  // Tokens a message type costs; unlisted types cost 1
+  messageCosts: Partial<Record<string, number>>;
+  // Suspicious events inside this window count toward a kick
+  strikeWindowMs: number;
+  kickAfterStrikes: number;
+  // Kicks inside this window turn into a temporary ban
+  kickWindowMs: number;
+  banAfterKicks: number;
+  banMs: number;
+  // Suspicious events remembered per player for review
+  logLimit: number;
+}
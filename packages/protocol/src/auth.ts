@@ -0,0 +1,37 @@
+// ============================================
+// ACCOUNTS
+// ============================================
+
+// Usernames double as display names, so they are kept short and plain
+export const USERNAME_PATTERN = /^[A-Za-z0-9_]{3,20}$/;
+export const MIN_PASSWORD_LENGTH = 8;
+export const MAX_PASSWORD_LENGTH = 128;
+
+// Body of POST /api/register and POST /api/login
+export interface AuthRequest {
+  username: string;
+  password: string;
+}
+
+// On success `token` is what the WebSocket `join` message must present
+export type AuthResponse =
+  | { ok: true; token: string; username: string }
+  | { ok: false; error: string };
+
+// Returns why the credentials can't be used to register, or null if they can
+export function checkCredentials(request: AuthRequest): string | null {
+  if (!USERNAME_PATTERN.test(request.username)) {
+    return 'Username must be 3-20 letters, digits or underscores';
+  }
+  if (request.password.length < MIN_PASSWORD_LENGTH || request.password.length > MAX_PASSWORD_LENGTH) {
+    return `Password must be ${MIN_PASSWORD_LENGTH}-${MAX_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+export function parseAuthRequest(raw: unknown): AuthRequest | null {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const { username, password } = raw as Record<string, unknown>;
+  if (typeof username !== 'string' || typeof password !== 'string') return null;
+  return { username: username.trim(), password };
+}
@@ -0,0 +1,36 @@
+import type { Territory } from './types.js';
+
+// ============================================
+// SETTLEMENT BUILDINGS
+// ============================================
+
+export const BUILDING_TYPES = ['walls', 'barracks', 'market', 'watchtower'] as const;
+
+export type BuildingType = typeof BUILDING_TYPES[number];
+
+export const MAX_BUILDING_LEVEL = 3;
+
+// Gold to raise each building to level 1, 2 and 3
+export const BUILDING_COSTS: Record<BuildingType, readonly number[]> = {
+  walls: [800, 1600, 3200],
+  barracks: [600, 1200, 2400],
+  market: [500, 1000, 2000],
+  watchtower: [400, 800, 1600],
+};
+
+// Per level: walls blunt damage to the garrison, barracks hold more troops,
+// markets raise income and watchtowers sharpen the garrison's archers
+export const BUILDING_EFFECTS = {
+  wallsDamageReduction: 0.15,
+  barracksGarrisonBonus: 0.25,
+  marketIncomeBonus: 0.25,
+  watchtowerVolleyBonus: 0.2,
+};
+
+export function createBuildings(): Record<BuildingType, number> {
+  return { walls: 0, barracks: 0, market: 0, watchtower: 0 };
+}
+
+export function getTerritoryIncome(territory: Territory): number {
+  return Math.round(territory.income * (1 + territory.buildings.market * BUILDING_EFFECTS.marketIncomeBonus));
+}
@@ -0,0 +1,20 @@
+// ============================================
+// CHAT
+// ============================================
+
+export const CHAT_CHANNELS = ['global', 'faction', 'proximity', 'whisper'] as const;
+
+export type ChatChannel = typeof CHAT_CHANNELS[number];
+
+// One line of chat as clients see it, live or replayed from history
+export interface ChatEntry {
+  id: string;
+  channel: ChatChannel;
+  playerId: string;
+  name: string;
+  faction: string;
+  text: string;
+  time: number;
+  // Whispers only: the name of the player it was sent to
+  to?: string;
+}
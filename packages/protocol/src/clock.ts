@@ -0,0 +1,7 @@
+// ============================================
+// GAME CLOCK
+// ============================================
+
+// Every room's game loop advances one tick this often. Comparing the ticks in two `pong`s with the
+// time between them shows how far a busy server is falling behind.
+export const TICK_MS = 500;
@@ -0,0 +1,19 @@
+import type { DiplomaticStance, FactionRelation } from './types.js';
+
+// ============================================
+// DIPLOMACY
+// ============================================
+
+export function getRelation(relations: FactionRelation[], a: string, b: string): FactionRelation | undefined {
+  return relations.find(r => r.factions.includes(a) && r.factions.includes(b) && a !== b);
+}
+
+// Faction-mates never fight; anyone outside the faction table (bandits) is always at war
+export function getStance(relations: FactionRelation[], a: string, b: string): DiplomaticStance {
+  if (a === b) return 'alliance';
+  return getRelation(relations, a, b)?.stance ?? 'war';
+}
+
+export function isAtWar(relations: FactionRelation[], a: string, b: string): boolean {
+  return getStance(relations, a, b) === 'war';
+}
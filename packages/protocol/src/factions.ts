@@ -0,0 +1,45 @@
+// ============================================
+// FACTIONS
+// ============================================
+
+export const FACTIONS = ['Swadia', 'Vaegirs', 'Khergit', 'Nord', 'Rhodok', 'Sarranid'];
+
+// The banner each faction's parties march under and its settlements fly on the map
+export const FACTION_COLORS: Record<string, string> = {
+  Swadia: '#3b82f6',
+  Vaegirs: '#ef4444',
+  Khergit: '#22c55e',
+  Nord: '#f59e0b',
+  Rhodok: '#8b5cf6',
+  Sarranid: '#ec4899',
+};
+
+// Online human players per faction
+export type FactionHeadcounts = Record<string, number>;
+
+// A faction stops taking recruits and defectors once it is this many players ahead of the smallest
+export const FACTION_CAP_MARGIN = 3;
+// Extra starting gold for joining a faction with fewer players than average
+export const UNDERDOG_GOLD_BONUS = 500;
+
+// Changing sides costs gold, a share of the army walks off, and it can't be repeated for a while
+export const DEFECTION_GOLD_COST = 500;
+export const DEFECTION_DESERTION_RATIO = 0.25;
+export const DEFECTION_COOLDOWN_TICKS = 1200;
+
+export function isFactionOpen(counts: FactionHeadcounts, faction: string): boolean {
+  const smallest = Math.min(...FACTIONS.map(f => counts[f] ?? 0));
+  return (counts[faction] ?? 0) < smallest + FACTION_CAP_MARGIN;
+}
+
+export function getUnderdogBonus(counts: FactionHeadcounts, faction: string): number {
+  const average = FACTIONS.reduce((sum, f) => sum + (counts[f] ?? 0), 0) / FACTIONS.length;
+  return (counts[faction] ?? 0) < average ? UNDERDOG_GOLD_BONUS : 0;
+}
+
+// One of the least populated factions, chosen at random so ties don't all land on the first
+export function pickBalancedFaction(counts: FactionHeadcounts, random: () => number = Math.random): string {
+  const smallest = Math.min(...FACTIONS.map(f => counts[f] ?? 0));
+  const candidates = FACTIONS.filter(f => (counts[f] ?? 0) === smallest);
+  return candidates[Math.floor(random() * candidates.length)];
+}
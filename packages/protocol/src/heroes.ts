@@ -0,0 +1,171 @@
+// ============================================
+// HEROES
+// ============================================
+
+// Every player's party is led by a hero of their own, who grows with each battle fought
+
+export const HERO_ATTRIBUTES = ['leadership', 'tactics', 'trade'] as const;
+
+export type HeroAttribute = typeof HERO_ATTRIBUTES[number];
+
+// Points one attribute can be trained to; companions may lift it past this
+export const MAX_ATTRIBUTE = 10;
+
+// Experience to rise out of a level grows with the level; each level brings one attribute point
+export const HERO_XP_PER_LEVEL = 300;
+
+// What each attribute point is worth: leadership lets the hero lead more soldiers, tactics makes
+// them fight harder and trade wrings more loot from the defeated
+export const HERO_EFFECTS = {
+  baseArmyLimit: 50,
+  armyLimitPerLeadership: 10,
+  powerPerTactics: 0.03,
+  baseLootRatio: 0.3,
+  lootRatioPerTrade: 0.03,
+  maxLootRatio: 0.6,
+};
+
+// ============================================
+// EQUIPMENT
+// ============================================
+
+export const EQUIPMENT_SLOTS = ['weapon', 'armor', 'mount'] as const;
+
+export type EquipmentSlot = typeof EQUIPMENT_SLOTS[number];
+
+export const ITEM_IDS = ['sword', 'greatsword', 'gambeson', 'hauberk', 'palfrey', 'destrier'] as const;
+
+export type ItemId = typeof ITEM_IDS[number];
+
+// `power` raises the fighting strength of the hero's whole army, `speed` its marching pace
+export interface ItemInfo {
+  name: string;
+  slot: EquipmentSlot;
+  price: number;
+  power?: number;
+  speed?: number;
+}
+
+export const ITEMS: Record<ItemId, ItemInfo> = {
+  sword: { name: 'Arming Sword', slot: 'weapon', price: 400, power: 0.05 },
+  greatsword: { name: 'Greatsword', slot: 'weapon', price: 1200, power: 0.1 },
+  gambeson: { name: 'Padded Gambeson', slot: 'armor', price: 300, power: 0.03 },
+  hauberk: { name: 'Mail Hauberk', slot: 'armor', price: 1000, power: 0.07 },
+  palfrey: { name: 'Palfrey', slot: 'mount', price: 500, speed: 0.1 },
+  destrier: { name: 'Destrier', slot: 'mount', price: 1500, power: 0.03, speed: 0.2 },
+};
+
+// Items carried besides those in use
+export const INVENTORY_LIMIT = 6;
+
+// Cities buy gear back for less than they sell it
+export const ITEM_SELL_RATIO = 0.5;
+
+export function getItemSellPrice(itemId: ItemId): number {
+  return Math.floor(ITEMS[itemId].price * ITEM_SELL_RATIO);
+}
+
+// ============================================
+// COMPANIONS
+// ============================================
+
+export const COMPANION_IDS = ['borcha', 'marnid', 'rolf', 'katrin', 'firentis', 'lezalit'] as const;
+
+export type CompanionId = typeof COMPANION_IDS[number];
+
+// Named followers who lend the hero their own talent; each serves one hero in a world at a time
+export interface CompanionInfo {
+  name: string;
+  attribute: HeroAttribute;
+  bonus: number;
+  hireCost: number;
+}
+
+export const COMPANIONS: Record<CompanionId, CompanionInfo> = {
+  borcha: { name: 'Borcha', attribute: 'tactics', bonus: 1, hireCost: 300 },
+  marnid: { name: 'Marnid', attribute: 'trade', bonus: 2, hireCost: 400 },
+  rolf: { name: 'Rolf', attribute: 'leadership', bonus: 2, hireCost: 600 },
+  katrin: { name: 'Katrin', attribute: 'trade', bonus: 3, hireCost: 800 },
+  firentis: { name: 'Firentis', attribute: 'tactics', bonus: 2, hireCost: 900 },
+  lezalit: { name: 'Lezalit', attribute: 'leadership', bonus: 3, hireCost: 1200 },
+};
+
+export const COMPANION_LIMIT = 3;
+
+// ============================================
+// HERO STATE
+// ============================================
+
+export interface Hero {
+  level: number;
+  // Experience banked toward the next level
+  xp: number;
+  // Earned by levelling and not yet spent on attributes
+  points: number;
+  attributes: Record<HeroAttribute, number>;
+  equipment: Partial<Record<EquipmentSlot, ItemId>>;
+  // Items carried but not in use
+  inventory: ItemId[];
+  companions: CompanionId[];
+}
+
+export function createHero(): Hero {
+  return {
+    level: 1,
+    xp: 0,
+    points: 0,
+    attributes: { leadership: 0, tactics: 0, trade: 0 },
+    equipment: {},
+    inventory: [],
+    companions: [],
+  };
+}
+
+export function getHeroXpToLevel(level: number): number {
+  return level * HERO_XP_PER_LEVEL;
+}
+
+// The hero's own training plus whatever their companions bring
+export function getAttribute(hero: Hero, attribute: HeroAttribute): number {
+  return hero.attributes[attribute] + hero.companions
+    .map(id => COMPANIONS[id])
+    .filter(c => c.attribute === attribute)
+    .reduce((sum, c) => sum + c.bonus, 0);
+}
+
+function getEquippedItems(hero: Hero): ItemInfo[] {
+  return EQUIPMENT_SLOTS.flatMap(slot => {
+    const id = hero.equipment[slot];
+    return id ? [ITEMS[id]] : [];
+  });
+}
+
+// The rules below take an optional hero: parties without one (NPCs, garrisons) fight, march and
+// loot at the plain rates and lead as many soldiers as they like
+
+// Soldiers the hero can lead
+export function getArmyLimit(hero?: Hero): number {
+  if (!hero) return Infinity;
+  return HERO_EFFECTS.baseArmyLimit + getAttribute(hero, 'leadership') * HERO_EFFECTS.armyLimitPerLeadership;
+}
+
+// Multiplies the strength of every blow the hero's army strikes
+export function getCommandBonus(hero?: Hero): number {
+  if (!hero) return 1;
+  const gear = getEquippedItems(hero).reduce((sum, item) => sum + (item.power ?? 0), 0);
+  return 1 + getAttribute(hero, 'tactics') * HERO_EFFECTS.powerPerTactics + gear;
+}
+
+// Multiplies the army's marching pace
+export function getSpeedBonus(hero?: Hero): number {
+  if (!hero) return 1;
+  return 1 + getEquippedItems(hero).reduce((sum, item) => sum + (item.speed ?? 0), 0);
+}
+
+// Share of each defeated player's gold a victorious hero can wring out of them
+export function getLootRatio(hero?: Hero): number {
+  if (!hero) return HERO_EFFECTS.baseLootRatio;
+  const ratio = HERO_EFFECTS.baseLootRatio + getAttribute(hero, 'trade') * HERO_EFFECTS.lootRatioPerTrade;
+  // Whole percents, so a purse never comes up a coin short to rounding
+  return Math.min(HERO_EFFECTS.maxLootRatio, Math.round(ratio * 100) / 100);
+}
@@ -0,0 +1,19 @@
+export * from './types.js';
+export * from './messages.js';
+export * from './validate.js';
+export * from './map.js';
+export * from './diplomacy.js';
+export * from './units.js';
+export * from './trade.js';
+export * from './buildings.js';
+export * from './chat.js';
+export * from './vision.js';
+export * from './auth.js';
+export * from './rooms.js';
+export * from './factions.js';
+export * from './clock.js';
+export * from './reports.js';
+export * from './parties.js';
+export * from './heroes.js';
+export * from './quests.js';
+export * from './ranges.js';
@@ -0,0 +1,70 @@
+import type { Position } from './types.js';
+
+// ============================================
+// TERRAIN MAP
+// ============================================
+
+// The world is a square this many map units across
+export const MAP_SIZE = 100;
+
+export const TERRAIN_TYPES = ['plains', 'forest', 'hills', 'mountains', 'river', 'road'] as const;
+
+export type TerrainType = typeof TERRAIN_TYPES[number];
+
+// One character per tile keeps the whole map small enough to ship in `init`
+const TERRAIN_CODES: Record<TerrainType, string> = {
+  plains: 'p',
+  forest: 'f',
+  hills: 'h',
+  mountains: 'm',
+  river: 'r',
+  road: '=',
+};
+
+// How much each tile slows a march, per unit travelled; mountains can't be crossed at all
+export const TERRAIN_MOVE_COST: Record<TerrainType, number> = {
+  plains: 1,
+  road: 0.5,
+  forest: 1.6,
+  hills: 2,
+  river: 3,
+  mountains: Infinity,
+};
+
+const TERRAIN_BY_CODE = Object.fromEntries(
+  TERRAIN_TYPES.map(type => [TERRAIN_CODES[type], type]),
+) as Record<string, TerrainType>;
+
+export interface MapData {
+  seed: number;
+  // Size in tiles; each tile covers tileSize × tileSize map units
+  width: number;
+  height: number;
+  tileSize: number;
+  // Row-major terrain codes, width × height characters
+  tiles: string;
+}
+
+export function encodeTerrain(type: TerrainType): string {
+  return TERRAIN_CODES[type];
+}
+
+export function decodeTerrain(code: string): TerrainType {
+  return TERRAIN_BY_CODE[code] ?? 'plains';
+}
+
+export function tileAt(map: MapData, position: Position): { col: number; row: number } {
+  return {
+    col: Math.max(0, Math.min(map.width - 1, Math.floor(position.x / map.tileSize))),
+    row: Math.max(0, Math.min(map.height - 1, Math.floor(position.y / map.tileSize))),
+  };
+}
+
+export function terrainAtTile(map: MapData, col: number, row: number): TerrainType {
+  return decodeTerrain(map.tiles[row * map.width + col]);
+}
+
+export function terrainAt(map: MapData, position: Position): TerrainType {
+  const { col, row } = tileAt(map, position);
+  return terrainAtTile(map, col, row);
+}
@@ -0,0 +1,359 @@
+import type {
+  BattleResult,
+  BattleSide,
+  BattleView,
+  DiplomacyProposal,
+  DiplomaticStance,
+  FactionRelation,
+  March,
+  Player,
+  PlayerChange,
+  Position,
+  PublicPlayer,
+  Territory,
+  Unit,
+  UnitType,
+} from './types.js';
+import type { BuildingType } from './buildings.js';
+import type { ChatChannel, ChatEntry } from './chat.js';
+import type { CompanionId, HeroAttribute, ItemId } from './heroes.js';
+import type { MapData } from './map.js';
+import type { PartyView } from './parties.js';
+import type { Quest } from './quests.js';
+import type { BattleReport, BattleReportSummary } from './reports.js';
+import type { RoomInfo } from './rooms.js';
+import type { Good } from './trade.js';
+
+// ============================================
+// PROTOCOL VERSION
+// ============================================
+
+// Bump when a message changes shape; the server accepts any version in [MIN_PROTOCOL_VERSION, PROTOCOL_VERSION]
+export const PROTOCOL_VERSION = 5;
+export const MIN_PROTOCOL_VERSION = 3;
+
+// ============================================
+// CLIENT → SERVER
+// ============================================
+
+// `token` comes from logging in over HTTP; the party's name is the account's username.
+// Without `roomId` the party joins the public world. `faction` only applies to a new party;
+// without it the server picks the least populated faction.
+export interface JoinMessage {
+  type: 'join';
+  protocolVersion: number;
+  token: string;
+  roomId?: string;
+  faction?: string;
+}
+
+// Enters the lobby (leaving the current room, if any) and subscribes to the room list
+export interface LobbyMessage {
+  type: 'lobby';
+  protocolVersion: number;
+  token: string;
+}
+
+// Only accepted from the lobby; the creator still has to `join` the new room
+export interface CreateRoomMessage {
+  type: 'create_room';
+  name: string;
+  isPrivate: boolean;
+}
+
+export interface ResumeMessage {
+  type: 'resume';
+  protocolVersion: number;
+  token: string;
+}
+
+// Orders the party to march to (x, y); the server moves it there over the following ticks
+export interface MoveMessage {
+  type: 'move';
+  x: number;
+  y: number;
+}
+
+export interface RecruitMessage {
+  type: 'recruit';
+  unitType: UnitType;
+  count: number;
+}
+
+// Pays to promote soldiers who have earned enough experience to the next rank
+export interface UpgradeMessage {
+  type: 'upgrade';
+  unitType: UnitType;
+  level: number;
+  count: number;
+}
+
+// Buys from or sells to the market of the settlement the party is standing at
+export interface TradeMessage {
+  type: 'trade';
+  good: Good;
+  count: number;
+  action: 'buy' | 'sell';
+}
+
+// Pays to raise one of a friendly settlement's buildings by a level
+export interface BuildMessage {
+  type: 'build';
+  territoryId: string;
+  building: BuildingType;
+}
+
+// Leaves soldiers from the party in a friendly settlement's garrison, or takes them back
+export interface GarrisonMessage {
+  type: 'garrison';
+  territoryId: string;
+  unitType: UnitType;
+  level: number;
+  count: number;
+  action: 'station' | 'withdraw';
+}
+
+// Switches the party to another faction, paying the defection costs
+export interface DefectMessage {
+  type: 'defect';
+  faction: string;
+}
+
+export type AttackMessage =
+  | { type: 'attack'; targetId: string; territoryId?: undefined }
+  | { type: 'attack'; territoryId: string; targetId?: undefined };
+
+export interface RetreatMessage {
+  type: 'retreat';
+}
+
+// Casts this player's vote for their faction to change its stance toward `target`
+export interface DiplomacyMessage {
+  type: 'diplomacy';
+  target: string;
+  stance: DiplomaticStance;
+}
+
+// Whispers need `to`, the recipient's name; other channels ignore it
+export interface ChatMessage {
+  type: 'chat';
+  text: string;
+  channel: ChatChannel;
+  to?: string;
+}
+
+// Hides (or stops hiding) another player's chat from this player
+export interface ChatMuteMessage {
+  type: 'chat_mute';
+  name: string;
+  muted: boolean;
+}
+
+// Flags another player's chat for moderators; enough reports silence them for a while
+export interface ChatReportMessage {
+  type: 'chat_report';
+  name: string;
+  reason?: string;
+}
+
+// Invites a faction-mate standing close by into this player's party, founding one if need be
+export interface PartyInviteMessage {
+  type: 'party_invite';
+  targetId: string;
+}
+
+// Takes up or turns down an invitation from the leader with that id
+export interface PartyAnswerMessage {
+  type: 'party_answer';
+  leaderId: string;
+  accept: boolean;
+}
+
+export interface PartyLeaveMessage {
+  type: 'party_leave';
+}
+
+// Hands gold, or soldiers from one stack, to a faction-mate standing close by
+export type TransferMessage =
+  | { type: 'transfer'; targetId: string; gold: number; unitType?: undefined }
+  | { type: 'transfer'; targetId: string; unitType: UnitType; level: number; count: number; gold?: undefined };
+
+// Buys a weapon, armor or mount at the city the party is standing at, or sells one from the inventory
+export interface ItemTradeMessage {
+  type: 'item_trade';
+  itemId: ItemId;
+  action: 'buy' | 'sell';
+}
+
+// Puts an item from the inventory to use, stowing whatever filled its slot before
+export interface EquipItemMessage {
+  type: 'equip_item';
+  itemId: ItemId;
+}
+
+// Hires a companion waiting in the tavern of the city the party is at, or sends one away
+export interface CompanionMessage {
+  type: 'companion';
+  companionId: CompanionId;
+  action: 'hire' | 'dismiss';
+}
+
+// Spends one of the hero's unspent points on an attribute
+export interface TrainAttributeMessage {
+  type: 'train_attribute';
+  attribute: HeroAttribute;
+}
+
+// Takes a job posted at the settlement the party is standing at
+export interface QuestAcceptMessage {
+  type: 'quest_accept';
+  questId: string;
+}
+
+// Gives up a job in hand, at a cost to reputation
+export interface QuestAbandonMessage {
+  type: 'quest_abandon';
+  questId: string;
+}
+
+// Asks for a page of recent battles this player may read: their own and any their faction fought in.
+// `mine` narrows it to their own; `before` pages back past the report with that id.
+export interface BattleHistoryMessage {
+  type: 'battle_history';
+  mine?: boolean;
+  before?: string;
+}
+
+// Asks for one battle's full record, stage by stage, to replay it
+export interface BattleReplayMessage {
+  type: 'battle_replay';
+  battleId: string;
+}
+
+// Answered straight away with a `pong` carrying the same `id`, for measuring round trips
+export interface PingMessage {
+  type: 'ping';
+  id: number;
+}
+
+export type ClientMessage =
+  | JoinMessage
+  | ResumeMessage
+  | LobbyMessage
+  | CreateRoomMessage
+  | MoveMessage
+  | RecruitMessage
+  | UpgradeMessage
+  | TradeMessage
+  | BuildMessage
+  | GarrisonMessage
+  | DefectMessage
+  | AttackMessage
+  | RetreatMessage
+  | DiplomacyMessage
+  | PartyInviteMessage
+  | PartyAnswerMessage
+  | PartyLeaveMessage
+  | TransferMessage
+  | ItemTradeMessage
+  | EquipItemMessage
+  | CompanionMessage
+  | TrainAttributeMessage
+  | QuestAcceptMessage
+  | QuestAbandonMessage
+  | ChatMessage
+  | ChatMuteMessage
+  | ChatReportMessage
+  | BattleHistoryMessage
+  | BattleReplayMessage
+  | PingMessage;
+
+// ============================================
+// SERVER → CLIENT
+// ============================================
+
+export type ServerMessage =
+  | {
+      type: 'init';
+      protocolVersion: number;
+      playerId: string;
+      resumeToken: string;
+      resumed: boolean;
+      room: RoomInfo;
+      player: Player;
+      // Only the parties this player can currently see
+      players: PublicPlayer[];
+      territories: Territory[];
+      map: MapData;
+      relations: FactionRelation[];
+      proposals: DiplomacyProposal[];
+      // Recent lines from every channel this player can read
+      chat: ChatEntry[];
+      party: PartyView | null;
+      // Jobs this player has taken, and every job the settlements have on offer
+      quests: Quest[];
+      questOffers: Quest[];
+    }
+  | { type: 'resume_failed' }
+  // Public rooms, sent on entering the lobby and again whenever they change
+  | { type: 'rooms'; rooms: RoomInfo[] }
+  | { type: 'room_created'; room: RoomInfo }
+  | { type: 'error'; message: string; code?: 'invalid_message' | 'protocol_mismatch' | 'rate_limited' | 'banned' | 'unauthorized' }
+  // `tick` is the room's game loop tick and `time` the server's clock when it answered
+  | { type: 'pong'; id: number; tick: number; time: number }
+  | { type: 'player_left'; playerId: string }
+  | { type: 'player_moved'; playerId: string; position: Position }
+  | { type: 'player_march'; playerId: string; position: Position; march: March | null }
+  // Parties that came into view, changed or dropped out of view since the last update
+  | { type: 'players_delta'; added: PublicPlayer[]; changed: PlayerChange[]; removed: string[] }
+  | { type: 'recruited'; player: Player }
+  | { type: 'upgraded'; player: Player }
+  | { type: 'traded'; player: Player }
+  | { type: 'built'; player: Player }
+  | { type: 'garrisoned'; player: Player }
+  // Our hero's gear, companions or attributes changed
+  | { type: 'hero_updated'; player: Player }
+  // Our jobs changed: taken, advanced, done or failed; `player` carries any reward or penalty
+  | { type: 'quests_updated'; quests: Quest[]; player: Player }
+  // The settlements' job boards changed: jobs were posted afresh or taken
+  | { type: 'quest_offers'; offers: Quest[] }
+  // Our own defection went through; `proposals` are the new faction's open votes
+  | { type: 'defected'; player: Player; proposals: DiplomacyProposal[] }
+  // Someone else changed sides
+  | { type: 'player_defected'; playerId: string; name: string; from: string; to: string }
+  // Sent every income tick; `wages` is what the army was paid, `deserted` who left unpaid
+  | { type: 'gold_update'; gold: number; wages?: number; deserted?: number; replayed?: boolean }
+  | ({ type: 'chat' } & ChatEntry)
+  // Replies to chat commands, shown only in the sender's chat log
+  | { type: 'chat_notice'; text: string }
+  | { type: 'territories'; territories: Territory[] }
+  | { type: 'territory_updated'; territory: Territory }
+  | {
+      type: 'territory_captured';
+      territoryId: string;
+      territoryName: string;
+      owner: string;
+      previousOwner: string | null;
+      by: string;
+    }
+  | { type: 'battle_update'; battle: BattleView; role: BattleSide }
+  | ({ type: 'battle_result'; role: BattleSide; replayed?: boolean } & BattleResult)
+  | { type: 'battle_occurred'; attacker: string; defender: string; winner: string }
+  // Newest first; `more` says an older page is waiting
+  | { type: 'battle_history'; reports: BattleReportSummary[]; more: boolean }
+  | { type: 'battle_replay'; report: BattleReport }
+  // An invitation from the party led by `leaderId`; `name` is the leader's
+  | { type: 'party_invite'; leaderId: string; name: string }
+  | { type: 'party_declined'; name: string }
+  // Our party as it now stands, or null once we are no longer in one
+  | { type: 'party_updated'; party: PartyView | null }
+  // Gold or soldiers changed hands between `from` and `to`; `player` is the receiving client's own party
+  | { type: 'transferred'; player: Player; from: string; to: string; gold: number; units: Unit[] }
+  | { type: 'diplomacy_changed'; relation: FactionRelation; previous: DiplomaticStance }
+  | { type: 'diplomacy_proposal'; proposal: DiplomacyProposal };
+
+export type ServerMessageType = ServerMessage['type'];
+
+export type ServerMessageOf<T extends ServerMessageType> = Extract<ServerMessage, { type: T }>;
+
+export type ClientMessageOf<T extends ClientMessage['type']> = Extract<ClientMessage, { type: T }>;
@@ -0,0 +1,22 @@
+// ============================================
+// PARTIES
+// ============================================
+
+// Players who band together march as one column and fight every battle as one side
+
+export const PARTY_MAX_SIZE = 4;
+
+// How close two players must stand to invite, join, or hand each other troops and gold
+export const PARTY_RANGE = 5;
+
+export interface PartyMember {
+  id: string;
+  name: string;
+}
+
+// Members in order of seniority; the leader comes first and sets the course
+export interface PartyView {
+  id: string;
+  leaderId: string;
+  members: PartyMember[];
+}
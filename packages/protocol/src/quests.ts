@@ -0,0 +1,48 @@
+// ============================================
+// QUESTS
+// ============================================
+
+// Settlements post jobs for passing parties. Each is taken by one player, who has until its
+// deadline to finish it; the faction holding the settlement pays in gold and goodwill.
+
+export const QUEST_TYPES = ['escort', 'bandits', 'deliver', 'scout'] as const;
+
+export type QuestType = typeof QUEST_TYPES[number];
+
+// Jobs a player can have on the go at once
+export const QUEST_LIMIT = 3;
+
+// How far from the settlement that posted it a bandit party must be routed to count
+export const QUEST_BANDIT_RANGE = 20;
+
+// Failing or abandoning a job costs this share of the reputation it would have earned
+export const QUEST_FAIL_REPUTATION_RATIO = 0.5;
+
+export interface QuestReward {
+  gold: number;
+  // Experience for the hero
+  xp: number;
+  reputation: number;
+}
+
+export interface Quest {
+  id: string;
+  type: QuestType;
+  // The settlement that posted it, and the faction holding it then, whose reputation it earns
+  giverId: string;
+  faction: string;
+  // Where the job is done: the settlement a caravan or purse is bound for, the enemy stronghold
+  // to scout, or for bandits the settlement they prey on
+  targetId: string;
+  // Bandit parties routed so far; the other jobs are done in one go
+  progress: number;
+  goal: number;
+  // The purse to deliver, held in trust apart from the player's own gold: it can't be spent on
+  // the way, and is lost with any battle lost before it arrives
+  gold?: number;
+  reward: QuestReward;
+  // Seconds allowed to finish once taken
+  duration: number;
+  // When a taken quest lapses, by the server's clock
+  expiresAt?: number;
+}
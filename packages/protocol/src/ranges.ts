@@ -0,0 +1,9 @@
+// ============================================
+// RANGES
+// ============================================
+
+// How close a party must be to attack another party or besiege a settlement
+export const ATTACK_RANGE = 5;
+
+// How close a party must be to a settlement to hire troops, trade or take on work there
+export const SETTLEMENT_RANGE = 5;
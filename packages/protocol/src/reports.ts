@@ -0,0 +1,92 @@
+import type { BuildingType } from './buildings.js';
+import type { TerrainType } from './map.js';
+import type { BattleSide, BattleStage, Unit } from './types.js';
+
+// ============================================
+// BATTLE REPORTS
+// ============================================
+
+// Reports sent per `battle_history` page
+export const BATTLE_HISTORY_PAGE = 20;
+
+// One stage as it was fought: who fell on each side, and the dice that decided it
+export interface BattleStageRecord {
+  round: number;
+  stage: BattleStage;
+  attackerLosses: Unit[];
+  defenderLosses: Unit[];
+  // Every random draw the stage made, in order; fed back in, they fight the stage again exactly
+  rolls: number[];
+}
+
+export interface BattleReportSide {
+  // The player who led the side in; null for a settlement's garrison
+  id: string | null;
+  // Every player who fought on the side; missing from reports filed before parties, whose sides
+  // were only ever `id`
+  memberIds?: string[];
+  name: string;
+  faction: string | null;
+  power: number;
+  // How much harder the side struck for its commander's tactics and gear; missing from reports
+  // filed before heroes, whose sides all struck at 1
+  command?: number;
+  // The army as it marched in and what was left standing at the end, retreat losses included
+  before: Unit[];
+  after: Unit[];
+}
+
+export interface BattleReport {
+  id: string;
+  startedAt: number;
+  endedAt: number;
+  terrain: TerrainType;
+  territoryId?: string;
+  // The besieged settlement's buildings, which shape every stage of a siege
+  fortifications?: Record<BuildingType, number>;
+  attacker: BattleReportSide;
+  defender: BattleReportSide;
+  winner: BattleSide;
+  retreated: BattleSide | null;
+  rounds: number;
+  loot: number;
+  captured: boolean;
+  stages: BattleStageRecord[];
+}
+
+// Whether the player fought on the side, whether or not they led it
+export function foughtOnSide(side: BattleReportSide, playerId: string): boolean {
+  return side.memberIds?.includes(playerId) ?? side.id === playerId;
+}
+
+// What the history lists; the stages come with `battle_replay`
+export type BattleReportSummary = Omit<BattleReport, 'stages'>;
+
+export function summarizeReport({ stages, ...summary }: BattleReport): BattleReportSummary {
+  return summary;
+}
+
+// Soldiers lost from each stack between two musters of the same army, biggest losses first
+export function getCasualties(before: Unit[], after: Unit[]): Unit[] {
+  return before
+    .map(unit => {
+      const left = after
+        .filter(u => u.type === unit.type && u.level === unit.level)
+        .reduce((sum, u) => sum + u.count, 0);
+      return { type: unit.type, level: unit.level, count: Math.max(0, unit.count - left) };
+    })
+    .filter(u => u.count > 0)
+    .sort((a, b) => b.count - a.count);
+}
+
+// Takes the losses off a copy of the army, stack by stack, for stepping through a replay
+export function subtractUnits(army: Unit[], losses: Unit[]): Unit[] {
+  return army
+    .map(unit => {
+      const lost = losses
+        .filter(u => u.type === unit.type && u.level === unit.level)
+        .reduce((sum, u) => sum + u.count, 0);
+      return { ...unit, count: unit.count - lost };
+    })
+    .filter(u => u.count > 0);
+}
@@ -0,0 +1,24 @@
+import type { FactionHeadcounts } from './factions.js';
+
+// ============================================
+// ROOMS
+// ============================================
+
+// The public world every server hosts; `join` without a room goes here
+export const DEFAULT_ROOM_ID = 'main';
+export const MAX_ROOM_NAME_LENGTH = 30;
+
+// One entry in the lobby's room browser. Private rooms are never listed; their id doubles as the
+// invite code players share to join them.
+export interface RoomInfo {
+  id: string;
+  name: string;
+  isPrivate: boolean;
+  // Human players currently connected, out of the room's cap
+  players: number;
+  maxPlayers: number;
+  // Who is playing for each faction right now, for picking a side before joining
+  factions: FactionHeadcounts;
+  // Username of whoever created the room; absent for the public world
+  owner?: string;
+}
@@ -0,0 +1,31 @@
+// ============================================
+// TRADE GOODS
+// ============================================
+
+export const GOODS = ['grain', 'timber', 'iron', 'wine', 'furs', 'spices'] as const;
+
+export type Good = typeof GOODS[number];
+
+export const GOOD_BASE_PRICES: Record<Good, number> = {
+  grain: 10,
+  timber: 15,
+  iron: 30,
+  wine: 25,
+  furs: 40,
+  spices: 60,
+};
+
+// Stock at which a market sells at the base price; scarcer goods cost more, gluts less
+export const MARKET_EQUILIBRIUM = 60;
+
+// Merchants buy back for less than they sell, so flipping goods in one town never pays
+export const SELL_PRICE_RATIO = 0.8;
+
+export function getBuyPrice(good: Good, stock: number): number {
+  const scarcity = Math.min(3, Math.max(0.3, MARKET_EQUILIBRIUM / Math.max(stock, 1)));
+  return Math.max(1, Math.round(GOOD_BASE_PRICES[good] * scarcity));
+}
+
+export function getSellPrice(good: Good, stock: number): number {
+  return Math.max(1, Math.floor(getBuyPrice(good, stock) * SELL_PRICE_RATIO));
+}
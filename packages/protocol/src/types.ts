@@ -0,0 +1,160 @@
+import type { BuildingType } from './buildings.js';
+import type { Hero } from './heroes.js';
+import type { TerrainType } from './map.js';
+import type { Good } from './trade.js';
+
+// ============================================
+// SHARED TYPES
+// ============================================
+
+export interface Position {
+  x: number;
+  y: number;
+}
+
+export const UNIT_TYPES = ['infantry', 'archer', 'cavalry'] as const;
+
+export type UnitType = typeof UNIT_TYPES[number];
+
+// One stack of soldiers sharing a type and rank; a party can hold several stacks of one type
+export interface Unit {
+  type: UnitType;
+  count: number;
+  level: number;
+  // Experience banked toward promoting soldiers in this stack
+  xp?: number;
+}
+
+// A standing movement order; the server walks the party along `path` each tick
+export interface March {
+  destination: Position;
+  // Remaining waypoints, ending at the destination
+  path: Position[];
+  // Map units per second before terrain modifiers
+  speed: number;
+}
+
+// Server-controlled parties; absent for human players
+export type NpcKind = 'lord' | 'bandit';
+
+// A player as their own client sees it on the wire
+export interface Player {
+  id: string;
+  name: string;
+  faction: string;
+  position: Position;
+  gold: number;
+  army: Unit[];
+  color: string;
+  battleId?: string;
+  march?: March;
+  online: boolean;
+  npc?: NpcKind;
+  // Trade goods carried by the party
+  cargo?: Partial<Record<Good, number>>;
+  // The band of players this party marches and fights with, if any
+  partyId?: string;
+  // The character leading the party; NPC parties have none
+  hero?: Hero;
+  // Standing with each faction, earned doing work for its settlements
+  reputation?: Record<string, number>;
+  // Set, with `army` left empty, when the party is only glimpsed from afar
+  armyEstimate?: number;
+}
+
+// What other clients are told about a party: no purse, no baggage and nothing of its hero or standing
+export type PublicPlayer = Omit<Player, 'gold' | 'cargo' | 'hero' | 'reputation'>;
+
+// The fields of a party that changed since the viewer's last update; null clears an optional field
+export type PlayerChange = { id: string } & { [K in keyof Player]?: Player[K] | null };
+
+export interface Territory {
+  id: string;
+  name: string;
+  position: Position;
+  owner: string | null;
+  type: 'village' | 'castle' | 'city';
+  income: number;
+  garrison: Unit[];
+  // Volunteers waiting to be hired here, refilled every income tick
+  recruits: Record<UnitType, number>;
+  produces: Good;
+  // Market stock per good; prices follow from it
+  market: Record<Good, number>;
+  // Level of each building the owners have paid for
+  buildings: Record<BuildingType, number>;
+  // Set, with `garrison` left empty, when the defences are only glimpsed from afar
+  garrisonEstimate?: number;
+}
+
+export type BattleSide = 'attacker' | 'defender';
+
+// Each round plays out as an archer volley, a cavalry charge, then infantry melee
+export type BattleStage = 'volley' | 'charge' | 'melee';
+
+export type BattlePhase = 'preparing' | 'fighting' | 'ended';
+
+export interface BattleEvent {
+  round: number;
+  stage: BattleStage;
+  side: BattleSide;
+  kills: number;
+}
+
+export interface BattleParticipant {
+  id: string | null;
+  name: string;
+  army: Unit[];
+}
+
+export interface BattleView {
+  id: string;
+  phase: BattlePhase;
+  round: number;
+  maxRounds: number;
+  stage: BattleStage;
+  terrain: TerrainType;
+  territoryId?: string;
+  attacker: BattleParticipant;
+  defender: BattleParticipant;
+  events: BattleEvent[];
+  winner?: BattleSide;
+  retreated?: BattleSide;
+}
+
+export interface BattleResult {
+  battleId: string;
+  winner: string;
+  loser: string;
+  attackPower: number;
+  defensePower: number;
+  rounds: number;
+  retreated: BattleSide | null;
+  territoryId?: string;
+  loot: number;
+}
+
+// Relations between two factions, from open war to a standing alliance
+export const DIPLOMATIC_STANCES = ['war', 'truce', 'peace', 'alliance'] as const;
+
+export type DiplomaticStance = typeof DIPLOMATIC_STANCES[number];
+
+export interface FactionRelation {
+  factions: [string, string];
+  stance: DiplomaticStance;
+  // Tick the current stance took effect
+  since: number;
+  // A truce binds both sides until this tick, then settles into peace
+  truceEndsTick?: number;
+}
+
+// A change of stance that a faction's members are voting on or have offered the other side
+export interface DiplomacyProposal {
+  faction: string;
+  target: string;
+  stance: DiplomaticStance;
+  votes: number;
+  needed: number;
+  // 'offered' once the proposing faction passed it and the target still has to agree
+  status: 'voting' | 'offered' | 'expired';
+}
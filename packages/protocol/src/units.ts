@@ -0,0 +1,53 @@
+import type { Unit, UnitType } from './types.js';
+
+// ============================================
+// UNIT PROGRESSION
+// ============================================
+
+export const MAX_UNIT_LEVEL = 3;
+
+// Rank names by level, e.g. militia are level 1 infantry
+export const UNIT_RANKS: Record<UnitType, readonly string[]> = {
+  infantry: ['Militia', 'Infantry', 'Sergeant'],
+  archer: ['Hunter', 'Archer', 'Marksman'],
+  cavalry: ['Horseman', 'Cavalry', 'Knight'],
+};
+
+// Experience each soldier needs to promote out of a level (index 0 = level 1)
+export const PROMOTION_XP = [20, 50];
+
+// Gold per soldier to promote out of a level
+export const UPGRADE_COST: Record<UnitType, readonly number[]> = {
+  infantry: [40, 90],
+  archer: [60, 120],
+  cavalry: [100, 200],
+};
+
+// Gold per soldier to recruit
+export const UNIT_COSTS: Record<UnitType, number> = {
+  infantry: 50,
+  archer: 75,
+  cavalry: 150,
+};
+
+// Gold paid per soldier per level every income tick
+export const UNIT_WAGES: Record<UnitType, number> = {
+  infantry: 1,
+  archer: 2,
+  cavalry: 4,
+};
+
+export function getWages(army: Unit[]): number {
+  return army.reduce((total, u) => total + UNIT_WAGES[u.type] * u.level * u.count, 0);
+}
+
+export function getRankName(unit: Pick<Unit, 'type' | 'level'>): string {
+  const ranks = UNIT_RANKS[unit.type];
+  return ranks[Math.min(unit.level, ranks.length) - 1];
+}
+
+// How many soldiers in the stack have earned a promotion
+export function getPromotableCount(unit: Unit): number {
+  if (unit.level >= MAX_UNIT_LEVEL) return 0;
+  return Math.min(unit.count, Math.floor((unit.xp ?? 0) / PROMOTION_XP[unit.level - 1]));
+}
@@ -0,0 +1,363 @@
+import type { ClientMessage } from './messages.js';
+import { DIPLOMATIC_STANCES, UNIT_TYPES } from './types.js';
+import { BUILDING_TYPES } from './buildings.js';
+import { CHAT_CHANNELS } from './chat.js';
+import { FACTIONS } from './factions.js';
+import { COMPANION_IDS, HERO_ATTRIBUTES, ITEM_IDS } from './heroes.js';
+import { GOODS } from './trade.js';
+import { MAX_ROOM_NAME_LENGTH } from './rooms.js';
+import { MAX_UNIT_LEVEL } from './units.js';
+
+// ============================================
+// RUNTIME VALIDATION
+// ============================================
+
+export const MAX_NAME_LENGTH = 20;
+export const MAX_CHAT_LENGTH = 200;
+export const MAX_RECRUIT_COUNT = 1000;
+export const MAX_TRADE_COUNT = 1000;
+export const MAX_TRANSFER_GOLD = 1_000_000;
+// Far beyond any map edge; anything larger is not a click on the map
+export const MAX_COORDINATE = 10_000;
+
+export type ParseResult =
+  | { ok: true; message: ClientMessage }
+  | { ok: false; error: string };
+
+type Fields = Record<string, unknown>;
+
+function isRecord(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isNonEmptyString(value: unknown, maxLength = Infinity): value is string {
+  return typeof value === 'string' && value.length > 0 && value.length <= maxLength;
+}
+
+function fail(error: string): ParseResult {
+  return { ok: false, error };
+}
+
+// Each validator returns the cleaned message, or an error describing the first bad field
+const validators: Record<ClientMessage['type'], (raw: Fields) => ParseResult> = {
+  join(raw) {
+    if (!Number.isInteger(raw.protocolVersion)) return fail('join.protocolVersion must be an integer');
+    if (!isNonEmptyString(raw.token, 512)) return fail('join.token must be a string');
+    if (raw.roomId !== undefined && !isNonEmptyString(raw.roomId, 64)) return fail('join.roomId must be a room id');
+    if (raw.faction !== undefined && !FACTIONS.includes(raw.faction as string)) {
+      return fail(`join.faction must be one of ${FACTIONS.join(', ')}`);
+    }
+    return {
+      ok: true,
+      message: {
+        type: 'join',
+        protocolVersion: raw.protocolVersion as number,
+        token: raw.token,
+        ...(raw.roomId !== undefined ? { roomId: raw.roomId as string } : {}),
+        ...(raw.faction !== undefined ? { faction: raw.faction as string } : {}),
+      },
+    };
+  },
+
+  resume(raw) {
+    if (!Number.isInteger(raw.protocolVersion)) return fail('resume.protocolVersion must be an integer');
+    if (!isNonEmptyString(raw.token, 512)) return fail('resume.token must be a string');
+    return { ok: true, message: { type: 'resume', protocolVersion: raw.protocolVersion as number, token: raw.token } };
+  },
+
+  lobby(raw) {
+    if (!Number.isInteger(raw.protocolVersion)) return fail('lobby.protocolVersion must be an integer');
+    if (!isNonEmptyString(raw.token, 512)) return fail('lobby.token must be a string');
+    return { ok: true, message: { type: 'lobby', protocolVersion: raw.protocolVersion as number, token: raw.token } };
+  },
+
+  create_room(raw) {
+    const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+    if (!name || name.length > MAX_ROOM_NAME_LENGTH) {
+      return fail(`create_room.name must be 1-${MAX_ROOM_NAME_LENGTH} characters`);
+    }
+    if (typeof raw.isPrivate !== 'boolean') return fail('create_room.isPrivate must be a boolean');
+    return { ok: true, message: { type: 'create_room', name, isPrivate: raw.isPrivate } };
+  },
+
+  move(raw) {
+    if (!isFiniteNumber(raw.x) || !isFiniteNumber(raw.y)) return fail('move.x and move.y must be finite numbers');
+    if (Math.abs(raw.x) > MAX_COORDINATE || Math.abs(raw.y) > MAX_COORDINATE) {
+      return fail(`move.x and move.y must be within ±${MAX_COORDINATE}`);
+    }
+    return { ok: true, message: { type: 'move', x: raw.x, y: raw.y } };
+  },
+
+  recruit(raw) {
+    if (!UNIT_TYPES.includes(raw.unitType as typeof UNIT_TYPES[number])) {
+      return fail(`recruit.unitType must be one of ${UNIT_TYPES.join(', ')}`);
+    }
+    const count = raw.count;
+    if (!Number.isInteger(count) || (count as number) < 1 || (count as number) > MAX_RECRUIT_COUNT) {
+      return fail(`recruit.count must be an integer from 1 to ${MAX_RECRUIT_COUNT}`);
+    }
+    return {
+      ok: true,
+      message: { type: 'recruit', unitType: raw.unitType as typeof UNIT_TYPES[number], count: count as number },
+    };
+  },
+
+  upgrade(raw) {
+    if (!UNIT_TYPES.includes(raw.unitType as typeof UNIT_TYPES[number])) {
+      return fail(`upgrade.unitType must be one of ${UNIT_TYPES.join(', ')}`);
+    }
+    const level = raw.level;
+    if (!Number.isInteger(level) || (level as number) < 1 || (level as number) >= MAX_UNIT_LEVEL) {
+      return fail(`upgrade.level must be an integer from 1 to ${MAX_UNIT_LEVEL - 1}`);
+    }
+    const count = raw.count;
+    if (!Number.isInteger(count) || (count as number) < 1 || (count as number) > MAX_RECRUIT_COUNT) {
+      return fail(`upgrade.count must be an integer from 1 to ${MAX_RECRUIT_COUNT}`);
+    }
+    return {
+      ok: true,
+      message: {
+        type: 'upgrade',
+        unitType: raw.unitType as typeof UNIT_TYPES[number],
+        level: level as number,
+        count: count as number,
+      },
+    };
+  },
+
+  trade(raw) {
+    if (!GOODS.includes(raw.good as typeof GOODS[number])) return fail(`trade.good must be one of ${GOODS.join(', ')}`);
+    if (raw.action !== 'buy' && raw.action !== 'sell') return fail('trade.action must be buy or sell');
+    const count = raw.count;
+    if (!Number.isInteger(count) || (count as number) < 1 || (count as number) > MAX_TRADE_COUNT) {
+      return fail(`trade.count must be an integer from 1 to ${MAX_TRADE_COUNT}`);
+    }
+    return {
+      ok: true,
+      message: { type: 'trade', good: raw.good as typeof GOODS[number], count: count as number, action: raw.action },
+    };
+  },
+
+  build(raw) {
+    if (!isNonEmptyString(raw.territoryId, 64)) return fail('build.territoryId must be a string');
+    if (!BUILDING_TYPES.includes(raw.building as typeof BUILDING_TYPES[number])) {
+      return fail(`build.building must be one of ${BUILDING_TYPES.join(', ')}`);
+    }
+    return {
+      ok: true,
+      message: { type: 'build', territoryId: raw.territoryId, building: raw.building as typeof BUILDING_TYPES[number] },
+    };
+  },
+
+  garrison(raw) {
+    if (!isNonEmptyString(raw.territoryId, 64)) return fail('garrison.territoryId must be a string');
+    if (!UNIT_TYPES.includes(raw.unitType as typeof UNIT_TYPES[number])) {
+      return fail(`garrison.unitType must be one of ${UNIT_TYPES.join(', ')}`);
+    }
+    if (!Number.isInteger(raw.level) || (raw.level as number) < 1 || (raw.level as number) > MAX_UNIT_LEVEL) {
+      return fail(`garrison.level must be an integer from 1 to ${MAX_UNIT_LEVEL}`);
+    }
+    const count = raw.count;
+    if (!Number.isInteger(count) || (count as number) < 1 || (count as number) > MAX_RECRUIT_COUNT) {
+      return fail(`garrison.count must be an integer from 1 to ${MAX_RECRUIT_COUNT}`);
+    }
+    if (raw.action !== 'station' && raw.action !== 'withdraw') return fail('garrison.action must be station or withdraw');
+    return {
+      ok: true,
+      message: {
+        type: 'garrison',
+        territoryId: raw.territoryId,
+        unitType: raw.unitType as typeof UNIT_TYPES[number],
+        level: raw.level as number,
+        count: count as number,
+        action: raw.action,
+      },
+    };
+  },
+
+  defect(raw) {
+    if (!FACTIONS.includes(raw.faction as string)) return fail(`defect.faction must be one of ${FACTIONS.join(', ')}`);
+    return { ok: true, message: { type: 'defect', faction: raw.faction as string } };
+  },
+
+  attack(raw) {
+    const hasTarget = isNonEmptyString(raw.targetId, 64);
+    const hasTerritory = isNonEmptyString(raw.territoryId, 64);
+    if (hasTarget === hasTerritory) return fail('attack needs exactly one of targetId or territoryId');
+    return {
+      ok: true,
+      message: hasTarget
+        ? { type: 'attack', targetId: raw.targetId as string }
+        : { type: 'attack', territoryId: raw.territoryId as string },
+    };
+  },
+
+  retreat() {
+    return { ok: true, message: { type: 'retreat' } };
+  },
+
+  diplomacy(raw) {
+    if (!isNonEmptyString(raw.target, 32)) return fail('diplomacy.target must be a faction name');
+    if (!DIPLOMATIC_STANCES.includes(raw.stance as typeof DIPLOMATIC_STANCES[number])) {
+      return fail(`diplomacy.stance must be one of ${DIPLOMATIC_STANCES.join(', ')}`);
+    }
+    return {
+      ok: true,
+      message: { type: 'diplomacy', target: raw.target, stance: raw.stance as typeof DIPLOMATIC_STANCES[number] },
+    };
+  },
+
+  party_invite(raw) {
+    if (!isNonEmptyString(raw.targetId, 64)) return fail('party_invite.targetId must be a player id');
+    return { ok: true, message: { type: 'party_invite', targetId: raw.targetId } };
+  },
+
+  party_answer(raw) {
+    if (!isNonEmptyString(raw.leaderId, 64)) return fail('party_answer.leaderId must be a player id');
+    if (typeof raw.accept !== 'boolean') return fail('party_answer.accept must be a boolean');
+    return { ok: true, message: { type: 'party_answer', leaderId: raw.leaderId, accept: raw.accept } };
+  },
+
+  party_leave() {
+    return { ok: true, message: { type: 'party_leave' } };
+  },
+
+  transfer(raw) {
+    if (!isNonEmptyString(raw.targetId, 64)) return fail('transfer.targetId must be a player id');
+    if (raw.gold !== undefined) {
+      if (!Number.isInteger(raw.gold) || (raw.gold as number) < 1 || (raw.gold as number) > MAX_TRANSFER_GOLD) {
+        return fail(`transfer.gold must be an integer from 1 to ${MAX_TRANSFER_GOLD}`);
+      }
+      return { ok: true, message: { type: 'transfer', targetId: raw.targetId, gold: raw.gold as number } };
+    }
+    if (!UNIT_TYPES.includes(raw.unitType as typeof UNIT_TYPES[number])) {
+      return fail(`transfer needs gold, or a unitType from ${UNIT_TYPES.join(', ')}`);
+    }
+    if (!Number.isInteger(raw.level) || (raw.level as number) < 1 || (raw.level as number) > MAX_UNIT_LEVEL) {
+      return fail(`transfer.level must be an integer from 1 to ${MAX_UNIT_LEVEL}`);
+    }
+    const count = raw.count;
+    if (!Number.isInteger(count) || (count as number) < 1 || (count as number) > MAX_RECRUIT_COUNT) {
+      return fail(`transfer.count must be an integer from 1 to ${MAX_RECRUIT_COUNT}`);
+    }
+    return {
+      ok: true,
+      message: {
+        type: 'transfer',
+        targetId: raw.targetId,
+        unitType: raw.unitType as typeof UNIT_TYPES[number],
+        level: raw.level as number,
+        count: count as number,
+      },
+    };
+  },
+
+  item_trade(raw) {
+    if (!ITEM_IDS.includes(raw.itemId as typeof ITEM_IDS[number])) {
+      return fail(`item_trade.itemId must be one of ${ITEM_IDS.join(', ')}`);
+    }
+    if (raw.action !== 'buy' && raw.action !== 'sell') return fail('item_trade.action must be buy or sell');
+    return { ok: true, message: { type: 'item_trade', itemId: raw.itemId as typeof ITEM_IDS[number], action: raw.action } };
+  },
+
+  equip_item(raw) {
+    if (!ITEM_IDS.includes(raw.itemId as typeof ITEM_IDS[number])) {
+      return fail(`equip_item.itemId must be one of ${ITEM_IDS.join(', ')}`);
+    }
+    return { ok: true, message: { type: 'equip_item', itemId: raw.itemId as typeof ITEM_IDS[number] } };
+  },
+
+  companion(raw) {
+    if (!COMPANION_IDS.includes(raw.companionId as typeof COMPANION_IDS[number])) {
+      return fail(`companion.companionId must be one of ${COMPANION_IDS.join(', ')}`);
+    }
+    if (raw.action !== 'hire' && raw.action !== 'dismiss') return fail('companion.action must be hire or dismiss');
+    return {
+      ok: true,
+      message: { type: 'companion', companionId: raw.companionId as typeof COMPANION_IDS[number], action: raw.action },
+    };
+  },
+
+  train_attribute(raw) {
+    if (!HERO_ATTRIBUTES.includes(raw.attribute as typeof HERO_ATTRIBUTES[number])) {
+      return fail(`train_attribute.attribute must be one of ${HERO_ATTRIBUTES.join(', ')}`);
+    }
+    return { ok: true, message: { type: 'train_attribute', attribute: raw.attribute as typeof HERO_ATTRIBUTES[number] } };
+  },
+
+  quest_accept(raw) {
+    if (!isNonEmptyString(raw.questId, 64)) return fail('quest_accept.questId must be a quest id');
+    return { ok: true, message: { type: 'quest_accept', questId: raw.questId } };
+  },
+
+  quest_abandon(raw) {
+    if (!isNonEmptyString(raw.questId, 64)) return fail('quest_abandon.questId must be a quest id');
+    return { ok: true, message: { type: 'quest_abandon', questId: raw.questId } };
+  },
+
+  chat(raw) {
+    if (typeof raw.text !== 'string') return fail('chat.text must be a string');
+    const text = raw.text.trim().slice(0, MAX_CHAT_LENGTH);
+    if (!text) return fail('chat.text must not be empty');
+    // Older clients send no channel and keep talking on global
+    const channel = raw.channel ?? 'global';
+    if (!CHAT_CHANNELS.includes(channel as typeof CHAT_CHANNELS[number])) {
+      return fail(`chat.channel must be one of ${CHAT_CHANNELS.join(', ')}`);
+    }
+    if (channel === 'whisper') {
+      if (!isNonEmptyString(raw.to, MAX_NAME_LENGTH)) return fail('chat.to must name the player to whisper to');
+      return { ok: true, message: { type: 'chat', text, channel, to: raw.to } };
+    }
+    return { ok: true, message: { type: 'chat', text, channel: channel as typeof CHAT_CHANNELS[number] } };
+  },
+
+  chat_mute(raw) {
+    if (!isNonEmptyString(raw.name, MAX_NAME_LENGTH)) return fail('chat_mute.name must be a player name');
+    if (typeof raw.muted !== 'boolean') return fail('chat_mute.muted must be a boolean');
+    return { ok: true, message: { type: 'chat_mute', name: raw.name, muted: raw.muted } };
+  },
+
+  chat_report(raw) {
+    if (!isNonEmptyString(raw.name, MAX_NAME_LENGTH)) return fail('chat_report.name must be a player name');
+    if (raw.reason !== undefined && typeof raw.reason !== 'string') return fail('chat_report.reason must be a string');
+    const reason = raw.reason?.trim().slice(0, MAX_CHAT_LENGTH);
+    return { ok: true, message: { type: 'chat_report', name: raw.name, ...(reason ? { reason } : {}) } };
+  },
+
+  battle_history(raw) {
+    if (raw.mine !== undefined && typeof raw.mine !== 'boolean') return fail('battle_history.mine must be a boolean');
+    if (raw.before !== undefined && !isNonEmptyString(raw.before, 64)) {
+      return fail('battle_history.before must be a battle id');
+    }
+    return {
+      ok: true,
+      message: {
+        type: 'battle_history',
+        ...(raw.mine !== undefined ? { mine: raw.mine } : {}),
+        ...(raw.before !== undefined ? { before: raw.before } : {}),
+      },
+    };
+  },
+
+  battle_replay(raw) {
+    if (!isNonEmptyString(raw.battleId, 64)) return fail('battle_replay.battleId must be a battle id');
+    return { ok: true, message: { type: 'battle_replay', battleId: raw.battleId } };
+  },
+
+  ping(raw) {
+    if (!isFiniteNumber(raw.id)) return fail('ping.id must be a number');
+    return { ok: true, message: { type: 'ping', id: raw.id } };
+  },
+};
+
+export function parseClientMessage(raw: unknown): ParseResult {
+  if (!isRecord(raw)) return fail('message must be an object');
+  if (typeof raw.type !== 'string' || !Object.hasOwn(validators, raw.type)) {
+    return fail(`unknown message type: ${String(raw.type)}`);
+  }
+  return validators[raw.type as ClientMessage['type']](raw);
+}
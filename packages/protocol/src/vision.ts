@@ -0,0 +1,27 @@
+import type { Territory } from './types.js';
+
+// ============================================
+// VISION
+// ============================================
+
+// How far a party sees other parties, and within what distance it can count them exactly
+export const SCOUT_RANGE = 20;
+export const DETAIL_RANGE = 10;
+
+// Settlements watch the country around them; each watchtower level pushes that out further
+export const SETTLEMENT_VISION: Record<Territory['type'], number> = {
+  village: 8,
+  castle: 12,
+  city: 15,
+};
+export const WATCHTOWER_VISION_BONUS = 5;
+
+export function getSettlementVision(territory: Territory): number {
+  return SETTLEMENT_VISION[territory.type] + territory.buildings.watchtower * WATCHTOWER_VISION_BONUS;
+}
+
+// What scouts report about a party they can only see from afar
+export function estimateArmySize(size: number): number {
+  const step = size < 100 ? 10 : 50;
+  return Math.max(step, Math.round(size / step) * step);
+}